@@ -17,6 +17,36 @@
 import { DevelopmentFlowServer } from './server/DevelopmentFlowServer.js';
 import { logger } from './utils/index.js';
 import path from 'path';
+import { parseArgs } from 'util';
+
+/**
+ * Parses command line options
+ * 
+ * Supported flags:
+ * - `--http` - Serve MCP clients over HTTP/SSE instead of stdio
+ * - `--host <host>` - Host interface for the HTTP transport
+ * - `--port <port>` - Port for the HTTP transport
+ * 
+ * Each flag falls back to an environment variable (`MCP_TRANSPORT`,
+ * `MCP_HTTP_HOST`, `MCP_HTTP_PORT`) and then to the server defaults.
+ * 
+ * @returns Transport-related configuration overrides
+ */
+function parseTransportOptions(): { transport: 'stdio' | 'http'; httpHost: string; httpPort: number } {
+  const { values } = parseArgs({
+    options: {
+      http: { type: 'boolean' },
+      host: { type: 'string' },
+      port: { type: 'string' }
+    }
+  });
+
+  return {
+    transport: values.http || process.env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio',
+    httpHost: values.host || process.env.MCP_HTTP_HOST || '127.0.0.1',
+    httpPort: Number(values.port || process.env.MCP_HTTP_PORT || 3000)
+  };
+}
 
 /**
  * Main application entry point
@@ -29,6 +59,7 @@ import path from 'path';
  * - Base directory set to current working directory
  * - Logging enabled with 'info' level
  * - Automatic backup enabled for project data
+ * - Transport selected with `--http`/`--host`/`--port` (stdio by default)
  * 
  * @throws {Error} When server initialization or startup fails
  * 
@@ -38,6 +69,9 @@ import path from 'path';
  * npm start
  * # or
  * node dist/index.js
+ * 
+ * # Serve several clients over HTTP/SSE
+ * node dist/index.js --http --port 3000
  * ```
  */
 async function main(): Promise<void> {
@@ -46,9 +80,15 @@ async function main(): Promise<void> {
     const server = new DevelopmentFlowServer({
       baseDir: process.cwd(),        // Use current working directory as base
       projectsDir: process.env.PROJECTS_DIR || path.join('/tmp', '.dev'), // Projects directory
+      ...(process.env.TEMPLATES_DIR && { templatesDir: process.env.TEMPLATES_DIR }), // User templates directory
       enableLogging: true,           // Enable comprehensive logging
       logLevel: 'info',             // Set appropriate log level for production
-      autoBackup: true              // Enable automatic project backups
+      autoBackup: true,             // Enable automatic project backups
+      documentSnapshots: process.env.DOCUMENT_SNAPSHOTS === 'true', // Keep document history on regeneration
+      autoCompleteParentTasks: process.env.AUTO_COMPLETE_PARENT_TASKS !== 'false', // Complete parents with their last subtask
+      strictRequirements: process.env.STRICT_REQUIREMENTS === 'true', // Block requirement approval on linter findings
+      outputLayout: process.env.OUTPUT_LAYOUT === 'kiro' ? 'kiro' : 'default', // Spec folder layout
+      ...parseTransportOptions()    // stdio or HTTP/SSE transport
     });
 
     // Initialize and start the MCP server
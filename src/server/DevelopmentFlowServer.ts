@@ -1,20 +1,44 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   CallToolRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
   DevelopmentPhase,
+  FlowAction,
+  TaskAction,
+  RequirementAction,
   ProjectState,
+  ProjectQuery,
   DevelopmentFlowInput,
   DevelopmentFlowResult,
   DevelopmentFlowError,
-  DevelopmentFlowConfig
+  DevelopmentFlowConfig,
+  SessionContext,
+  PhaseApproval,
+  PhaseRevision,
+  ReviewFeedback,
+  ChangeRequest,
+  GeneratedDocument,
+  RequirementItem,
+  SyncChange,
+  SyncDocumentName,
+  SyncReport,
+  Task,
+  TaskStatus,
+  TaskTreeNode
 } from '../types/index.js';
 import {
   generateProjectId,
   formatTimestamp,
+  hashContent,
   validateProjectState,
   logger,
   InputValidator,
@@ -23,6 +47,13 @@ import {
 } from '../utils/index.js';
 import { DocumentGenerator } from './DocumentGenerator.js';
 import { StateManager } from './StateManager.js';
+import { ResourceProvider } from './ResourceProvider.js';
+import { PromptProvider } from './PromptProvider.js';
+import { PhaseStateMachine, CONFIRMABLE_PHASES } from './PhaseStateMachine.js';
+import { TaskManager, TaskStatusAction } from './TaskManager.js';
+import { RequirementManager } from './RequirementManager.js';
+import { DocumentSync, SYNC_DOCUMENTS } from './DocumentSync.js';
+import http from 'http';
 import path from 'path';
 
 /**
@@ -61,8 +92,18 @@ export class DevelopmentFlowServer {
   private documentGenerator: DocumentGenerator;
   /** State manager for persisting project data */
   private stateManager: StateManager;
-  /** Currently active project state */
-  private currentProject: ProjectState | null = null;
+  /** Resource provider exposing project state and documents over MCP */
+  private resourceProvider: ResourceProvider;
+  /** Prompt provider publishing one prompt per development phase */
+  private promptProvider: PromptProvider;
+  /** Session context of the stdio connection, also used by the public project accessors */
+  private defaultSession: SessionContext = { id: 'stdio', currentProject: null };
+  /** Session contexts of all open connections indexed by session ID */
+  private sessions: Map<string, SessionContext> = new Map([[this.defaultSession.id, this.defaultSession]]);
+  /** Active HTTP/SSE transports indexed by session ID */
+  private sseTransports: Map<string, SSEServerTransport> = new Map();
+  /** HTTP server of the 'http' transport, once started */
+  private httpServer: http.Server | null = null;
 
   /**
    * Creates a new DevelopmentFlowServer instance
@@ -102,10 +143,35 @@ export class DevelopmentFlowServer {
       logLevel: 'info',
       maxProjects: 100,
       autoBackup: true,
+      documentSnapshots: false,
+      autoCompleteParentTasks: true,
+      strictRequirements: false,
+      outputLayout: 'default',
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
       ...config
     };
 
-    this.server = new Server(
+    this.documentGenerator = new DocumentGenerator(this.config);
+    this.stateManager = new StateManager(this.config);
+    this.resourceProvider = new ResourceProvider(this.stateManager);
+    this.promptProvider = new PromptProvider(this.stateManager);
+    this.server = this.createMcpServer(this.defaultSession);
+  }
+
+  /**
+   * Creates an MCP server instance bound to a session context
+   * 
+   * Each connection gets its own MCP server so that the active project of
+   * one client never leaks into another. All instances share the same
+   * state manager, document generator and providers.
+   * 
+   * @param session - Session context the server's handlers operate on
+   * @returns Configured MCP server instance
+   */
+  private createMcpServer(session: SessionContext): Server {
+    const server = new Server(
       {
         name: 'development-flow-mcp',
         version: '1.0.0',
@@ -113,28 +179,35 @@ export class DevelopmentFlowServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    this.documentGenerator = new DocumentGenerator(this.config);
-    this.stateManager = new StateManager(this.config);
-    this.setupHandlers();
+    this.setupHandlers(server, session);
+    return server;
   }
 
   /**
-   * Sets up MCP request handlers for tool listing and execution
+   * Sets up MCP request handlers for tool, resource and prompt operations
    * 
-   * Configures the server to handle two main types of requests:
+   * Configures the server to handle the following types of requests:
    * 1. ListTools - Returns available development flow tools and their schemas
    * 2. CallTool - Executes development flow actions based on user input
+   * 3. ListResources / ListResourceTemplates - Advertises project state and documents
+   * 4. ReadResource - Returns the contents of a project state or document
+   * 5. ListPrompts / GetPrompt - Publishes phase prompts filled in from project state
    * 
    * The tool schema defines all supported development phases and their
    * required/optional parameters for comprehensive workflow management.
+   * 
+   * @param server - MCP server instance to register the handlers on
+   * @param session - Session context the handlers operate on
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, session: SessionContext): void {
     // Tool list handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
@@ -145,45 +218,117 @@ export class DevelopmentFlowServer {
               properties: {
                 action: {
                   type: 'string',
-                  enum: Object.values(DevelopmentPhase),
+                  enum: [...Object.values(DevelopmentPhase), ...Object.values(FlowAction), ...Object.values(TaskAction), ...Object.values(RequirementAction)],
                   description: 'Action type to execute'
                 },
+                projectId: {
+                  type: 'string',
+                  description: 'Target project ID, defaults to the current project of the session (all actions except init)'
+                },
                 projectName: {
                   type: 'string',
-                  description: 'Project name (action: init)'
+                  description: 'Project name (action: init), name filter (actions: list, search)'
                 },
                 description: {
                   type: 'string',
-                  description: 'Project description (action: requirement)'
+                  description: 'Project description (actions: requirement, change_request), task description (actions: task_add, task_update)'
                 },
                 requirements: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: 'Requirements list (action: requirement)'
+                  description: 'Requirements list (actions: requirement, change_request)'
                 },
                 functionalRequirements: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: 'Functional requirements (action: requirement)'
+                  description: 'Functional requirements (actions: requirement, change_request)'
                 },
                 technicalRequirements: {
                   type: 'array',
                   items: { type: 'string' },
-                  description: 'Technical requirements (action: requirement)'
+                  description: 'Technical requirements (actions: requirement, change_request)'
                 },
                 acceptanceCriteria: {
                   type: 'array',
-                  items: { type: 'string' },
-                  description: 'Acceptance criteria (action: requirement)'
+                  items: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          trigger: { type: 'string', description: 'Event, rendered as WHEN <trigger>' },
+                          condition: { type: 'string', description: 'Precondition, rendered as IF/AND <condition>' },
+                          response: { type: 'string', description: 'System response, rendered as THEN the system SHALL <response>' }
+                        },
+                        required: ['response']
+                      }
+                    ]
+                  },
+                  description: 'Acceptance criteria as EARS text ("WHEN ... THEN the system SHALL ...") or structured objects (actions: requirement, change_request)'
+                },
+                userStories: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      role: { type: 'string', description: 'Who wants the feature: As a <role>' },
+                      goal: { type: 'string', description: 'What they want: I want <goal>' },
+                      benefit: { type: 'string', description: 'Why: so that <benefit>' },
+                      acceptanceCriteria: {
+                        type: 'array',
+                        items: {
+                          oneOf: [
+                            { type: 'string' },
+                            {
+                              type: 'object',
+                              properties: { trigger: { type: 'string' }, condition: { type: 'string' }, response: { type: 'string' } },
+                              required: ['response']
+                            }
+                          ]
+                        }
+                      }
+                    },
+                    required: ['role', 'goal']
+                  },
+                  description: 'User stories, each with its own acceptance criteria in EARS form; may be combined with the requirement lists (actions: requirement, change_request)'
                 },
                 phase: {
                   type: 'string',
-                  description: 'Confirmation phase (action: confirmation)'
+                  description: 'Phase being confirmed: requirement, design or todo, defaults to the current phase (action: confirmation); phase filter (actions: list, search)'
                 },
                 confirmed: {
                   type: 'boolean',
                   description: 'Whether to confirm (action: confirmation)'
                 },
+                approvedBy: {
+                  type: 'string',
+                  description: 'Name of the reviewer approving or rejecting (action: confirmation)'
+                },
+                requestedBy: {
+                  type: 'string',
+                  description: 'Name of the person requesting a requirement change (actions: change_request, sync)'
+                },
+                comment: {
+                  type: 'string',
+                  description: 'Approval comment (action: confirmation)'
+                },
+                feedback: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      text: { type: 'string' },
+                      section: { type: 'string' }
+                    },
+                    required: ['text']
+                  },
+                  description: 'Reviewer feedback for a rejection (action: confirmation with confirmed: false)'
+                },
+                addressedFeedback: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Feedback IDs addressed by this revision, defaults to all open feedback of the phase (actions: requirement, design, todo)'
+                },
                 architecture: {
                   type: 'string',
                   description: 'Technical architecture (action: design)'
@@ -210,16 +355,84 @@ export class DevelopmentFlowServer {
                 },
                 tasks: {
                   type: 'array',
-                  items: { type: 'object' },
-                  description: 'Task list (action: todo)'
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      title: { type: 'string' },
+                      description: { type: 'string' },
+                      priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+                      assignee: { type: 'string' },
+                      estimatedHours: { type: 'number' },
+                      dependencies: { type: 'array', items: { type: 'string' } },
+                      parentId: { type: 'string' },
+                      requirementIds: { type: 'array', items: { type: 'string' } }
+                    }
+                  },
+                  description: 'Tasks to add or patch: entries whose id matches an existing task patch it, others are added (IDs are generated when omitted) and tasks not listed are kept. Dependencies must reference existing task IDs and must not form cycles (action: todo)'
                 },
                 taskId: {
                   type: 'string',
-                  description: 'Task ID (action: task_complete)'
+                  description: 'Task ID (actions: task_start, task_block, task_reopen, task_update, task_remove, task_complete, task_log)'
+                },
+                reason: {
+                  type: 'string',
+                  description: 'Why the task is blocked (action: task_block) or why requirements change (actions: change_request, sync)'
+                },
+                hours: {
+                  type: 'number',
+                  description: 'Hours worked on the task, greater than 0 (action: task_log)'
+                },
+                note: {
+                  type: 'string',
+                  description: 'What the logged time was spent on (action: task_log)'
+                },
+                title: {
+                  type: 'string',
+                  description: 'Task title (actions: task_add, task_update)'
+                },
+                priority: {
+                  type: 'string',
+                  enum: ['low', 'medium', 'high'],
+                  description: 'Task priority (actions: task_add, task_update)'
+                },
+                estimatedHours: {
+                  type: 'number',
+                  description: 'Task effort estimate in hours (actions: task_add, task_update)'
+                },
+                assignee: {
+                  type: 'string',
+                  description: 'Task assignee, empty to unassign (actions: task_add, task_update)'
+                },
+                dependencies: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'IDs of tasks that must be completed first (actions: task_add, task_update)'
+                },
+                parentId: {
+                  type: 'string',
+                  description: 'Parent task ID making the task a subtask, empty for a top-level task (actions: task_add, task_update)'
+                },
+                requirementIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'IDs of the requirements and acceptance criteria the task implements, e.g. REQ-1 or AC-2 (actions: task_add, task_update)'
                 },
                 force: {
                   type: 'boolean',
-                  description: 'Force complete project, skip task validation (action: finish)'
+                  description: 'Override phase transition checks (audited); for action confirmation, skip the requirement linter in strict mode; for action task_complete, skip the subtask and dependency checks; for action task_remove, detach the task from its dependents and subtasks; for action finish, skip task validation; for action sync, apply ticked and unticked tasks outside task execution without the subtask and dependency checks'
+                },
+                query: {
+                  type: 'string',
+                  description: 'Search text matched against project content (action: search)'
+                },
+                updatedAfter: {
+                  type: 'string',
+                  description: 'Only projects updated at or after this ISO date (actions: list, search)'
+                },
+                updatedBefore: {
+                  type: 'string',
+                  description: 'Only projects updated at or before this ISO date (actions: list, search)'
                 }
               },
               required: ['action']
@@ -230,7 +443,7 @@ export class DevelopmentFlowServer {
     });
 
     // Tool call handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
       const { name, arguments: args } = request.params;
       
       if (name !== 'development_flow') {
@@ -245,7 +458,7 @@ export class DevelopmentFlowServer {
 
       try {
         const input = args as unknown as DevelopmentFlowInput;
-        const result = await this.handleDevelopmentFlow(input);
+        const result = await this.handleDevelopmentFlow(input, session);
         
         return {
           content: [
@@ -268,6 +481,39 @@ export class DevelopmentFlowServer {
         };
       }
     });
+
+    // Resource list handler
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await this.resourceProvider.listResources()
+      };
+    });
+
+    // Resource template list handler
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resourceProvider.listResourceTemplates()
+      };
+    });
+
+    // Resource read handler
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return {
+        contents: [await this.resourceProvider.readResource(request.params.uri)]
+      };
+    });
+
+    // Prompt list handler
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.promptProvider.listPrompts()
+      };
+    });
+
+    // Prompt get handler
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return await this.promptProvider.getPrompt(request.params.name, request.params.arguments, session.currentProject?.id);
+    });
   }
 
   /**
@@ -278,6 +524,7 @@ export class DevelopmentFlowServer {
    * for all development flow operations.
    * 
    * @param input - Development flow input containing action type and parameters
+   * @param session - Session context holding the active project
    * @returns Promise resolving to the operation result
    * @throws {DevelopmentFlowError} When action is unsupported or execution fails
    * 
@@ -289,27 +536,56 @@ export class DevelopmentFlowServer {
    * });
    * ```
    */
-  private async handleDevelopmentFlow(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
+  private async handleDevelopmentFlow(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
     logger.info(`Executing development flow action: ${input.action}`);
 
     try {
       switch (input.action) {
         case DevelopmentPhase.INIT:
-          return await this.handleInit(input);
+          return await this.handleInit(input, session);
         case DevelopmentPhase.REQUIREMENT:
-          return await this.handleRequirement(input);
+          return await this.handleRequirement(input, session);
+        case RequirementAction.CHANGE_REQUEST:
+          return await this.handleChangeRequest(input, session);
         case DevelopmentPhase.CONFIRMATION:
-          return await this.handleConfirmation(input);
+          return await this.handleConfirmation(input, session);
         case DevelopmentPhase.DESIGN:
-          return await this.handleDesign(input);
+          return await this.handleDesign(input, session);
         case DevelopmentPhase.TODO:
-          return await this.handleTodo(input);
+          return await this.handleTodo(input, session);
         case DevelopmentPhase.TASK_COMPLETE:
-          return await this.handleTaskComplete(input);
+          return await this.handleTaskComplete(input, session);
+        case TaskAction.START:
+        case TaskAction.BLOCK:
+        case TaskAction.REOPEN:
+          return await this.handleTaskLifecycle(input, session, input.action);
+        case TaskAction.UPDATE:
+          return await this.handleTaskUpdate(input, session);
+        case TaskAction.ADD:
+          return await this.handleTaskAdd(input, session);
+        case TaskAction.REMOVE:
+          return await this.handleTaskRemove(input, session);
+        case TaskAction.LOG:
+          return await this.handleTaskLog(input, session);
+        case TaskAction.NEXT:
+          return await this.handleNext(input, session);
         case DevelopmentPhase.STATUS:
-          return await this.handleStatus(input);
+          return await this.handleStatus(input, session);
         case DevelopmentPhase.FINISH:
-          return await this.handleFinish(input);
+          return await this.handleFinish(input, session);
+        case FlowAction.LIST:
+          return await this.handleList(input);
+        case FlowAction.SWITCH:
+        case FlowAction.RESUME:
+          return await this.handleSwitch(input, session);
+        case FlowAction.SEARCH:
+          return await this.handleSearch(input);
+        case FlowAction.STATS:
+          return await this.handleStats();
+        case FlowAction.TEMPLATES:
+          return await this.handleTemplates(input, session);
+        case FlowAction.SYNC:
+          return await this.handleSync(input, session);
         default:
           throw new DevelopmentFlowError(
             `Unsupported action type: ${input.action}`,
@@ -329,6 +605,37 @@ export class DevelopmentFlowServer {
     }
   }
 
+  /**
+   * Resolves the project an action operates on
+   * 
+   * Uses the explicit `projectId` of the input when given, otherwise the
+   * current project of the session. The project is always reloaded from
+   * storage so that changes made by other sessions are picked up; when it
+   * is the session's current project, the session context is refreshed too.
+   * 
+   * @param input - Development flow input with optional project ID
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the latest stored project state
+   * @throws {DevelopmentFlowError} When no project is selected or the project doesn't exist
+   */
+  private async resolveProject(input: DevelopmentFlowInput, session: SessionContext): Promise<ProjectState> {
+    const projectId = input.projectId || session.currentProject?.id;
+    if (!projectId) {
+      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
+    }
+
+    await this.stateManager.ensureInitialized();
+    const project = await this.stateManager.loadProjectState(projectId);
+    if (!project) {
+      throw new DevelopmentFlowError(`Project does not exist: ${projectId}`, 'PROJECT_NOT_FOUND', undefined, projectId);
+    }
+
+    if (session.currentProject?.id === project.id) {
+      session.currentProject = project;
+    }
+    return project;
+  }
+
   /**
    * Handles project initialization phase
    * 
@@ -337,6 +644,7 @@ export class DevelopmentFlowServer {
    * This is the entry point for all development flow operations.
    * 
    * @param input - Input containing the project name
+   * @param session - Session context holding the active project
    * @returns Promise resolving to initialization result with project ID
    * @throws {DevelopmentFlowError} When project name is missing or validation fails
    * 
@@ -349,20 +657,20 @@ export class DevelopmentFlowServer {
    * console.log(result.projectId); // 'proj_1703462400000_a1b2c3'
    * ```
    */
-  private async handleInit(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
+  private async handleInit(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
     // Validate project name
     const nameErrors = InputValidator.validateProjectName(input.projectName || '');
     if (nameErrors.length > 0) {
       throw ErrorFormatter.validationError(nameErrors, DevelopmentPhase.INIT);
     }
 
-    const sanitizedName = InputValidator.sanitizeText(input.projectName!, 100);
+    const projectName = InputValidator.normalizeText(input.projectName!, 100);
     const projectId = generateProjectId();
     const timestamp = formatTimestamp();
     
     const projectState: ProjectState = {
       id: projectId,
-      name: sanitizedName,
+      name: projectName,
       phase: DevelopmentPhase.INIT,
       createdAt: timestamp,
       updatedAt: timestamp
@@ -378,14 +686,14 @@ export class DevelopmentFlowServer {
     await this.stateManager.ensureInitialized();
     
     // Save project state
-    await this.stateManager.saveProjectState(projectState);
-    this.currentProject = projectState;
+    await this.saveProject(projectState);
+    session.currentProject = projectState;
 
-    logger.info(`Project initialized successfully: ${sanitizedName} (${projectId})`);
+    logger.info(`Project initialized successfully: ${projectName} (${projectId})`);
 
     return {
       success: true,
-      message: `Project "${sanitizedName}" initialized successfully`,
+      message: `Project "${projectName}" initialized successfully`,
       projectId,
       phase: DevelopmentPhase.INIT,
       nextSteps: ['Proceed with requirement analysis (action: requirement)']
@@ -398,8 +706,14 @@ export class DevelopmentFlowServer {
    * Updates the current project with requirement information including
    * description, functional requirements, technical requirements, and
    * acceptance criteria. Generates a requirements document for review.
+   * Every entry gets a stable ID (`REQ-1`, `FR-1`, `TR-1`, `AC-1`) that is
+   * kept while its text is unchanged. User stories are stored alongside the
+   * requirement lists, which older clients can keep using on their own.
+   * Structured acceptance criteria are
+   * stored as EARS text, and the requirement linter findings are returned.
    * 
    * @param input - Input containing requirement details
+   * @param session - Session context holding the active project
    * @returns Promise resolving to requirement analysis result
    * @throws {DevelopmentFlowError} When no current project exists
    * 
@@ -415,16 +729,75 @@ export class DevelopmentFlowServer {
    * });
    * ```
    */
-  private async handleRequirement(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
+  private async handleRequirement(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    if (project.approvals?.[DevelopmentPhase.REQUIREMENT] && !input.force) {
+      throw new DevelopmentFlowError(
+        'Requirements are confirmed. Change them through a change request (action: change_request) with a reason.',
+        'CHANGE_REQUEST_REQUIRED',
+        project.phase,
+        project.id
+      );
+    }
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.REQUIREMENT, input.force);
+    this.assertAddressableFeedback(project, DevelopmentPhase.REQUIREMENT, input.addressedFeedback);
+    this.applyRequirementInput(project, input);
+
+    // Update project state
+    PhaseStateMachine.reopen(project, DevelopmentPhase.REQUIREMENT);
+    project.updatedAt = formatTimestamp();
+    const requirementItems = RequirementManager.assignIds(project);
+    const findings = RequirementManager.lint(project);
+
+    // A revision of changed requirements updates their pending change request
+    const pendingChange = project.changeRequests?.find(change => change.status === 'pending');
+    if (pendingChange) {
+      this.refreshChangeRequest(project, pendingChange, project.confirmedRequirements || []);
     }
 
+    // Generate requirement document
+    const { requirementDoc, documents } = await this.regenerateChangedDocuments(project);
+    const revision = this.recordRevision(project, DevelopmentPhase.REQUIREMENT, requirementDoc, input.addressedFeedback);
+
+    // Save state
+    await this.saveProject(project);
+    
+    logger.info(`Requirement analysis completed: ${project.name}`);
+
+    return this.withDocuments({
+      success: true,
+      message: 'Requirement analysis completed',
+      projectId: project.id,
+      phase: DevelopmentPhase.REQUIREMENT,
+      data: { revision, requirements: requirementItems, findings, ...(pendingChange && { changeRequest: pendingChange }) },
+      nextSteps: findings.length > 0
+        ? [
+            `Resolve ${findings.length} requirement finding(s) and resubmit (action: requirement)`,
+            this.config.strictRequirements
+              ? 'Requirements cannot be confirmed until the findings are resolved'
+              : 'Or wait for user to confirm requirements (action: confirmation)'
+          ]
+        : ['Wait for user to confirm requirements (action: confirmation)']
+    }, documents);
+  }
+
+  /**
+   * Validates and applies the description, requirement lists and user
+   * stories of a requirement or change request input
+   *
+   * Only the given fields are replaced. The project must be discarded when
+   * this throws, as valid fields are applied before the error is raised.
+   *
+   * @param project - Project whose requirements are revised
+   * @param input - Input containing the requirement fields
+   * @throws {DevelopmentFlowError} When a requirement field is invalid
+   */
+  private applyRequirementInput(project: ProjectState, input: DevelopmentFlowInput): void {
     const errors: string[] = [];
 
-    // Validate and sanitize description
+    // Validate and normalize description
     if (input.description) {
-      this.currentProject.description = InputValidator.sanitizeText(input.description, 2000);
+      project.description = InputValidator.normalizeText(input.description, 2000);
     }
 
     // Validate requirements array
@@ -433,8 +806,8 @@ export class DevelopmentFlowServer {
       if (reqErrors.length > 0) {
         errors.push(...reqErrors);
       } else {
-        this.currentProject.requirements = input.requirements.map(req => 
-          InputValidator.sanitizeText(req, 500)
+        project.requirements = input.requirements.map(req => 
+          InputValidator.normalizeText(req, 500)
         );
       }
     }
@@ -445,8 +818,8 @@ export class DevelopmentFlowServer {
       if (funcErrors.length > 0) {
         errors.push(...funcErrors);
       } else {
-        this.currentProject.functionalRequirements = input.functionalRequirements.map(req =>
-          InputValidator.sanitizeText(req, 500)
+        project.functionalRequirements = input.functionalRequirements.map(req =>
+          InputValidator.normalizeText(req, 500)
         );
       }
     }
@@ -457,48 +830,137 @@ export class DevelopmentFlowServer {
       if (techErrors.length > 0) {
         errors.push(...techErrors);
       } else {
-        this.currentProject.technicalRequirements = input.technicalRequirements.map(req =>
-          InputValidator.sanitizeText(req, 500)
+        project.technicalRequirements = input.technicalRequirements.map(req =>
+          InputValidator.normalizeText(req, 500)
         );
       }
     }
 
     // Validate acceptance criteria
     if (input.acceptanceCriteria) {
-      const acErrors = InputValidator.validateStringArray(input.acceptanceCriteria, 'acceptanceCriteria');
+      const acErrors = InputValidator.validateAcceptanceCriteria(input.acceptanceCriteria);
       if (acErrors.length > 0) {
         errors.push(...acErrors);
       } else {
-        this.currentProject.acceptanceCriteria = input.acceptanceCriteria.map(criteria =>
-          InputValidator.sanitizeText(criteria, 500)
+        project.acceptanceCriteria = input.acceptanceCriteria.map(criteria =>
+          InputValidator.normalizeText(typeof criteria === 'string' ? criteria : RequirementManager.formatCriterion(criteria), 500)
         );
       }
     }
 
+    // Validate user stories
+    if (input.userStories) {
+      const storyErrors = InputValidator.validateUserStories(input.userStories);
+      if (storyErrors.length > 0) {
+        errors.push(...storyErrors);
+      } else {
+        project.userStories = input.userStories.map(story => ({
+          role: InputValidator.normalizeText(story.role, 200),
+          goal: InputValidator.normalizeText(story.goal, 500),
+          ...(story.benefit?.trim() && { benefit: InputValidator.normalizeText(story.benefit, 500) }),
+          acceptanceCriteria: (story.acceptanceCriteria || []).map(criteria =>
+            InputValidator.normalizeText(typeof criteria === 'string' ? criteria : RequirementManager.formatCriterion(criteria), 500)
+          )
+        }));
+      }
+    }
+
     if (errors.length > 0) {
       throw ErrorFormatter.validationError(errors, DevelopmentPhase.REQUIREMENT);
     }
+  }
 
-    // Update project state
-    this.currentProject.phase = DevelopmentPhase.REQUIREMENT;
-    this.currentProject.updatedAt = formatTimestamp();
 
-    // Save state
-    await this.stateManager.saveProjectState(this.currentProject);
+  /**
+   * Handles a change of confirmed requirements
+   *
+   * Applies the changed requirement fields like `requirement` does and
+   * records a change request with the reason and the difference to the
+   * confirmed requirements. Design sections and tasks depending on removed or
+   * edited entries are marked as possibly outdated. The requirement approval
+   * is revoked, so the requirements must be confirmed again before the
+   * workflow continues, and so are the design and task list approvals the
+   * change affects, which must then be revised and confirmed again.
+   *
+   * @param input - Input containing the reason and the changed requirement fields
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the recorded change request and the linter findings
+   * @throws {DevelopmentFlowError} When the requirements are not confirmed, the reason or the changes are missing, or a field is invalid
+   *
+   * @example
+   * ```typescript
+   * const result = await handleChangeRequest({
+   *   action: RequirementAction.CHANGE_REQUEST,
+   *   reason: 'Legal requires two-factor authentication',
+   *   requestedBy: 'alice',
+   *   requirements: ['User authentication with two-factor login', 'Product catalog']
+   * });
+   * ```
+   */
+  private async handleChangeRequest(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
 
-    // Generate requirement document
-    const requirementDoc = await this.documentGenerator.generateRequirementDocument(this.currentProject);
-    
-    logger.info(`Requirement analysis completed: ${this.currentProject.name}`);
+    if (!project.approvals?.[DevelopmentPhase.REQUIREMENT]) {
+      throw new DevelopmentFlowError(
+        'Requirements are not confirmed yet, revise them directly (action: requirement)',
+        'REQUIREMENTS_NOT_CONFIRMED',
+        project.phase,
+        project.id
+      );
+    }
 
-    return {
+    const errors: string[] = [];
+    if (!input.reason?.trim()) {
+      errors.push('reason is required for a change request');
+    }
+    const fields = [
+      input.description, input.requirements, input.functionalRequirements,
+      input.technicalRequirements, input.acceptanceCriteria, input.userStories
+    ];
+    if (fields.every(field => field === undefined)) {
+      errors.push('Provide the changed requirement fields (description, requirements, functionalRequirements, technicalRequirements, acceptanceCriteria or userStories)');
+    }
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors, DevelopmentPhase.REQUIREMENT);
+    }
+    this.assertAddressableFeedback(project, DevelopmentPhase.REQUIREMENT, input.addressedFeedback);
+
+    const baseline = project.confirmedRequirements ?? [...(project.requirementItems || [])];
+    this.applyRequirementInput(project, input);
+    const requirementItems = RequirementManager.assignIds(project);
+    const findings = RequirementManager.lint(project);
+
+    const change = this.recordChangeRequest(project, input.reason!, input.requestedBy, baseline);
+
+    const { requirementDoc, documents } = await this.regenerateChangedDocuments(project);
+    const revision = this.recordRevision(project, DevelopmentPhase.REQUIREMENT, requirementDoc, input.addressedFeedback);
+    await this.saveProject(project);
+
+    logger.info(
+      `Change request ${change.id} recorded: ${project.name} (+${change.added.length}/-${change.removed.length} requirement(s))`,
+      project.id
+    );
+
+    return this.withDocuments({
       success: true,
-      message: 'Requirement analysis completed',
-      projectId: this.currentProject.id,
+      message: `Change request ${change.id} recorded, requirements need to be confirmed again`,
+      projectId: project.id,
       phase: DevelopmentPhase.REQUIREMENT,
-      nextSteps: ['Wait for user to confirm requirements (action: confirmation)'],
-      generatedFiles: [requirementDoc]
-    };
+      data: { changeRequest: change, revision, requirements: requirementItems, findings },
+      nextSteps: [
+        ...(findings.length > 0 ? [`Resolve ${findings.length} requirement finding(s) and resubmit (action: requirement)`] : []),
+        'Wait for user to confirm the changed requirements (action: confirmation)',
+        ...(change.revokedApprovals?.some(phase => phase !== DevelopmentPhase.REQUIREMENT)
+          ? [`Then revise and confirm again: ${change.revokedApprovals.filter(phase => phase !== DevelopmentPhase.REQUIREMENT).join(', ')}`]
+          : []),
+        ...(change.staleDesignSections.length > 0
+          ? [`Review the possibly outdated design sections: ${change.staleDesignSections.join(', ')} (action: design)`]
+          : []),
+        ...(change.staleTasks.length > 0
+          ? [`Review the possibly outdated tasks: ${change.staleTasks.join(', ')} (action: todo)`]
+          : [])
+      ]
+    }, documents);
   }
 
   /**
@@ -506,18 +968,24 @@ export class DevelopmentFlowServer {
    * 
    * Processes user confirmation to either proceed with the current phase
    * content or request modifications. This ensures user approval before
-   * moving forward in the development workflow.
+   * moving forward in the development workflow. Approvals are recorded per
+   * phase with the approver, time, optional comment and a hash of the
+   * approved document. With `strictRequirements`, requirements with linter
+   * findings cannot be approved.
    * 
    * @param input - Input containing confirmation status
+   * @param session - Session context holding the active project
    * @returns Promise resolving to confirmation result
-   * @throws {DevelopmentFlowError} When no current project exists or confirmation status is missing
+   * @throws {DevelopmentFlowError} When no current project exists, confirmation status is missing, strict requirement linting fails or the document has unsynced hand edits
    * 
    * @example
    * ```typescript
    * // Confirm and proceed
    * const result = await handleConfirmation({
    *   action: DevelopmentPhase.CONFIRMATION,
-   *   confirmed: true
+   *   phase: 'requirement',
+   *   confirmed: true,
+   *   approvedBy: 'alice'
    * });
    * 
    * // Request modifications
@@ -527,41 +995,139 @@ export class DevelopmentFlowServer {
    * });
    * ```
    */
-  private async handleConfirmation(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
-    }
+  private async handleConfirmation(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.CONFIRMATION, input.force);
 
     if (input.confirmed === undefined) {
       throw new DevelopmentFlowError('Please provide confirmation status', 'MISSING_CONFIRMATION');
     }
 
+    // Determine the reviewed phase, defaulting to the phase awaiting review
+    const phase = (input.phase || project.phase) as DevelopmentPhase;
+    if (!CONFIRMABLE_PHASES.includes(phase)) {
+      throw ErrorFormatter.validationError(
+        [`phase must be one of: ${CONFIRMABLE_PHASES.join(', ')}`],
+        DevelopmentPhase.CONFIRMATION
+      );
+    }
+    if (phase !== project.phase && !input.force) {
+      throw new DevelopmentFlowError(
+        `Cannot confirm phase '${phase}' while project is in phase '${project.phase}'`,
+        'CONFIRMATION_PHASE_MISMATCH',
+        DevelopmentPhase.CONFIRMATION,
+        project.id
+      );
+    }
+
+    if (input.confirmed && phase === DevelopmentPhase.REQUIREMENT && this.config.strictRequirements && !input.force) {
+      const findings = RequirementManager.lint(project);
+      if (findings.length > 0) {
+        throw new DevelopmentFlowError(
+          `Requirements have ${findings.length} linter finding(s):\n${findings.map(finding => `- ${finding.message}`).join('\n')}`,
+          'REQUIREMENT_LINT_FAILED',
+          DevelopmentPhase.CONFIRMATION,
+          project.id,
+          { findings }
+        );
+      }
+    }
+
     if (!input.confirmed) {
+      const feedback = this.recordFeedback(project, phase, input);
+      project.updatedAt = formatTimestamp();
+      await this.saveProject(project);
+
+      logger.info(`User rejected ${phase}: ${project.name} (${feedback.length} feedback item(s))`);
+
       return {
         success: true,
-        message: 'User not confirmed, please modify and resubmit',
-        projectId: this.currentProject.id,
-        phase: this.currentProject.phase,
-        nextSteps: ['Modify current phase content and resubmit']
+        message: `User did not confirm ${phase}, please modify and resubmit`,
+        projectId: project.id,
+        phase: project.phase,
+        data: { feedback: this.getOpenFeedback(project, phase) },
+        nextSteps: [`Address the open feedback and resubmit (action: ${phase})`]
       };
     }
 
-    // Update confirmation status
-    this.currentProject.phase = DevelopmentPhase.CONFIRMATION;
-    this.currentProject.updatedAt = formatTimestamp();
-    await this.stateManager.saveProjectState(this.currentProject);
+    // Hand edits must become part of the project state before they can be approved
+    if (SYNC_DOCUMENTS.includes(phase as SyncDocumentName) && !input.force &&
+      await this.documentGenerator.hasUnsyncedEdits(project, phase as SyncDocumentName)) {
+      throw new DevelopmentFlowError(
+        `The ${phase} document was edited by hand. Sync the edits (action: sync) before confirming it, or use force: true to approve the document as it is.`,
+        'DOCUMENT_NOT_SYNCED',
+        DevelopmentPhase.CONFIRMATION,
+        project.id
+      );
+    }
+
+    // Record the approval against the exact document content that was reviewed
+    const document = await this.documentGenerator.readDocument(project, phase);
+    const timestamp = formatTimestamp();
+    const approval: PhaseApproval = {
+      phase,
+      approvedBy: InputValidator.normalizeText(input.approvedBy || 'user', 100),
+      approvedAt: timestamp,
+      ...(input.comment && { comment: InputValidator.normalizeText(input.comment, 1000) }),
+      documentHash: hashContent(document ?? '')
+    };
+    project.approvals = { ...project.approvals, [phase]: approval };
+    this.settleReviewedChanges(project, phase, timestamp);
+
+    // Update confirmation status, remembering which phase was confirmed;
+    // later phases that kept their approval need no second confirmation
+    project.confirmedPhase = PhaseStateMachine.getConfirmedPhase(project, phase);
+    project.phase = DevelopmentPhase.CONFIRMATION;
+    project.updatedAt = timestamp;
+    await this.saveProject(project);
 
-    logger.info(`User confirmation completed: ${this.currentProject.name}`);
+    logger.info(`User confirmation completed: ${project.name} (${phase} approved by ${approval.approvedBy})`);
 
     return {
       success: true,
-      message: 'User confirmation completed, can proceed to next phase',
-      projectId: this.currentProject.id,
+      message: `${phase} confirmed by ${approval.approvedBy}, can proceed to next phase`,
+      projectId: project.id,
       phase: DevelopmentPhase.CONFIRMATION,
-      nextSteps: ['Proceed with design phase (action: design)']
+      data: approval,
+      nextSteps: this.getResumeSteps(project)
     };
   }
 
+
+  /**
+   * Settles the requirement changes covered by an approval
+   *
+   * Approving the requirements makes them the baseline of future change
+   * requests and approves pending change requests. Approving the design or
+   * the task list clears the outdated marks of its sections or tasks, as
+   * the reviewer accepted them as they are.
+   *
+   * @param project - Project being approved
+   * @param phase - Approved phase
+   * @param timestamp - Approval time
+   */
+  private settleReviewedChanges(project: ProjectState, phase: DevelopmentPhase, timestamp: string): void {
+    switch (phase) {
+      case DevelopmentPhase.REQUIREMENT:
+        project.confirmedRequirements = [...(project.requirementItems || [])];
+        for (const change of project.changeRequests || []) {
+          if (change.status === 'pending') {
+            change.status = 'approved';
+            change.approvedAt = timestamp;
+          }
+        }
+        break;
+      case DevelopmentPhase.DESIGN:
+        delete project.staleDesignSections;
+        break;
+      case DevelopmentPhase.TODO:
+        for (const task of project.tasks || []) {
+          delete task.staleBy;
+        }
+        break;
+    }
+  }
+
   /**
    * Handles design and architecture planning phase
    * 
@@ -570,6 +1136,7 @@ export class DevelopmentFlowServer {
    * Generates design documents for technical review and implementation guidance.
    * 
    * @param input - Input containing design specifications
+   * @param session - Session context holding the active project
    * @returns Promise resolving to design phase result
    * @throws {DevelopmentFlowError} When no current project exists
    * 
@@ -583,50 +1150,58 @@ export class DevelopmentFlowServer {
    * });
    * ```
    */
-  private async handleDesign(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
-    }
+  private async handleDesign(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.DESIGN, input.force);
+    this.assertAddressableFeedback(project, DevelopmentPhase.DESIGN, input.addressedFeedback);
 
     // Update project state
-    this.currentProject.phase = DevelopmentPhase.DESIGN;
-    this.currentProject.updatedAt = formatTimestamp();
+    PhaseStateMachine.reopen(project, DevelopmentPhase.DESIGN, [DevelopmentPhase.TODO]);
+    project.updatedAt = formatTimestamp();
     
     if (input.architecture) {
-      this.currentProject.architecture = input.architecture;
+      project.architecture = input.architecture;
     }
     if (input.implementation) {
-      this.currentProject.implementation = input.implementation;
+      project.implementation = input.implementation;
     }
     if (input.systemDesign) {
-      this.currentProject.systemDesign = input.systemDesign;
+      project.systemDesign = input.systemDesign;
     }
     if (input.dataStructures) {
-      this.currentProject.dataStructures = input.dataStructures;
+      project.dataStructures = input.dataStructures;
     }
     if (input.interfaces) {
-      this.currentProject.interfaces = input.interfaces;
+      project.interfaces = input.interfaces;
     }
     if (input.deployment) {
-      this.currentProject.deployment = input.deployment;
+      project.deployment = input.deployment;
+    }
+    for (const section of Object.keys(project.staleDesignSections || {})) {
+      if (input[section as keyof DevelopmentFlowInput] !== undefined) {
+        delete project.staleDesignSections![section];
+      }
     }
-
-    // Save state
-    await this.stateManager.saveProjectState(this.currentProject);
 
     // Generate design document
-    const designDoc = await this.documentGenerator.generateDesignDocument(this.currentProject);
+    const designDoc = await this.documentGenerator.generateDesignDocument(project);
+    project.documents = { ...project.documents, design: designDoc.filePath };
+    const traceabilityDoc = await this.updateTraceability(project);
+    const revision = this.recordRevision(project, DevelopmentPhase.DESIGN, designDoc, input.addressedFeedback);
+
+    // Save state
+    await this.saveProject(project);
     
-    logger.info(`Design phase completed: ${this.currentProject.name}`);
+    logger.info(`Design phase completed: ${project.name}`);
 
-    return {
+    return this.withDocuments({
       success: true,
       message: 'Design phase completed',
-      projectId: this.currentProject.id,
+      projectId: project.id,
       phase: DevelopmentPhase.DESIGN,
-      nextSteps: ['Wait for user to confirm design (action: confirmation)', 'Generate task list (action: todo)'],
-      generatedFiles: [designDoc]
-    };
+      data: { revision },
+      nextSteps: ['Wait for user to confirm design (action: confirmation)']
+    }, [designDoc, traceabilityDoc]);
   }
 
   /**
@@ -636,9 +1211,14 @@ export class DevelopmentFlowServer {
    * Breaks down the project into manageable tasks with priorities, estimates,
    * and dependencies for efficient project execution.
    * 
+   * The given tasks are merged into the existing list by ID: known tasks are
+   * patched, new ones are added and unlisted tasks are kept, so a revision
+   * only needs to send what changed.
+   * 
    * @param input - Input for todo generation
-   * @returns Promise resolving to todo generation result
-   * @throws {DevelopmentFlowError} When no current project exists
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to todo generation result with the added and patched task IDs
+   * @throws {DevelopmentFlowError} When no current project exists, a task is invalid or the dependencies are invalid
    * 
    * @example
    * ```typescript
@@ -648,35 +1228,48 @@ export class DevelopmentFlowServer {
    * console.log(result.tasks); // Array of generated tasks
    * ```
    */
-  private async handleTodo(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
-    }
+  private async handleTodo(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.TODO, input.force);
+    this.assertAddressableFeedback(project, DevelopmentPhase.TODO, input.addressedFeedback);
 
     // Update project state
-    this.currentProject.phase = DevelopmentPhase.TODO;
-    this.currentProject.updatedAt = formatTimestamp();
+    PhaseStateMachine.reopen(project, DevelopmentPhase.TODO);
+    project.updatedAt = formatTimestamp();
     
+    let changes: { added: string[]; updated: string[] } = { added: [], updated: [] };
     if (input.tasks) {
-      this.currentProject.tasks = input.tasks;
-    }
+      const existing = project.tasks || [];
+      const taskErrors = InputValidator.validateTaskInputs(input.tasks, existing.map(task => task.id));
+      if (taskErrors.length > 0) {
+        throw ErrorFormatter.validationError(taskErrors, DevelopmentPhase.TODO);
+      }
 
-    // Save state
-    await this.stateManager.saveProjectState(this.currentProject);
+      const merged = TaskManager.mergeTasks(existing, input.tasks);
+      this.assertValidTaskGraph(project, merged.tasks, DevelopmentPhase.TODO);
+      project.tasks = merged.tasks;
+      changes = { added: merged.added, updated: merged.updated };
+    }
 
     // Generate task document
-    const todoDoc = await this.documentGenerator.generateTodoDocument(this.currentProject);
+    const todoDoc = await this.documentGenerator.generateTodoDocument(project);
+    project.documents = { ...project.documents, todo: todoDoc.filePath };
+    const traceabilityDoc = await this.updateTraceability(project);
+    const revision = this.recordRevision(project, DevelopmentPhase.TODO, todoDoc, input.addressedFeedback);
+
+    // Save state
+    await this.saveProject(project);
     
-    logger.info(`Task list generation completed: ${this.currentProject.name}`);
+    logger.info(`Task list generation completed: ${project.name}`);
 
-    return {
+    return this.withDocuments({
       success: true,
       message: 'Task list generation completed',
-      projectId: this.currentProject.id,
+      projectId: project.id,
       phase: DevelopmentPhase.TODO,
-      nextSteps: ['Wait for user to confirm task list (action: confirmation)', 'Start executing tasks (action: task_complete)'],
-      generatedFiles: [todoDoc]
-    };
+      data: { revision, ...changes },
+      nextSteps: ['Wait for user to confirm task list (action: confirmation)']
+    }, [todoDoc, traceabilityDoc]);
   }
 
   /**
@@ -687,6 +1280,7 @@ export class DevelopmentFlowServer {
    * status reporting for project monitoring and management.
    * 
    * @param input - Input for status query
+   * @param session - Session context holding the active project
    * @returns Promise resolving to current project status
    * @throws {DevelopmentFlowError} When no current project exists
    * 
@@ -696,49 +1290,66 @@ export class DevelopmentFlowServer {
    *   action: DevelopmentPhase.STATUS
    * });
    * console.log(result.currentPhase); // Current development phase
-   * console.log(result.completedTasks); // Number of completed tasks
+   * console.log(result.data.blockedTasks); // Blocked tasks with their reasons
    * ```
    */
-  private async handleStatus(_input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
-    }
-
-    const tasks = this.currentProject.tasks || [];
-    const completedTaskIds = this.currentProject.completedTasks || [];
-    const pendingTasks = tasks.filter(task => !completedTaskIds.includes(task.id));
-    const completedTasks = tasks.filter(task => completedTaskIds.includes(task.id));
+  private async handleStatus(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+
+    const tasks = project.tasks || [];
+    const stats = TaskManager.getStats(tasks);
+    const withStatus = (status: TaskStatus) => tasks.filter(task => TaskManager.getStatus(task) === status);
+    const summarize = (task: Task) => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      ...(task.assignee && { assignee: task.assignee })
+    });
 
     const statusInfo = {
-      projectId: this.currentProject.id,
-      projectName: this.currentProject.name,
-      currentPhase: this.currentProject.phase,
-      totalTasks: tasks.length,
-      completedTasksCount: completedTasks.length,
-      pendingTasksCount: pendingTasks.length,
-      completionRate: tasks.length > 0 ? Math.round((completedTasks.length / tasks.length) * 100) : 0,
-      pendingTasks: pendingTasks.map(task => ({
+      projectId: project.id,
+      projectName: project.name,
+      currentPhase: project.phase,
+      allowedActions: PhaseStateMachine.getAllowedActions(project),
+      approvals: project.approvals || {},
+      openFeedback: this.getOpenFeedback(project),
+      totalTasks: stats.total,
+      completedTasksCount: stats.completed,
+      pendingTasksCount: stats.pending,
+      inProgressTasksCount: stats.inProgress,
+      blockedTasksCount: stats.blocked,
+      completionRate: stats.completionRate,
+      pendingTasks: withStatus('pending').map(summarize),
+      inProgressTasks: withStatus('in_progress').map(task => ({
+        ...summarize(task),
+        ...(task.startedAt && { startedAt: task.startedAt })
+      })),
+      blockedTasks: withStatus('blocked').map(task => ({
+        ...summarize(task),
+        ...(task.blockedReason && { blockedReason: task.blockedReason })
+      })),
+      completedTasks: withStatus('completed').map(task => ({
         id: task.id,
         title: task.title,
         description: task.description,
-        priority: task.priority
+        ...(task.completedAt && { completedAt: task.completedAt })
       })),
-      completedTasks: completedTasks.map(task => ({
-        id: task.id,
-        title: task.title,
-        description: task.description
-      }))
+      taskTree: this.summarizeTaskTree(TaskManager.getTaskTree(tasks)),
+      timeReport: TaskManager.getTimeReport(tasks),
+      traceability: RequirementManager.getTraceability(project),
+      changeRequests: project.changeRequests || [],
+      staleDesignSections: Object.keys(project.staleDesignSections || {}),
+      staleTasks: tasks.filter(task => task.staleBy).map(task => ({ id: task.id, title: task.title, staleBy: task.staleBy }))
     };
 
     return {
       success: true,
-      message: `Project "${this.currentProject.name}" status information`,
-      projectId: this.currentProject.id,
+      message: `Project "${project.name}" status information`,
+      projectId: project.id,
       phase: DevelopmentPhase.STATUS,
       data: statusInfo,
-      nextSteps: pendingTasks.length > 0 
-        ? ['Complete remaining tasks (action: task_complete)', 'View task details']
-        : ['All tasks completed, can finish project (action: finish)']
+      nextSteps: this.getTaskNextSteps(project)
     };
   }
 
@@ -746,144 +1357,1334 @@ export class DevelopmentFlowServer {
    * Handles task completion marking
    * 
    * Marks a specific task as completed and updates project progress.
-   * Validates task existence and updates the project state with
-   * completion timestamp and any additional notes.
+   * Completing an already completed task is a no-op; blocked tasks must be
+   * started or reopened first.
    * 
-   * @param input - Input containing task ID and completion details
+   * @param input - Input containing the task ID
+   * @param session - Session context holding the active project
    * @returns Promise resolving to task completion result
-   * @throws {DevelopmentFlowError} When no current project exists or task ID is invalid
+   * @throws {DevelopmentFlowError} When no current project exists, the task ID is invalid or the task is blocked
    * 
    * @example
    * ```typescript
    * const result = await handleTaskComplete({
    *   action: DevelopmentPhase.TASK_COMPLETE,
-   *   taskId: 'task_001',
-   *   notes: 'Implemented user authentication with JWT'
+   *   taskId: 'task_001'
    * });
    * ```
    */
-  private async handleTaskComplete(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
-    }
+  private async handleTaskComplete(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    return this.handleTaskLifecycle(input, session, DevelopmentPhase.TASK_COMPLETE);
+  }
 
-    // Validate task ID
-    const taskIdErrors = InputValidator.validateTaskId(input.taskId || '');
-    if (taskIdErrors.length > 0) {
-      throw ErrorFormatter.validationError(taskIdErrors, DevelopmentPhase.TASK_COMPLETE);
+  /**
+   * Handles task status changes
+   * 
+   * Applies a task lifecycle action (task_start, task_block, task_reopen or
+   * task_complete) to a single task through the {@link TaskManager}, then
+   * regenerates the task document so its checkboxes reflect the new status.
+   * 
+   * @param input - Input containing the task ID and, for task_block, the reason
+   * @param session - Session context holding the active project
+   * @param action - Status action to apply
+   * @returns Promise resolving to the changed task, its previous status and the task counts
+   * @throws {DevelopmentFlowError} When the task does not exist or the action is not allowed in its status
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleTaskLifecycle({
+   *   action: TaskAction.BLOCK,
+   *   taskId: 'task_002',
+   *   reason: 'Waiting for API credentials'
+   * }, session, TaskAction.BLOCK);
+   * ```
+   */
+  private async handleTaskLifecycle(
+    input: DevelopmentFlowInput,
+    session: SessionContext,
+    action: TaskStatusAction
+  ): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.TASK_COMPLETE, input.force);
+
+    const taskId = this.getTaskId(input);
+    const reason = InputValidator.normalizeText(input.reason || '', 500);
+    if (action === TaskAction.BLOCK && !reason) {
+      throw ErrorFormatter.validationError(['reason is required when blocking a task'], DevelopmentPhase.TASK_COMPLETE);
     }
 
-    const sanitizedTaskId = InputValidator.sanitizeText(input.taskId!, 50);
-
-    // Verify task exists in project
-    if (this.currentProject.tasks) {
-      const taskExists = this.currentProject.tasks.some(task => task.id === sanitizedTaskId);
-      if (!taskExists) {
-        throw new DevelopmentFlowError(
-          `Task ID '${sanitizedTaskId}' does not exist in project`,
-          'TASK_NOT_FOUND',
-          DevelopmentPhase.TASK_COMPLETE,
-          this.currentProject.id
-        );
+    const task = TaskManager.getTask(project, taskId);
+    if (action === DevelopmentPhase.TASK_COMPLETE && !TaskManager.isCompleted(task)) {
+      if (input.force) {
+        const open = [
+          ...TaskManager.getOpenSubtasks(project.tasks || [], task),
+          ...TaskManager.getOpenDependencies(project.tasks || [], task)
+        ];
+        if (open.length > 0) {
+          logger.warn(`Forced completion of task ${taskId} with open subtasks or dependencies: ${open.join(', ')}`, project.id);
+        }
+      } else {
+        TaskManager.assertDependenciesMet(project, task);
       }
     }
+    const previousStatus = TaskManager.applyAction(task, action, reason);
+    const autoCompleted = action === DevelopmentPhase.TASK_COMPLETE && this.config.autoCompleteParentTasks
+      ? TaskManager.completeParents(project.tasks || [], task)
+      : [];
+
+    project.phase = DevelopmentPhase.TASK_COMPLETE;
+    project.updatedAt = formatTimestamp();
+
+    // Regenerate task document with the new status and save state
+    const todoDoc = await this.saveTaskChanges(project);
+
+    const verbs: Record<TaskStatusAction, string> = {
+      [TaskAction.START]: 'started',
+      [TaskAction.BLOCK]: 'blocked',
+      [TaskAction.REOPEN]: 'reopened',
+      [DevelopmentPhase.TASK_COMPLETE]: 'completed'
+    };
 
-    // Update task status
-    if (!this.currentProject.completedTasks) {
-      this.currentProject.completedTasks = [];
-    }
-    
-    if (!this.currentProject.completedTasks.includes(sanitizedTaskId)) {
-      this.currentProject.completedTasks.push(sanitizedTaskId);
-    }
-
-    this.currentProject.phase = DevelopmentPhase.TASK_COMPLETE;
-    this.currentProject.updatedAt = formatTimestamp();
-
-    // Save state
-    await this.stateManager.saveProjectState(this.currentProject);
-    
-    logger.info(`Task completed: ${sanitizedTaskId}`);
-
-    return {
+    return this.withDocuments({
       success: true,
-      message: `Task ${sanitizedTaskId} completed`,
-      projectId: this.currentProject.id,
+      message: `Task ${taskId} ${verbs[action]}` +
+        (autoCompleted.length > 0 ? `; parent task(s) ${autoCompleted.join(', ')} completed automatically` : ''),
+      projectId: project.id,
       phase: DevelopmentPhase.TASK_COMPLETE,
-      nextSteps: ['Continue executing other tasks or complete project (action: finish)']
-    };
+      data: {
+        task,
+        previousStatus,
+        ...(autoCompleted.length > 0 && { autoCompleted }),
+        stats: TaskManager.getStats(project.tasks || [])
+      },
+      nextSteps: this.getTaskNextSteps(project)
+    }, [todoDoc]);
   }
 
   /**
-   * Handles project completion and finalization
+   * Handles task detail edits
    * 
-   * Finalizes the current project by marking it as completed,
-   * generating final reports, and cleaning up temporary resources.
-   * This is the final phase of the development workflow.
+   * Updates the title, description, priority, estimate, assignee,
+   * dependencies, parent or requirement references of a single task without
+   * changing its status or the project phase. An empty assignee unassigns
+   * the task.
    * 
-   * @param input - Input for project finalization
-   * @returns Promise resolving to project completion result
-   * @throws {DevelopmentFlowError} When no current project exists
+   * @param input - Input containing the task ID and the fields to change
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the updated task and the changed field names
+   * @throws {DevelopmentFlowError} When the task does not exist, a field value is invalid or the dependencies form a cycle
    * 
    * @example
    * ```typescript
-   * const result = await handleFinish({
-   *   action: DevelopmentPhase.FINISH,
-   *   summary: 'Project completed successfully with all requirements met'
-   * });
+   * const result = await handleTaskUpdate({
+   *   action: TaskAction.UPDATE,
+   *   taskId: 'task_002',
+   *   priority: 'high',
+   *   assignee: 'alice'
+   * }, session);
    * ```
    */
-  private async handleFinish(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
-    if (!this.currentProject) {
-      throw new DevelopmentFlowError('Please initialize project first', 'NO_CURRENT_PROJECT');
-    }
+  private async handleTaskUpdate(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    this.assertTaskEdit(project, input.force);
 
-    // Check if all tasks are completed (unless using force parameter)
-    if (!input.force && this.currentProject.tasks && this.currentProject.tasks.length > 0) {
-      const completedTaskIds = this.currentProject.completedTasks || [];
-      const allTaskIds = this.currentProject.tasks.map(task => task.id);
-      const uncompletedTasks = allTaskIds.filter(taskId => !completedTaskIds.includes(taskId));
-      
-      if (uncompletedTasks.length > 0) {
-        const pendingTaskDetails = this.currentProject.tasks
-          .filter(task => uncompletedTasks.includes(task.id))
-          .map(task => `- ${task.id}: ${task.title}`)
-          .join('\n');
-        
-        throw new DevelopmentFlowError(
-          `Please complete all tasks first. Remaining incomplete tasks:\n${pendingTaskDetails}\n\nSolutions:\n1. Use action: "task_complete" to complete tasks one by one\n2. Use action: "status" to view detailed status\n3. Use force: true to force complete project`,
-          'INCOMPLETE_TASKS'
-        );
-      }
+    const taskId = this.getTaskId(input);
+    const errors = InputValidator.validateTaskFields(input, false);
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors, DevelopmentPhase.TASK_COMPLETE);
     }
 
-    // Update project state
-    this.currentProject.phase = DevelopmentPhase.FINISH;
-    this.currentProject.updatedAt = formatTimestamp();
+    const task = TaskManager.getTask(project, taskId);
+    const updatedFields = TaskManager.updateTask(task, input);
+    this.assertValidTaskGraph(project, project.tasks || [], DevelopmentPhase.TASK_COMPLETE);
+    project.updatedAt = task.updatedAt;
 
-    // Save state
-    await this.stateManager.saveProjectState(this.currentProject);
+    const todoDoc = await this.saveTaskChanges(project);
 
-    // Generate completion report
-    const doneDoc = await this.documentGenerator.generateDoneDocument(this.currentProject);
-    
-    logger.info(`Project completed: ${this.currentProject.name}`);
+    logger.info(`Task updated: ${taskId} (${updatedFields.join(', ')})`);
 
-    const result = {
+    return this.withDocuments({
       success: true,
-      message: `Project "${this.currentProject.name}" completed`,
-      projectId: this.currentProject.id,
+      message: `Task ${taskId} updated`,
+      projectId: project.id,
+      phase: project.phase,
+      data: { task, updatedFields },
+      nextSteps: this.getTaskNextSteps(project)
+    }, [todoDoc]);
+  }
+
+  /**
+   * Handles adding a single task
+   * 
+   * Creates a pending task with a server-generated ID and timestamps from the
+   * title, description, priority, estimate, assignee and dependencies of the
+   * input, leaving all other tasks untouched.
+   * 
+   * @param input - Input containing the task fields; title is required
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the new task
+   * @throws {DevelopmentFlowError} When a field value is invalid or a dependency does not exist
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleTaskAdd({
+   *   action: TaskAction.ADD,
+   *   title: 'Write migration guide',
+   *   dependencies: ['task_002']
+   * }, session);
+   * console.log(result.data.task.id); // 'task_004'
+   * ```
+   */
+  private async handleTaskAdd(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    this.assertTaskEdit(project, input.force);
+
+    const errors = InputValidator.validateTaskFields(input, true);
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors, DevelopmentPhase.TASK_COMPLETE);
+    }
+
+    const tasks = project.tasks || [];
+    const task = TaskManager.createTask(input, TaskManager.generateTaskId(tasks));
+    project.tasks = [...tasks, task];
+    this.assertValidTaskGraph(project, project.tasks, DevelopmentPhase.TASK_COMPLETE);
+    project.updatedAt = task.createdAt;
+
+    const todoDoc = await this.saveTaskChanges(project);
+
+    logger.info(`Task added: ${task.id}`);
+
+    return this.withDocuments({
+      success: true,
+      message: `Task ${task.id} added`,
+      projectId: project.id,
+      phase: project.phase,
+      data: { task, stats: TaskManager.getStats(project.tasks) },
+      nextSteps: this.getTaskNextSteps(project)
+    }, [todoDoc]);
+  }
+
+  /**
+   * Handles removing a single task
+   * 
+   * Tasks other tasks depend on are only removed with `force`, which also
+   * drops the dependency from the dependent tasks.
+   * 
+   * @param input - Input containing the task ID
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the removed task and its former dependents
+   * @throws {DevelopmentFlowError} When the task does not exist or other tasks depend on it
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleTaskRemove({
+   *   action: TaskAction.REMOVE,
+   *   taskId: 'task_003'
+   * }, session);
+   * ```
+   */
+  private async handleTaskRemove(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    this.assertTaskEdit(project, input.force);
+
+    const taskId = this.getTaskId(input);
+    const { task, dependents, subtasks } = TaskManager.removeTask(project, taskId, input.force);
+    project.updatedAt = formatTimestamp();
+
+    const todoDoc = await this.saveTaskChanges(project);
+
+    return this.withDocuments({
+      success: true,
+      message: `Task ${taskId} removed`,
+      projectId: project.id,
+      phase: project.phase,
+      data: { task, dependents, subtasks, stats: TaskManager.getStats(project.tasks || []) },
+      nextSteps: this.getTaskNextSteps(project)
+    }, [todoDoc]);
+  }
+
+  /**
+   * Handles manual time logging
+   * 
+   * Records work done on a task outside of its timer, for example work done
+   * before the task was started. The status and the project phase are not
+   * changed; `actualHours` becomes the sum of all finished time entries.
+   * 
+   * @param input - Input containing the task ID, the hours worked and an optional note
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the task, the new time entry and the actual hours
+   * @throws {DevelopmentFlowError} When the task does not exist or the hours are invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleTaskLog({
+   *   action: TaskAction.LOG,
+   *   taskId: 'task_002',
+   *   hours: 1.5,
+   *   note: 'Code review'
+   * }, session);
+   * ```
+   */
+  private async handleTaskLog(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.TASK_COMPLETE, input.force);
+
+    const taskId = this.getTaskId(input);
+    const errors = InputValidator.validateTimeLog(input);
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors, DevelopmentPhase.TASK_COMPLETE);
+    }
+
+    const task = TaskManager.getTask(project, taskId);
+    TaskManager.logTime(task, input.hours!, input.note?.trim() || undefined);
+    project.updatedAt = task.updatedAt;
+
+    const todoDoc = await this.saveTaskChanges(project);
+
+    logger.info(`Time logged: ${taskId} (${input.hours}h)`);
+
+    return this.withDocuments({
+      success: true,
+      message: `Logged ${input.hours}h on task ${taskId} (${task.actualHours}h in total)`,
+      projectId: project.id,
+      phase: project.phase,
+      data: { task, entry: task.timeEntries![task.timeEntries!.length - 1], actualHours: task.actualHours },
+      nextSteps: this.getTaskNextSteps(project)
+    }, [todoDoc]);
+  }
+
+  /**
+   * Handles queries for the tasks to work on next
+   * 
+   * Returns the pending and in-progress tasks whose dependencies are all
+   * completed, ordered by priority and then topologically, along with the
+   * tasks still waiting for dependencies. Read-only and allowed in every phase.
+   * 
+   * @param input - Input optionally containing the project ID
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the ready and waiting tasks
+   * @throws {DevelopmentFlowError} When no current project exists
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleNext({ action: TaskAction.NEXT }, session);
+   * console.log(result.data.tasks[0].id); // Task to start next
+   * ```
+   */
+  private async handleNext(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+
+    const tasks = project.tasks || [];
+    const next = TaskManager.getNextTasks(tasks);
+    const waiting = TaskManager.getTopologicalOrder(tasks)
+      .filter(task => ['pending', 'in_progress'].includes(TaskManager.getStatus(task)))
+      .map(task => ({ id: task.id, title: task.title, openDependencies: TaskManager.getOpenDependencies(tasks, task) }))
+      .filter(task => task.openDependencies.length > 0);
+
+    return {
+      success: true,
+      message: next.length > 0 ? `${next.length} task(s) ready to work on` : 'No tasks are ready to work on',
+      projectId: project.id,
+      phase: project.phase,
+      data: {
+        tasks: next.map(task => ({
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+          status: TaskManager.getStatus(task),
+          ...(task.assignee && { assignee: task.assignee })
+        })),
+        waiting,
+        stats: TaskManager.getStats(tasks)
+      },
+      nextSteps: this.getTaskNextSteps(project)
+    };
+  }
+
+  /**
+   * Handles project completion and finalization
+   * 
+   * Finalizes the current project by marking it as completed,
+   * generating final reports, and cleaning up temporary resources.
+   * This is the final phase of the development workflow. Requirements
+   * that no task implements are reported as a warning.
+   * 
+   * @param input - Input for project finalization
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to project completion result
+   * @throws {DevelopmentFlowError} When no current project exists
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleFinish({
+   *   action: DevelopmentPhase.FINISH,
+   *   summary: 'Project completed successfully with all requirements met'
+   * });
+   * ```
+   */
+  private async handleFinish(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.FINISH, input.force);
+
+    // Check if all tasks are completed (unless using force parameter)
+    if (!input.force && project.tasks && project.tasks.length > 0) {
+      const uncompletedTasks = project.tasks.filter(task => !TaskManager.isCompleted(task));
+      
+      if (uncompletedTasks.length > 0) {
+        const pendingTaskDetails = uncompletedTasks
+          .map(task => `- ${task.id}: ${task.title} (${TaskManager.getStatus(task)})`)
+          .join('\n');
+        
+        throw new DevelopmentFlowError(
+          `Please complete all tasks first. Remaining incomplete tasks:\n${pendingTaskDetails}\n\nSolutions:\n1. Use action: "task_complete" to complete tasks one by one\n2. Use action: "status" to view detailed status\n3. Use force: true to force complete project`,
+          'INCOMPLETE_TASKS'
+        );
+      }
+    }
+
+    // Requirements without tasks do not block completion but are reported
+    const unplanned = RequirementManager.getUnplanned(project).map(item => item.id);
+    if (unplanned.length > 0) {
+      logger.warn(`Project ${project.name} finished with unimplemented requirements: ${unplanned.join(', ')}`, project.id);
+    }
+
+    // Update project state
+    project.phase = DevelopmentPhase.FINISH;
+    project.updatedAt = formatTimestamp();
+
+    // Generate completion report
+    const doneDoc = await this.documentGenerator.generateDoneDocument(project);
+    project.documents = { ...project.documents, done: doneDoc };
+    const traceabilityDoc = await this.updateTraceability(project);
+
+    // Save state
+    await this.saveProject(project);
+    
+    logger.info(`Project completed: ${project.name}`);
+
+    const result = {
+      success: true,
+      message: unplanned.length > 0
+        ? `Project "${project.name}" completed. Warning: no task implements ${unplanned.join(', ')}`
+        : `Project "${project.name}" completed`,
+      projectId: project.id,
       phase: DevelopmentPhase.FINISH,
+      data: { unplannedRequirements: unplanned },
       nextSteps: ['Project completed'],
-      generatedFiles: [doneDoc]
+      generatedFiles: [doneDoc, ...(traceabilityDoc ? [traceabilityDoc] : [])]
     };
 
-    // Clean up current project
-    this.currentProject = null;
+    // Clean up current project of this session only
+    if (session.currentProject?.id === project.id) {
+      session.currentProject = null;
+    }
 
     return result;
   }
 
+  /**
+   * Handles listing of stored projects
+   * 
+   * Returns a summary of every stored project, optionally filtered by phase,
+   * project name and last update date.
+   * 
+   * @param input - Input containing optional filters
+   * @returns Promise resolving to the list of matching projects
+   * @throws {DevelopmentFlowError} When a filter value is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleList({
+   *   action: FlowAction.LIST,
+   *   phase: 'design',
+   *   updatedAfter: '2024-01-01'
+   * });
+   * ```
+   */
+  private async handleList(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
+    const projects = await this.stateManager.queryProjects(this.buildProjectQuery(input));
+
+    return {
+      success: true,
+      message: `Found ${projects.length} project(s)`,
+      data: projects.map(project => this.summarizeProject(project)),
+      nextSteps: projects.length > 0
+        ? ['Resume a project (action: resume, projectId)']
+        : ['Create a new project (action: init)']
+    };
+  }
+
+  /**
+   * Handles full-text project search
+   * 
+   * Searches project names, descriptions, requirements, design sections and
+   * tasks for the query text. The list filters can be combined with the query.
+   * 
+   * @param input - Input containing the query text and optional filters
+   * @returns Promise resolving to the matching projects
+   * @throws {DevelopmentFlowError} When the query is missing or a filter value is invalid
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleSearch({
+   *   action: FlowAction.SEARCH,
+   *   query: 'authentication'
+   * });
+   * ```
+   */
+  private async handleSearch(input: DevelopmentFlowInput): Promise<DevelopmentFlowResult> {
+    if (!input.query || input.query.trim().length === 0) {
+      throw ErrorFormatter.validationError(['query is required']);
+    }
+
+    const projects = await this.stateManager.queryProjects({
+      ...this.buildProjectQuery(input),
+      text: input.query.trim()
+    });
+
+    return {
+      success: true,
+      message: `Found ${projects.length} project(s) matching "${input.query.trim()}"`,
+      data: projects.map(project => this.summarizeProject(project)),
+      nextSteps: projects.length > 0
+        ? ['Resume a project (action: resume, projectId)']
+        : ['Refine the search query or list all projects (action: list)']
+    };
+  }
+
+  /**
+   * Handles project statistics queries
+   * 
+   * @returns Promise resolving to total project count, counts by phase and recently updated projects
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleStats();
+   * console.log(result.data.byPhase);
+   * ```
+   */
+  private async handleStats(): Promise<DevelopmentFlowResult> {
+    await this.stateManager.ensureInitialized();
+    const stats = await this.stateManager.getProjectStats();
+
+    return {
+      success: true,
+      message: `${stats.total} project(s) stored`,
+      data: {
+        total: stats.total,
+        byPhase: stats.byPhase,
+        recent: stats.recent.map(project => this.summarizeProject(project))
+      }
+    };
+  }
+
+  /**
+   * Handles listing and checking of document templates
+   * 
+   * Lists the built-in templates, the templates found in the configured
+   * templates directory and, when a project is selected, the overrides in
+   * the project's `templates` folder, each with its validation errors.
+   * 
+   * @param input - Input with optional project ID
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the templates and the searched directories
+   * @throws {DevelopmentFlowError} When the given project doesn't exist
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleTemplates({ action: FlowAction.TEMPLATES }, session);
+   * console.log(result.data.templates);
+   * ```
+   */
+  private async handleTemplates(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = input.projectId || session.currentProject ? await this.resolveProject(input, session) : null;
+    const templates = await this.documentGenerator.listTemplates(project);
+    const invalid = templates.filter(template => template.errors.length > 0);
+
+    return {
+      success: true,
+      message: `${templates.length} template(s) available, ${invalid.length} with errors`,
+      ...(project && { projectId: project.id }),
+      data: {
+        directories: this.documentGenerator.getTemplateDirectories(project),
+        templates
+      },
+      nextSteps: invalid.length > 0
+        ? invalid.map(template => `Fix template '${template.name}' (${template.file}): ${template.errors.join('; ')}`)
+        : []
+    };
+  }
+
+  /**
+   * Handles importing hand edits of the generated documents
+   *
+   * Reads the requirement, design and task documents back and merges each
+   * edited field with the project state: requirement lists and user stories,
+   * design sections, and task titles, descriptions, priorities and
+   * checkboxes. Task lines added or re-IDed by hand are rejected, as tasks
+   * are added through the todo action. A field changed both in the
+   * document and in the project state since the document was generated is
+   * reported as a conflict and neither side is changed; the document then
+   * keeps its edits until the conflicts are resolved. Documents without
+   * conflicts are regenerated from the updated state. Changes to confirmed
+   * requirements are recorded as a change request.
+   *
+   * @param input - Input with an optional change request `reason` and `requestedBy`, and `force` to tick tasks outside task execution
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the sync report
+   * @throws {DevelopmentFlowError} When no current project exists
+   *
+   * @example
+   * ```typescript
+   * // After a reviewer ticked task_001 in todo.md
+   * const result = await handleSync({ action: FlowAction.SYNC });
+   * console.log(result.data.imported); // [{ document: 'todo', field: 'task_001.checked', value: 'true' }]
+   * ```
+   */
+  private async handleSync(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    const project = await this.resolveProject(input, session);
+    const report: SyncReport = { imported: [], conflicts: [], rejected: [] };
+    const baseline = project.confirmedRequirements ?? [...(project.requirementItems || [])];
+    const edited: SyncDocumentName[] = [];
+
+    for (const name of SYNC_DOCUMENTS) {
+      const content = await this.documentGenerator.readDocument(project, name);
+      const base = project.documentSync?.[name];
+      if (content === null || (base && hashContent(content) === base.hash)) {
+        continue;
+      }
+
+      // Without a recorded base, every difference counts as a document edit
+      const state = DocumentSync.parse(name, await this.documentGenerator.renderDocument(project, name));
+      const fields = DocumentSync.parse(name, content);
+      const { changes, conflicts } = DocumentSync.merge(base?.fields ?? state, fields, state);
+      report.conflicts.push(...conflicts.map(conflict => ({ document: name, ...conflict })));
+      if (conflicts.length === 0) {
+        edited.push(name);
+      }
+
+      switch (name) {
+        case 'requirement':
+          this.applyRequirementSync(project, changes, report);
+          break;
+        case 'design':
+          this.applyDesignSync(project, changes, report);
+          break;
+        case 'todo':
+          this.applyTodoSync(project, changes, report, input.force);
+          for (const [taskId, title] of DocumentSync.findUnknownTasks(base?.fields ?? state, fields, state)) {
+            report.rejected.push({
+              document: 'todo',
+              field: `${taskId}.title`,
+              value: title,
+              reason: `Task ${taskId} is not in the task list; add new tasks through the todo action (action: todo)`
+            });
+          }
+          break;
+      }
+    }
+
+    if (edited.length === 0 && report.conflicts.length === 0) {
+      return {
+        success: true,
+        message: 'Documents are in sync with the project state',
+        projectId: project.id,
+        phase: project.phase,
+        data: report,
+        nextSteps: this.getResumeSteps(project)
+      };
+    }
+
+    let change: ChangeRequest | undefined;
+    if (report.imported.some(item => item.document === 'requirement')) {
+      RequirementManager.assignIds(project);
+      const pendingChange = project.changeRequests?.find(item => item.status === 'pending');
+      if (project.approvals?.[DevelopmentPhase.REQUIREMENT]) {
+        change = this.recordChangeRequest(project, input.reason || 'Edited in the requirement document', input.requestedBy, baseline);
+      } else if (pendingChange) {
+        this.refreshChangeRequest(project, pendingChange, project.confirmedRequirements || []);
+      }
+    }
+
+    // Edited documents without conflicts are regenerated from the merged state
+    for (const name of edited) {
+      delete project.documentSync?.[name];
+    }
+    project.updatedAt = formatTimestamp();
+    const { documents } = await this.regenerateChangedDocuments(project);
+    await this.saveProject(project);
+
+    logger.info(
+      `Documents synced: ${project.name} (${report.imported.length} imported, ${report.conflicts.length} conflict(s), ${report.rejected.length} rejected)`,
+      project.id
+    );
+
+    const nextSteps: string[] = [];
+    if (report.conflicts.length > 0) {
+      nextSteps.push('Resolve the conflicts by setting each field to one value in the document or the project state, then sync again (action: sync)');
+    }
+    if (report.rejected.length > 0) {
+      nextSteps.push(`Review the ${report.rejected.length} rejected edit(s); documents without conflicts were regenerated from the project state`);
+    }
+    if (change) {
+      nextSteps.push(`Requirement edits were recorded as change request ${change.id}; wait for user to confirm the changed requirements (action: confirmation)`);
+    }
+
+    return this.withDocuments({
+      success: true,
+      message: report.conflicts.length > 0
+        ? `Synced ${report.imported.length} change(s), ${report.conflicts.length} conflict(s) need to be resolved`
+        : `Synced ${report.imported.length} change(s) from the documents`,
+      projectId: project.id,
+      phase: project.phase,
+      data: { ...report, ...(change && { changeRequest: change }) },
+      nextSteps: nextSteps.length > 0 ? nextSteps : this.getResumeSteps(project)
+    }, documents);
+  }
+
+  /**
+   * Handles switching to or resuming a stored project
+   * 
+   * Loads the project and makes it the current project of the session, so
+   * in-flight work can be continued after a server restart or from another
+   * client. The result reports where the workflow stopped.
+   * 
+   * @param input - Input containing the project ID
+   * @param session - Session context holding the active project
+   * @returns Promise resolving to the project summary and suggested next steps
+   * @throws {DevelopmentFlowError} When the project ID is missing or the project doesn't exist
+   * 
+   * @example
+   * ```typescript
+   * const result = await handleSwitch({
+   *   action: FlowAction.RESUME,
+   *   projectId: 'proj_1703462400000_a1b2c3'
+   * }, session);
+   * ```
+   */
+  private async handleSwitch(input: DevelopmentFlowInput, session: SessionContext): Promise<DevelopmentFlowResult> {
+    if (!input.projectId) {
+      throw ErrorFormatter.validationError(['projectId is required']);
+    }
+
+    const project = await this.resolveProject(input, session);
+    session.currentProject = project;
+
+    logger.info(`Session ${session.id} switched to project: ${project.name} (${project.id})`);
+
+    return {
+      success: true,
+      message: `Switched to project "${project.name}"`,
+      projectId: project.id,
+      phase: project.phase,
+      data: this.summarizeProject(project),
+      nextSteps: this.getResumeSteps(project)
+    };
+  }
+
+  /**
+   * Stores reviewer feedback of a rejected confirmation
+   * 
+   * @param project - Project being reviewed
+   * @param phase - Rejected phase
+   * @param input - Confirmation input containing feedback items and reviewer
+   * @returns Newly created feedback items
+   * @throws {DevelopmentFlowError} When a feedback item has no text
+   */
+  private recordFeedback(project: ProjectState, phase: DevelopmentPhase, input: DevelopmentFlowInput): ReviewFeedback[] {
+    const items = input.feedback || [];
+    const errors = items
+      .map((item, index) => (!item || typeof item.text !== 'string' || item.text.trim().length === 0)
+        ? `feedback[${index}].text cannot be empty`
+        : null)
+      .filter((error): error is string => error !== null);
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors, DevelopmentPhase.CONFIRMATION);
+    }
+
+    const existing = project.feedback?.[phase] || [];
+    const reviewer = InputValidator.normalizeText(input.approvedBy || 'user', 100);
+    const timestamp = formatTimestamp();
+    const created: ReviewFeedback[] = items.map((item, index) => ({
+      id: `${phase}_fb_${existing.length + index + 1}`,
+      phase,
+      text: InputValidator.normalizeText(item.text, 1000),
+      ...(item.section && { section: InputValidator.normalizeText(item.section, 200) }),
+      reviewer,
+      createdAt: timestamp,
+      status: 'open'
+    }));
+
+    project.feedback = { ...project.feedback, [phase]: [...existing, ...created] };
+    return created;
+  }
+
+  /**
+   * Saves a project state and writes the documents generated for it
+   * 
+   * Documents are only written once the state is saved, so that an action
+   * failing before or while saving, e.g. with STALE_STATE, leaves the
+   * documents on disk unchanged.
+   * 
+   * @param project - Project state to save
+   * @throws {DevelopmentFlowError} When the project state cannot be saved
+   */
+  private async saveProject(project: ProjectState): Promise<void> {
+    await this.stateManager.saveProjectState(project);
+    await this.documentGenerator.writePendingDocuments(project);
+  }
+
+  /**
+   * Verifies that the feedback items a revision addresses are open
+   * 
+   * Called before the revision changes the project or generates a
+   * document, so that a rejected revision writes nothing.
+   * 
+   * @param project - Project being revised
+   * @param phase - Revised phase
+   * @param addressedIds - Optional IDs of the feedback items addressed
+   * @throws {DevelopmentFlowError} When an addressed feedback ID is unknown or already addressed
+   */
+  private assertAddressableFeedback(project: ProjectState, phase: DevelopmentPhase, addressedIds?: string[]): void {
+    const open = this.getOpenFeedback(project, phase);
+    const unknown = (addressedIds || []).filter(id => !open.some(item => item.id === id));
+    if (unknown.length > 0) {
+      throw ErrorFormatter.validationError([`Unknown or already addressed feedback: ${unknown.join(', ')}`], phase);
+    }
+  }
+
+  /**
+   * Records a numbered revision of a phase document
+   * 
+   * Marks the addressed feedback items as resolved by this revision. When no
+   * feedback IDs are given, all open feedback of the phase is considered
+   * addressed by the revision. The IDs are checked beforehand with
+   * {@link assertAddressableFeedback}.
+   * 
+   * @param project - Project being revised
+   * @param phase - Phase whose document was regenerated
+   * @param document - Document generated from the revised project state
+   * @param addressedIds - Optional IDs of the feedback items addressed
+   * @returns The recorded revision
+   */
+  private recordRevision(project: ProjectState, phase: DevelopmentPhase, document: GeneratedDocument, addressedIds?: string[]): PhaseRevision {
+    const feedback = project.feedback?.[phase] || [];
+    const open = feedback.filter(item => item.status === 'open');
+
+    const history = project.revisions?.[phase] || [];
+    const revision: PhaseRevision = {
+      revision: history.length + 1,
+      createdAt: formatTimestamp(),
+      documentHash: document.hash,
+      addressedFeedback: (addressedIds ? open.filter(item => addressedIds.includes(item.id)) : open).map(item => item.id)
+    };
+
+    for (const item of feedback) {
+      if (revision.addressedFeedback.includes(item.id)) {
+        item.status = 'addressed';
+        item.addressedInRevision = revision.revision;
+      }
+    }
+
+    project.revisions = { ...project.revisions, [phase]: [...history, revision] };
+    return revision;
+  }
+
+  /**
+   * Gets the open feedback items of a project
+   * 
+   * @param project - Project to inspect
+   * @param phase - Optional phase to restrict the result to
+   * @returns Feedback items that have not been addressed yet
+   */
+  private getOpenFeedback(project: ProjectState, phase?: DevelopmentPhase): ReviewFeedback[] {
+    const groups = phase ? [project.feedback?.[phase] || []] : Object.values(project.feedback || {});
+    return groups.flat().filter(item => item.status === 'open');
+  }
+
+  /**
+   * Validates and normalizes the task ID of a task action input
+   *
+   * @param input - Input containing the task ID
+   * @returns Normalized task ID
+   * @throws {DevelopmentFlowError} When the task ID is missing or malformed
+   */
+  private getTaskId(input: DevelopmentFlowInput): string {
+    const taskIdErrors = InputValidator.validateTaskId(input.taskId || '');
+    if (taskIdErrors.length > 0) {
+      throw ErrorFormatter.validationError(taskIdErrors, DevelopmentPhase.TASK_COMPLETE);
+    }
+    return InputValidator.normalizeText(input.taskId!, 50);
+  }
+
+  /**
+   * Verifies that task edits are allowed in the project's current phase
+   *
+   * Tasks can be edited while the task list is drafted (where `todo` is
+   * allowed) and while tasks are executed (where `task_complete` is allowed).
+   *
+   * @param project - Project whose tasks are edited
+   * @param force - Whether to bypass the phase check
+   * @throws {DevelopmentFlowError} When neither phase allows the edit
+   */
+  private assertTaskEdit(project: ProjectState, force?: boolean): void {
+    const action = PhaseStateMachine.getAllowedActions(project).includes(DevelopmentPhase.TODO)
+      ? DevelopmentPhase.TODO
+      : DevelopmentPhase.TASK_COMPLETE;
+    PhaseStateMachine.assertTransition(project, action, force);
+  }
+
+  /**
+   * Verifies that a task list has a valid hierarchy and dependency graph
+   * and only references known requirements
+   *
+   * @param project - Project holding the requirement IDs
+   * @param tasks - Tasks to check
+   * @param phase - Phase reported with the error
+   * @throws {DevelopmentFlowError} When parents, dependencies or requirements are unknown or the tasks form a cycle
+   */
+  private assertValidTaskGraph(project: ProjectState, tasks: Task[], phase: DevelopmentPhase): void {
+    const errors = [...TaskManager.validateTaskGraph(tasks), ...RequirementManager.validateTaskReferences(project, tasks)];
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors, phase);
+    }
+  }
+
+  /**
+   * Regenerates the task document and saves the project after a task change
+   *
+   * @param project - Project whose tasks changed
+   * @returns Promise resolving to the task document
+   */
+  private async saveTaskChanges(project: ProjectState): Promise<GeneratedDocument> {
+    const todoDoc = await this.documentGenerator.generateTodoDocument(project);
+    project.documents = { ...project.documents, todo: todoDoc.filePath };
+    await this.updateTraceability(project);
+    await this.saveProject(project);
+    return todoDoc;
+  }
+
+  /**
+   * Regenerates the traceability matrix of a project with requirements
+   *
+   * @param project - Project whose requirements, design or tasks changed
+   * @returns Promise resolving to the matrix path, or undefined when the project has no requirements
+   */
+  private async updateTraceability(project: ProjectState): Promise<string | undefined> {
+    if (!project.requirementItems || project.requirementItems.length === 0) {
+      return undefined;
+    }
+
+    const traceabilityDoc = await this.documentGenerator.generateTraceabilityDocument(project);
+    project.documents = { ...project.documents, traceability: traceabilityDoc };
+    return traceabilityDoc;
+  }
+
+  /**
+   * Applies synced requirement lists and user stories
+   *
+   * @param project - Project to update
+   * @param changes - Changed fields of the requirement document
+   * @param report - Sync report receiving the imported and rejected changes
+   */
+  private applyRequirementSync(project: ProjectState, changes: Record<string, string>, report: SyncReport): void {
+    for (const [field, value] of Object.entries(changes)) {
+      const change: SyncChange = { document: 'requirement', field, value };
+      const { input: fields, errors } = DocumentSync.toRequirementInput(field, value);
+      if (errors.length > 0) {
+        report.rejected.push({ ...change, reason: errors.join('; ') });
+        continue;
+      }
+
+      try {
+        this.applyRequirementInput(project, { action: FlowAction.SYNC, ...fields });
+        report.imported.push(change);
+      } catch (error) {
+        if (!(error instanceof DevelopmentFlowError)) {
+          throw error;
+        }
+        report.rejected.push({ ...change, reason: error.message });
+      }
+    }
+  }
+
+  /**
+   * Applies synced design sections, clearing their outdated marks
+   *
+   * @param project - Project to update
+   * @param changes - Changed sections of the design document
+   * @param report - Sync report receiving the imported changes
+   */
+  private applyDesignSync(project: ProjectState, changes: Record<string, string>, report: SyncReport): void {
+    for (const [section, value] of Object.entries(changes)) {
+      Object.assign(project, { [section]: value });
+      delete project.staleDesignSections?.[section];
+      report.imported.push({ document: 'design', field: section, value });
+    }
+  }
+
+  /**
+   * Applies synced task fields and checkboxes
+   *
+   * Ticking a checkbox completes the task and unticking it reopens it, with
+   * the same checks as `task_complete` and `task_reopen`; both are only
+   * possible where task execution is allowed. Tasks ticked together may
+   * depend on each other, so completions are retried until no more succeed.
+   *
+   * @param project - Project to update
+   * @param changes - Changed fields of the task document
+   * @param report - Sync report receiving the imported and rejected changes
+   * @param force - Whether to bypass the phase, dependency and subtask checks
+   */
+  private applyTodoSync(project: ProjectState, changes: Record<string, string>, report: SyncReport, force?: boolean): void {
+    const tasks = project.tasks || [];
+    const canExecute = force || (
+      PhaseStateMachine.getAllowedActions(project).includes(DevelopmentPhase.TASK_COMPLETE) &&
+      PhaseStateMachine.getMissingApprovals(project, DevelopmentPhase.TASK_COMPLETE).length === 0
+    );
+    const toChange = (taskId: string, field: string, value: string): SyncChange => ({ document: 'todo', field: `${taskId}.${field}`, value });
+    let statusChanges: Array<{ task: Task; checked: boolean; error?: string }> = [];
+
+    for (const [taskId, { fields, checked }] of DocumentSync.toTaskChanges(changes)) {
+      const task = TaskManager.getTask(project, taskId);
+
+      const edits = Object.entries(fields).map(([field, value]) => toChange(taskId, field, String(value)));
+      if (edits.length > 0) {
+        const errors = InputValidator.validateTaskInput(fields, `${taskId}: `, false);
+        if (errors.length > 0) {
+          report.rejected.push(...edits.map(edit => ({ ...edit, reason: errors.join('; ') })));
+        } else {
+          TaskManager.updateTask(task, fields);
+          report.imported.push(...edits);
+        }
+      }
+
+      if (checked !== undefined) {
+        if (canExecute) {
+          statusChanges.push({ task, checked });
+        } else {
+          report.rejected.push({
+            ...toChange(taskId, 'checked', String(checked)),
+            reason: `Tasks cannot be completed or reopened in phase '${project.phase}'; confirm the task list first`
+          });
+        }
+      }
+    }
+
+    let progress = true;
+    while (progress && statusChanges.length > 0) {
+      progress = false;
+      statusChanges = statusChanges.filter(change => {
+        try {
+          if (change.checked) {
+            if (!force) {
+              TaskManager.assertDependenciesMet(project, change.task);
+            }
+            TaskManager.applyAction(change.task, DevelopmentPhase.TASK_COMPLETE);
+            if (this.config.autoCompleteParentTasks) {
+              TaskManager.completeParents(tasks, change.task);
+            }
+          } else {
+            TaskManager.applyAction(change.task, TaskAction.REOPEN);
+          }
+        } catch (error) {
+          change.error = error instanceof Error ? error.message : String(error);
+          return true;
+        }
+
+        report.imported.push(toChange(change.task.id, 'checked', String(change.checked)));
+        project.phase = DevelopmentPhase.TASK_COMPLETE;
+        progress = true;
+        return false;
+      });
+    }
+
+    report.rejected.push(...statusChanges.map(change => ({
+      ...toChange(change.task.id, 'checked', String(change.checked)),
+      reason: change.error || 'Task status not changed'
+    })));
+  }
+
+  /**
+   * Regenerates the documents affected by a requirement change or a sync
+   *
+   * The requirement document and the traceability matrix are always
+   * regenerated, the design and task documents once they exist so that
+   * they show their possibly outdated parts.
+   *
+   * @param project - Project whose requirements or synced documents changed
+   * @returns Promise resolving to the requirement document and all regenerated or skipped documents
+   */
+  private async regenerateChangedDocuments(project: ProjectState): Promise<{ requirementDoc: GeneratedDocument; documents: Array<GeneratedDocument | string | undefined> }> {
+    const requirementDoc = await this.documentGenerator.generateRequirementDocument(project);
+    project.documents = { ...project.documents, requirement: requirementDoc.filePath };
+    const documents: Array<GeneratedDocument | string | undefined> = [requirementDoc];
+
+    if (project.documents.design) {
+      const designDoc = await this.documentGenerator.generateDesignDocument(project);
+      project.documents = { ...project.documents, design: designDoc.filePath };
+      documents.push(designDoc);
+    }
+    if (project.tasks && project.tasks.length > 0) {
+      const todoDoc = await this.documentGenerator.generateTodoDocument(project);
+      project.documents = { ...project.documents, todo: todoDoc.filePath };
+      documents.push(todoDoc);
+    }
+
+    documents.push(await this.updateTraceability(project));
+    return { requirementDoc, documents };
+  }
+
+  /**
+   * Adds the documents an action regenerated to its result
+   *
+   * Documents skipped because of unsynced hand edits are listed as
+   * `skippedFiles` instead of `generatedFiles`, with a hint to sync them.
+   *
+   * @param result - Result of the action
+   * @param documents - Regenerated or skipped documents, and paths of documents that are always written
+   * @returns The result listing the documents
+   */
+  private withDocuments(result: DevelopmentFlowResult, documents: Array<GeneratedDocument | string | undefined>): DevelopmentFlowResult {
+    const generatedFiles: string[] = [];
+    const skippedFiles: string[] = [];
+    for (const document of documents) {
+      if (typeof document === 'string') {
+        generatedFiles.push(document);
+      } else if (document) {
+        (document.skipped ? skippedFiles : generatedFiles).push(document.filePath);
+      }
+    }
+
+    return {
+      ...result,
+      ...(skippedFiles.length > 0 && {
+        skippedFiles,
+        nextSteps: [
+          `Sync the hand edits of ${skippedFiles.map(file => path.basename(file)).join(', ')} before they can be regenerated (action: sync)`,
+          ...(result.nextSteps || [])
+        ]
+      }),
+      generatedFiles
+    };
+  }
+
+  /**
+   * Records a change of confirmed requirements
+   *
+   * Creates a pending change request from the difference between the
+   * baseline and the current requirement items, marks its dependents as
+   * possibly outdated and reopens the requirement phase, revoking the
+   * approvals the change affects (see {@link refreshChangeRequest}).
+   *
+   * @param project - Project whose requirement items were rebuilt
+   * @param reason - Why the requirements change
+   * @param requestedBy - Who requested the change, defaults to 'user'
+   * @param baseline - Requirement items as last confirmed
+   * @returns The recorded change request
+   */
+  private recordChangeRequest(project: ProjectState, reason: string, requestedBy: string | undefined, baseline: RequirementItem[]): ChangeRequest {
+    const timestamp = formatTimestamp();
+    const change: ChangeRequest = {
+      id: `CR-${(project.changeRequests?.length ?? 0) + 1}`,
+      reason: InputValidator.normalizeText(reason, 1000),
+      requestedBy: InputValidator.normalizeText(requestedBy || 'user', 100),
+      createdAt: timestamp,
+      added: [],
+      removed: [],
+      staleDesignSections: [],
+      staleTasks: [],
+      status: 'pending'
+    };
+    this.refreshChangeRequest(project, change, baseline);
+    project.confirmedRequirements = baseline;
+    project.changeRequests = [...(project.changeRequests || []), change];
+    project.updatedAt = timestamp;
+    return change;
+  }
+
+  /**
+   * Recomputes a change request from the current requirements, marks its
+   * dependents as possibly outdated and reopens the requirement phase
+   *
+   * Dependents found earlier stay listed, so revising a pending change
+   * request only ever adds outdated design sections and tasks. Reopening
+   * revokes the requirement approval and, through the phase state machine,
+   * the approvals of the affected design and task list: the design when it
+   * mentions a removed entry or entries were added, the task list when a
+   * task implements a removed entry. The revoked approvals are recorded on
+   * the change request.
+   *
+   * @param project - Project whose requirements were changed
+   * @param change - Change request to update
+   * @param baseline - Requirement items as last confirmed
+   */
+  private refreshChangeRequest(project: ProjectState, change: ChangeRequest, baseline: RequirementItem[]): void {
+    const { added, removed } = RequirementManager.diff(baseline, project.requirementItems || []);
+    const dependents = RequirementManager.findDependents(project, removed.map(item => item.id));
+
+    change.added = added;
+    change.removed = removed;
+    change.staleDesignSections = [...new Set([...change.staleDesignSections, ...dependents.designSections])];
+    change.staleTasks = [...new Set([...change.staleTasks, ...dependents.tasks])];
+    RequirementManager.markStale(project, change);
+
+    const affected = [
+      ...(change.staleDesignSections.length > 0 || change.added.length > 0 ? [DevelopmentPhase.DESIGN] : []),
+      ...(change.staleTasks.length > 0 ? [DevelopmentPhase.TODO] : [])
+    ];
+    const revoked = PhaseStateMachine.reopen(project, DevelopmentPhase.REQUIREMENT, affected);
+    change.revokedApprovals = [...new Set([...(change.revokedApprovals || []), ...revoked])];
+  }
+
+  /**
+   * Summarizes task tree nodes for status output
+   *
+   * @param nodes - Task nodes
+   * @returns Nested task summaries with rolled-up progress and estimates
+   */
+  private summarizeTaskTree(nodes: TaskTreeNode[]): Record<string, unknown>[] {
+    return nodes.map(node => ({
+      number: node.number,
+      id: node.task.id,
+      title: node.task.title,
+      status: TaskManager.getStatus(node.task),
+      completionRate: node.completionRate,
+      ...(node.estimatedHours !== undefined && { estimatedHours: node.estimatedHours }),
+      ...(node.children.length > 0 && { subtasks: this.summarizeTaskTree(node.children) })
+    }));
+  }
+
+  /**
+   * Builds next-step hints from the status of a project's tasks
+   *
+   * @param project - Project to inspect
+   * @returns Suggested next actions
+   */
+  private getTaskNextSteps(project: ProjectState): string[] {
+    const tasks = project.tasks || [];
+    const ids = (status: TaskStatus) => tasks.filter(task => TaskManager.getStatus(task) === status).map(task => task.id);
+    const blocked = ids('blocked');
+    const inProgress = ids('in_progress');
+    const pending = ids('pending');
+
+    if (blocked.length === 0 && inProgress.length === 0 && pending.length === 0) {
+      return ['All tasks completed, can finish project (action: finish)'];
+    }
+
+    const steps: string[] = [];
+    if (inProgress.length > 0) {
+      steps.push(`Finish tasks in progress: ${inProgress.join(', ')} (action: task_complete)`);
+    }
+    const ready = TaskManager.getNextTasks(tasks).find(task => TaskManager.getStatus(task) === 'pending');
+    if (ready) {
+      steps.push(`Start the next pending task: ${ready.id} (action: task_start)`);
+    } else if (pending.length > 0) {
+      steps.push(`Pending tasks are waiting for dependencies: ${pending.join(', ')} (action: next)`);
+    }
+    if (blocked.length > 0) {
+      steps.push(`Resolve blocked tasks: ${blocked.join(', ')} (action: task_start once unblocked)`);
+    }
+    return steps;
+  }
+
+  /**
+   * Builds a project query from list/search input filters
+   * 
+   * @param input - Input containing optional phase, name and date filters
+   * @returns Project query
+   * @throws {DevelopmentFlowError} When the phase or a date is invalid
+   */
+  private buildProjectQuery(input: DevelopmentFlowInput): ProjectQuery {
+    const errors: string[] = [];
+    const query: ProjectQuery = {};
+
+    if (input.phase) {
+      if (Object.values(DevelopmentPhase).includes(input.phase as DevelopmentPhase)) {
+        query.phase = input.phase as DevelopmentPhase;
+      } else {
+        errors.push(`phase must be one of: ${Object.values(DevelopmentPhase).join(', ')}`);
+      }
+    }
+    if (input.projectName) {
+      query.name = input.projectName.trim();
+    }
+    if (input.updatedAfter) {
+      if (isNaN(new Date(input.updatedAfter).getTime())) {
+        errors.push('updatedAfter must be a valid date');
+      } else {
+        query.updatedAfter = input.updatedAfter;
+      }
+    }
+    if (input.updatedBefore) {
+      if (isNaN(new Date(input.updatedBefore).getTime())) {
+        errors.push('updatedBefore must be a valid date');
+      } else {
+        query.updatedBefore = input.updatedBefore;
+      }
+    }
+
+    if (errors.length > 0) {
+      throw ErrorFormatter.validationError(errors);
+    }
+    return query;
+  }
+
+  /**
+   * Creates a compact project summary for list-style results
+   * 
+   * @param project - Project state to summarize
+   * @returns Summary with identification, phase, dates and task progress
+   */
+  private summarizeProject(project: ProjectState): Record<string, unknown> {
+    const tasks = project.tasks || [];
+
+    return {
+      id: project.id,
+      name: project.name,
+      phase: project.phase,
+      description: project.description,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      totalTasks: tasks.length,
+      completedTasks: tasks.filter(task => TaskManager.isCompleted(task)).length
+    };
+  }
+
+  /**
+   * Suggests how to continue a project based on its phase
+   * 
+   * @param project - Project being resumed or confirmed
+   * @returns Suggested next steps
+   */
+  private getResumeSteps(project: ProjectState): string[] {
+    switch (project.phase) {
+      case DevelopmentPhase.INIT:
+        return ['Proceed with requirement analysis (action: requirement)'];
+      case DevelopmentPhase.REQUIREMENT:
+        return ['Wait for user to confirm requirements (action: confirmation)'];
+      case DevelopmentPhase.CONFIRMATION:
+        if (project.confirmedPhase === DevelopmentPhase.DESIGN) {
+          return ['Generate task list (action: todo)'];
+        }
+        if (project.confirmedPhase === DevelopmentPhase.TODO) {
+          return ['Start executing tasks (action: task_start)'];
+        }
+        return ['Proceed with design phase (action: design)'];
+      case DevelopmentPhase.DESIGN:
+        return ['Wait for user to confirm design (action: confirmation)'];
+      case DevelopmentPhase.TODO:
+        return ['Wait for user to confirm task list (action: confirmation)'];
+      case DevelopmentPhase.TASK_COMPLETE:
+        return [...this.getTaskNextSteps(project), 'View detailed status (action: status)'];
+      case DevelopmentPhase.FINISH:
+        return ['Project completed'];
+      default:
+        return ['View detailed status (action: status)'];
+    }
+  }
+
   /**
    * Starts the MCP development flow server
    * 
@@ -891,16 +2692,25 @@ export class DevelopmentFlowServer {
    * Sets up all request handlers and begins listening for client connections.
    * This method should be called once to activate the server.
    * 
+   * With the 'stdio' transport a single client is served over standard
+   * input/output. With the 'http' transport an HTTP server is started that
+   * accepts any number of SSE connections, each with its own session.
+   * 
    * @throws {Error} When server fails to start or transport is unavailable
    * 
    * @example
    * ```typescript
-   * const server = new DevelopmentFlowServer();
+   * const server = new DevelopmentFlowServer({ transport: 'http', httpPort: 3000 });
    * await server.start();
    * console.log('Development flow server is running');
    * ```
    */
   public async start(): Promise<void> {
+    if (this.config.transport === 'http') {
+      await this.startHttp();
+      return;
+    }
+
     const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -908,6 +2718,108 @@ export class DevelopmentFlowServer {
     logger.info('Development Flow MCP server started');
   }
 
+  /**
+   * Starts the HTTP transport
+   * 
+   * Serves two endpoints:
+   * - `GET /sse` opens an SSE stream and creates a new session
+   * - `POST /messages?sessionId=...` delivers client messages to that session
+   * 
+   * Every SSE connection gets its own MCP server instance and session context,
+   * so the active project of each connection is kept separate.
+   * 
+   * @throws {Error} When the HTTP server cannot listen on the configured address
+   */
+  private async startHttp(): Promise<void> {
+    const httpServer = http.createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch(error => {
+        logger.error(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+        if (!res.headersSent) {
+          res.writeHead(500).end('Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.httpPort, this.config.httpHost, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    logger.info(`Development Flow MCP server listening on http://${this.config.httpHost}:${this.config.httpPort}/sse`);
+  }
+
+  /**
+   * Stops the server
+   * 
+   * Closes the stdio connection and, with the 'http' transport, every open
+   * SSE session and the HTTP server itself.
+   * 
+   * @example
+   * ```typescript
+   * process.on('SIGTERM', () => server.stop());
+   * ```
+   */
+  public async stop(): Promise<void> {
+    await this.server.close();
+    await Promise.all([...this.sseTransports.values()].map(transport => transport.close()));
+
+    const httpServer = this.httpServer;
+    if (httpServer) {
+      this.httpServer = null;
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+      logger.info('Development Flow MCP server stopped');
+    }
+  }
+
+  /**
+   * Routes an HTTP request to the SSE endpoints
+   * 
+   * @param req - Incoming HTTP request
+   * @param res - HTTP response
+   */
+  private async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const transport = new SSEServerTransport('/messages', res);
+      const session: SessionContext = { id: transport.sessionId, currentProject: null };
+      const server = this.createMcpServer(session);
+
+      this.sseTransports.set(transport.sessionId, transport);
+      this.sessions.set(session.id, session);
+      server.onclose = () => {
+        this.sseTransports.delete(transport.sessionId);
+        this.sessions.delete(session.id);
+        logger.info(`HTTP session closed: ${transport.sessionId}`);
+      };
+
+      await server.connect(transport);
+      logger.info(`HTTP session opened: ${transport.sessionId}`);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const sessionId = url.searchParams.get('sessionId') || '';
+      const transport = this.sseTransports.get(sessionId);
+      if (!transport) {
+        res.writeHead(404).end(`Unknown session: ${sessionId}`);
+        return;
+      }
+
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  }
+
   /**
    * Gets the underlying MCP server instance
    * 
@@ -934,6 +2846,7 @@ export class DevelopmentFlowServer {
    * project, or null if no project is currently loaded. This provides
    * access to all project data including phase, tasks, and metadata.
    * 
+   * @param sessionId - Session to query (defaults to the stdio session)
    * @returns Current project state or null if no active project
    * 
    * @example
@@ -945,8 +2858,8 @@ export class DevelopmentFlowServer {
    * }
    * ```
    */
-  public getCurrentProject(): ProjectState | null {
-    return this.currentProject;
+  public getCurrentProject(sessionId: string = this.defaultSession.id): ProjectState | null {
+    return this.sessions.get(sessionId)?.currentProject ?? null;
   }
 
   /**
@@ -957,7 +2870,8 @@ export class DevelopmentFlowServer {
    * or resuming work on a previously created project.
    * 
    * @param projectId - ID of the project to load and set as current
-   * @throws {DevelopmentFlowError} When project doesn't exist
+   * @param sessionId - Session to update (defaults to the stdio session)
+   * @throws {DevelopmentFlowError} When project or session doesn't exist
    * 
    * @example
    * ```typescript
@@ -965,11 +2879,15 @@ export class DevelopmentFlowServer {
    * console.log('Project loaded and set as current');
    * ```
    */
-  public async setCurrentProject(projectId: string): Promise<void> {
+  public async setCurrentProject(projectId: string, sessionId: string = this.defaultSession.id): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new DevelopmentFlowError(`Session does not exist: ${sessionId}`, 'SESSION_NOT_FOUND');
+    }
     const project = await this.stateManager.loadProjectState(projectId);
     if (!project) {
       throw new DevelopmentFlowError(`Project does not exist: ${projectId}`, 'PROJECT_NOT_FOUND');
     }
-    this.currentProject = project;
+    session.currentProject = project;
   }
 }
\ No newline at end of file
@@ -1,26 +1,47 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { ProjectState, DevelopmentFlowConfig, DocumentTemplate } from '../types/index.js';
-import { ensureDir, generateNumberedDir, sanitizeFileName, formatTimestamp, logger } from '../utils/index.js';
+import { ProjectState, RequirementItem, RequirementKind, SyncDocumentName, DevelopmentFlowConfig, DevelopmentFlowError, DocumentTemplate, GeneratedDocument, OutputFormat, TemplateHelper, TemplateInfo } from '../types/index.js';
+import { ensureDir, generateNumberedDir, sanitizeFileName, toKebabCase, formatTimestamp, escapeForFormat, inferOutputFormat, hashContent, logger } from '../utils/index.js';
+import { TemplateEngine } from './TemplateEngine.js';
+import { TemplateLoader, LoadedTemplate } from './TemplateLoader.js';
+import { TaskManager } from './TaskManager.js';
+import { RequirementManager } from './RequirementManager.js';
+import { DocumentSync } from './DocumentSync.js';
+
+/** Names of the templates used for document generation */
+const DOCUMENT_TEMPLATE_NAMES = ['requirement', 'design', 'todo', 'traceability', 'done'];
+
+/** Kiro spec file names keyed by template name */
+const KIRO_FILE_NAMES: Record<string, string> = {
+  requirement: 'requirements.md',
+  design: 'design.md',
+  todo: 'tasks.md'
+};
 
 /**
  * Document generator for development flow projects
  * 
  * Handles the generation of various project documents including requirements,
  * design specifications, task lists, and completion reports. Uses a template-based
- * approach with variable substitution and conditional rendering.
+ * approach rendered by a Handlebars-compatible template engine.
  * 
  * Features:
  * - Pre-built templates for common document types
- * - Custom template support
- * - Variable substitution and conditional rendering
+ * - Custom template and helper support
+ * - Nested blocks, dotted paths and helpers in templates
  * - Automatic file organization and directory management
  * - Markdown format output for easy viewing and editing
  * 
+ * Generated documents are held back until {@link writePendingDocuments} is
+ * called after the project state was saved, so that an action failing
+ * before or while saving leaves the documents on disk unchanged.
+ * 
  * @example
  * ```typescript
  * const generator = new DocumentGenerator(config);
  * const filePath = await generator.generateRequirementDocument(project);
+ * await stateManager.saveProjectState(project);
+ * await generator.writePendingDocuments(project);
  * console.log(`Requirements document created at: ${filePath}`);
  * ```
  */
@@ -31,6 +52,15 @@ export class DocumentGenerator {
   /** Map of document templates indexed by template name */
   private templates: Map<string, DocumentTemplate> = new Map();
 
+  /** Template engine used to render documents */
+  private engine: TemplateEngine = new TemplateEngine();
+
+  /** Loader for user templates stored on disk */
+  private loader: TemplateLoader = new TemplateLoader();
+
+  /** Generated documents not written yet, by project state and file path */
+  private pendingDocuments: WeakMap<ProjectState, Map<string, string>> = new WeakMap();
+
   /**
    * Creates a new DocumentGenerator instance
    * 
@@ -71,7 +101,7 @@ export class DocumentGenerator {
     this.templates.set('requirement', {
       name: 'requirement',
       path: 'requirement.md',
-      variables: ['projectName', 'description', 'requirements', 'functionalRequirements', 'technicalRequirements', 'acceptanceCriteria'],
+      variables: ['projectName', 'description', 'stories', 'requirementsByKind'],
       content: `# Requirements Analysis Document
 
 ## Project Overview
@@ -79,33 +109,41 @@ export class DocumentGenerator {
 **Creation Time**: {{createdAt}}
 **Project Description**: {{description}}
 
-## Core Requirements
-{{#if requirements}}
-{{#each requirements}}
-- {{this}}
+{{#if stories}}
+## User Stories
+
+{{#each stories}}
+### {{id}}
+**User Story**: {{text}}
+{{#if criteria}}
+
+#### Acceptance Criteria
+{{#each criteria}}
+- **{{id}}**: {{text}}
 {{/each}}
 {{/if}}
 
-## Functional Requirements
-{{#if functionalRequirements}}
-{{#each functionalRequirements}}
-- {{this}}
 {{/each}}
 {{/if}}
+## Core Requirements
+{{#each requirementsByKind.requirement}}
+- **{{id}}**: {{text}}
+{{/each}}
+
+## Functional Requirements
+{{#each requirementsByKind.functional}}
+- **{{id}}**: {{text}}
+{{/each}}
 
 ## Technical Requirements
-{{#if technicalRequirements}}
-{{#each technicalRequirements}}
-- {{this}}
+{{#each requirementsByKind.technical}}
+- **{{id}}**: {{text}}
 {{/each}}
-{{/if}}
 
 ## Acceptance Criteria
-{{#if acceptanceCriteria}}
-{{#each acceptanceCriteria}}
-- {{this}}
+{{#each requirementsByKind.acceptance}}
+- **{{id}}**: {{text}}
 {{/each}}
-{{/if}}
 
 ---
 *Document generated at: {{timestamp}}*`
@@ -115,41 +153,48 @@ export class DocumentGenerator {
     this.templates.set('design', {
       name: 'design',
       path: 'design.md',
-      variables: ['projectName', 'architecture', 'implementation', 'systemDesign', 'dataStructures', 'interfaces', 'deployment'],
+      variables: ['projectName', 'architecture', 'implementation', 'systemDesign', 'dataStructures', 'interfaces', 'deployment', 'staleDesign'],
       content: `# Technical Design Document
 
 ## Project Information
 **Project Name**: {{projectName}}
 **Design Time**: {{updatedAt}}
 
+{{#if staleDesign}}
+## Pending Requirement Changes
+{{#each staleDesign}}
+- **{{section}}** may be outdated by {{changeRequest}}{{#if reason}}: {{reason}}{{/if}}
+{{/each}}
+
+{{/if}}
 ## Technical Architecture
 {{#if architecture}}
-{{architecture}}
+{{{architecture}}}
 {{/if}}
 
 ## Implementation Plan
 {{#if implementation}}
-{{implementation}}
+{{{implementation}}}
 {{/if}}
 
 ## System Design
 {{#if systemDesign}}
-{{systemDesign}}
+{{{systemDesign}}}
 {{/if}}
 
 ## Data Structures
 {{#if dataStructures}}
-{{dataStructures}}
+{{{dataStructures}}}
 {{/if}}
 
 ## Interface Design
 {{#if interfaces}}
-{{interfaces}}
+{{{interfaces}}}
 {{/if}}
 
 ## Deployment Plan
 {{#if deployment}}
-{{deployment}}
+{{{deployment}}}
 {{/if}}
 
 ---
@@ -160,23 +205,42 @@ export class DocumentGenerator {
     this.templates.set('todo', {
       name: 'todo',
       path: 'todo.md',
-      variables: ['projectName', 'tasks'],
+      variables: ['projectName', 'taskOutline', 'taskStats'],
       content: `# Task List
 
 ## Project Information
 **Project Name**: {{projectName}}
 **Task Generation Time**: {{updatedAt}}
+**Progress**: {{taskStats.completed}}/{{taskStats.total}} completed ({{taskStats.completionRate}}%)
 
-## Pending Tasks
-{{#if tasks}}
-{{#each tasks}}
-- [ ] **{{id}}**: {{title}}
-  - Description: {{description}}
-  - Priority: {{priority}}
-  - Estimated Hours: {{estimatedHours}} hours
-  {{#if dependencies}}
-  - Dependencies: {{#each dependencies}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
-  {{/if}}
+## Tasks
+{{#if taskOutline}}
+{{#each taskOutline}}
+{{indent}}- [{{#if (eq status 'completed')}}x{{else}} {{/if}}] {{number}} **{{id}}**: {{title}}
+{{indent}}  - Status: {{status}}{{#if blockedReason}} ({{blockedReason}}){{/if}}
+{{#if staleBy}}
+{{indent}}  - Possibly outdated by {{staleBy}}
+{{/if}}
+{{#if hasSubtasks}}
+{{indent}}  - Progress: {{completionRate}}%
+{{/if}}
+{{indent}}  - Description: {{description}}
+{{indent}}  - Priority: {{priority}}
+{{#if assignee}}
+{{indent}}  - Assignee: {{assignee}}
+{{/if}}
+{{#if estimatedHours}}
+{{indent}}  - Estimated Hours: {{estimatedHours}} hours
+{{/if}}
+{{#if actualHours}}
+{{indent}}  - Actual Hours: {{actualHours}} hours
+{{/if}}
+{{#if dependencies}}
+{{indent}}  - Dependencies: {{#each dependencies}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+{{/if}}
+{{#if requirementIds}}
+{{indent}}  - Requirements: {{#each requirementIds}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+{{/if}}
 {{/each}}
 {{else}}
 No tasks available
@@ -189,6 +253,33 @@ No tasks available
 4. **Deployment Phase**: Production environment deployment
 5. **Acceptance Phase**: User acceptance and documentation organization
 
+---
+*Document generated at: {{timestamp}}*`
+    });
+
+    // Traceability matrix template
+    this.templates.set('traceability', {
+      name: 'traceability',
+      path: 'traceability.md',
+      variables: ['projectName', 'traceability', 'traceabilitySummary'],
+      content: `# Requirements Traceability Matrix
+
+## Project Information
+**Project Name**: {{projectName}}
+**Design Coverage**: {{traceabilitySummary.designed}}/{{traceabilitySummary.total}} requirements
+**Task Coverage**: {{traceabilitySummary.planned}}/{{traceabilitySummary.total}} requirements
+**Completed**: {{traceabilitySummary.completed}}/{{traceabilitySummary.total}} requirements
+
+## Requirements
+{{#each traceability}}
+### {{id}}: {{text}}
+- Design: {{#if designSections}}{{#each designSections}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}{{else}}not covered{{/if}}
+- Tasks: {{#if tasks}}{{#each tasks}}{{id}} ({{status}}){{#unless @last}}, {{/unless}}{{/each}}{{else}}none{{/if}}
+- Status: {{status}}{{#if tasks}} ({{completionRate}}%){{/if}}
+
+{{else}}
+No requirements recorded
+{{/each}}
 ---
 *Document generated at: {{timestamp}}*`
     });
@@ -197,7 +288,7 @@ No tasks available
     this.templates.set('done', {
       name: 'done',
       path: 'done.md',
-      variables: ['projectName', 'completedTasks', 'tasks'],
+      variables: ['projectName', 'tasks', 'taskStats', 'timeReport'],
       content: `# Project Completion Report
 
 ## Project Information
@@ -206,18 +297,36 @@ No tasks available
 **Project Cycle**: {{createdAt}} - {{updatedAt}}
 
 ## Completed Tasks
-{{#if completedTasks}}
-{{#each completedTasks}}
-- [x] {{this}}
+{{#if taskStats.completed}}
+{{#each tasks}}
+{{#if (eq status 'completed')}}
+- [x] **{{id}}**: {{title}}
+{{/if}}
 {{/each}}
 {{else}}
 No completed tasks
 {{/if}}
 
 ## Task Statistics
-- Total Tasks: {{#if tasks}}{{tasks.length}}{{else}}0{{/if}}
-- Completed: {{#if completedTasks}}{{completedTasks.length}}{{else}}0{{/if}}
-- Completion Rate: {{#if tasks}}{{#if completedTasks}}{{math completedTasks.length '/' tasks.length '*' 100}}%{{else}}0%{{/if}}{{else}}N/A{{/if}}
+- Total Tasks: {{taskStats.total}}
+- Completed: {{taskStats.completed}}
+- Completion Rate: {{#if taskStats.total}}{{taskStats.completionRate}}%{{else}}N/A{{/if}}
+
+## Time Tracking
+- Estimated Hours: {{timeReport.total.estimatedHours}}
+- Actual Hours: {{timeReport.total.actualHours}}
+- Variance: {{timeReport.total.variance}} hours{{#if timeReport.total.variancePercent includeZero=true}} ({{timeReport.total.variancePercent}}%){{/if}}
+- Estimate Accuracy: {{#if timeReport.estimateAccuracy includeZero=true}}{{timeReport.estimateAccuracy}}%{{else}}N/A{{/if}}
+
+### By Priority
+{{#each timeReport.byPriority}}
+- {{@key}}: {{actualHours}}/{{estimatedHours}} hours actual/estimated across {{tasks}} task(s)
+{{/each}}
+
+### By Assignee
+{{#each timeReport.byAssignee}}
+- {{@key}}: {{actualHours}}/{{estimatedHours}} hours actual/estimated across {{tasks}} task(s)
+{{/each}}
 
 ## Project Summary
 Project "{{projectName}}" has successfully completed all predetermined objectives.
@@ -245,34 +354,29 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * technical requirements, and acceptance criteria.
    * 
    * @param project - Project state containing requirement information
-   * @returns Promise resolving to the file path of the generated document
+   * @returns Promise resolving to the generated document, skipped when it holds unsynced hand edits
    * @throws {Error} When requirement template is not found or file operations fail
+   * @throws {DevelopmentFlowError} When the user template replacing it is invalid
    * 
    * @example
    * ```typescript
-   * const filePath = await generator.generateRequirementDocument(project);
-   * console.log(`Requirements document created: ${filePath}`);
+   * const { filePath, skipped } = await generator.generateRequirementDocument(project);
+   * console.log(skipped ? `Sync the edits of ${filePath} first` : `Requirements document created: ${filePath}`);
    * ```
    */
-  public async generateRequirementDocument(project: ProjectState): Promise<string> {
-    const template = this.templates.get('requirement');
+  public async generateRequirementDocument(project: ProjectState): Promise<GeneratedDocument> {
+    const template = await this.resolveTemplate('requirement', project);
     if (!template) {
       throw new Error('Requirement document template does not exist');
     }
 
-    const content = this.renderTemplate(template, {
-      ...project,
-      timestamp: formatTimestamp()
-    });
+    const content = this.renderTemplate(template, this.buildTemplateData(project));
 
-    const dirPath = await this.getProjectDir(project);
-    const filePath = path.join(dirPath, template.path);
-    
-    await ensureDir(dirPath);
-    await fs.writeFile(filePath, content, 'utf-8');
-    
-    logger.info(`Requirement document generated: ${filePath}`);
-    return filePath;
+    const document = await this.writeSyncedDocument(project, 'requirement', template, content);
+    if (!document.skipped) {
+      logger.info(`Requirement document generated: ${document.filePath}`);
+    }
+    return document;
   }
 
   /**
@@ -283,34 +387,29 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * and deployment strategies.
    * 
    * @param project - Project state containing design information
-   * @returns Promise resolving to the file path of the generated document
+   * @returns Promise resolving to the generated document, skipped when it holds unsynced hand edits
    * @throws {Error} When design template is not found or file operations fail
+   * @throws {DevelopmentFlowError} When the user template replacing it is invalid
    * 
    * @example
    * ```typescript
-   * const filePath = await generator.generateDesignDocument(project);
+   * const { filePath } = await generator.generateDesignDocument(project);
    * console.log(`Design document created: ${filePath}`);
    * ```
    */
-  public async generateDesignDocument(project: ProjectState): Promise<string> {
-    const template = this.templates.get('design');
+  public async generateDesignDocument(project: ProjectState): Promise<GeneratedDocument> {
+    const template = await this.resolveTemplate('design', project);
     if (!template) {
       throw new Error('Design document template does not exist');
     }
 
-    const content = this.renderTemplate(template, {
-      ...project,
-      timestamp: formatTimestamp()
-    });
+    const content = this.renderTemplate(template, this.buildTemplateData(project));
 
-    const dirPath = await this.getProjectDir(project);
-    const filePath = path.join(dirPath, template.path);
-    
-    await ensureDir(dirPath);
-    await fs.writeFile(filePath, content, 'utf-8');
-    
-    logger.info(`Design document generated: ${filePath}`);
-    return filePath;
+    const document = await this.writeSyncedDocument(project, 'design', template, content);
+    if (!document.skipped) {
+      logger.info(`Design document generated: ${document.filePath}`);
+    }
+    return document;
   }
 
   /**
@@ -321,33 +420,59 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * implementation phases for project execution.
    * 
    * @param project - Project state containing task information
-   * @returns Promise resolving to the file path of the generated document
+   * @returns Promise resolving to the generated document, skipped when it holds unsynced hand edits
    * @throws {Error} When todo template is not found or file operations fail
+   * @throws {DevelopmentFlowError} When the user template replacing it is invalid
    * 
    * @example
    * ```typescript
-   * const filePath = await generator.generateTodoDocument(project);
+   * const { filePath } = await generator.generateTodoDocument(project);
    * console.log(`Task list created: ${filePath}`);
    * ```
    */
-  public async generateTodoDocument(project: ProjectState): Promise<string> {
-    const template = this.templates.get('todo');
+  public async generateTodoDocument(project: ProjectState): Promise<GeneratedDocument> {
+    const template = await this.resolveTemplate('todo', project);
     if (!template) {
       throw new Error('Task document template does not exist');
     }
 
-    const content = this.renderTemplate(template, {
-      ...project,
-      timestamp: formatTimestamp()
-    });
+    const content = this.renderTemplate(template, this.buildTemplateData(project));
 
-    const dirPath = await this.getProjectDir(project);
-    const filePath = path.join(dirPath, template.path);
-    
-    await ensureDir(dirPath);
-    await fs.writeFile(filePath, content, 'utf-8');
+    const document = await this.writeSyncedDocument(project, 'todo', template, content);
+    if (!document.skipped) {
+      logger.info(`Task document generated: ${document.filePath}`);
+    }
+    return document;
+  }
+
+  /**
+   * Generates the requirements traceability matrix
+   * 
+   * Lists every requirement and acceptance criterion with the design
+   * sections mentioning its ID, the tasks implementing it and their
+   * completion state.
+   * 
+   * @param project - Project state containing requirements, design and tasks
+   * @returns Promise resolving to the file path of the generated document
+   * @throws {Error} When the traceability template is not found or file operations fail
+   * @throws {DevelopmentFlowError} When the user template replacing it is invalid
+   * 
+   * @example
+   * ```typescript
+   * const filePath = await generator.generateTraceabilityDocument(project);
+   * ```
+   */
+  public async generateTraceabilityDocument(project: ProjectState): Promise<string> {
+    const template = await this.resolveTemplate('traceability', project);
+    if (!template) {
+      throw new Error('Traceability matrix template does not exist');
+    }
+
+    const content = this.renderTemplate(template, this.buildTemplateData(project));
+
+    const filePath = await this.writeDocument(project, this.getDocumentFileName(template), content);
     
-    logger.info(`Task document generated: ${filePath}`);
+    logger.info(`Traceability matrix generated: ${filePath}`);
     return filePath;
   }
 
@@ -361,6 +486,7 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * @param project - Project state with completion information
    * @returns Promise resolving to the file path of the generated document
    * @throws {Error} When completion template is not found or file operations fail
+   * @throws {DevelopmentFlowError} When the user template replacing it is invalid
    * 
    * @example
    * ```typescript
@@ -369,31 +495,80 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * ```
    */
   public async generateDoneDocument(project: ProjectState): Promise<string> {
-    const template = this.templates.get('done');
+    const template = await this.resolveTemplate('done', project);
     if (!template) {
       throw new Error('Completion report template does not exist');
     }
 
-    const content = this.renderTemplate(template, {
-      ...project,
-      timestamp: formatTimestamp()
-    });
+    const content = this.renderTemplate(template, this.buildTemplateData(project));
 
-    const dirPath = await this.getProjectDir(project);
-    const filePath = path.join(dirPath, template.path);
-    
-    await ensureDir(dirPath);
-    await fs.writeFile(filePath, content, 'utf-8');
+    const filePath = await this.writeDocument(project, this.getDocumentFileName(template), content);
     
     logger.info(`Completion report generated: ${filePath}`);
     return filePath;
   }
 
+  /**
+   * Renders a document from the current project state without writing it
+   * 
+   * @param project - Project state to render
+   * @param name - Template name of the document, e.g. 'todo'
+   * @returns Promise resolving to the rendered content
+   * @throws {Error} When the template is not found
+   * @throws {DevelopmentFlowError} When the user template replacing it is invalid
+   */
+  public async renderDocument(project: ProjectState, name: string): Promise<string> {
+    const template = await this.resolveTemplate(name, project);
+    if (!template) {
+      throw new Error(`Document template '${name}' does not exist`);
+    }
+    return this.renderTemplate(template, this.buildTemplateData(project));
+  }
+
+  /**
+   * Reads the last generated version of a project document
+   * 
+   * Looks up the file path recorded in the project's `documents` map and
+   * returns the current file content, or the content generated for this
+   * project state if it is not written yet.
+   * 
+   * @param project - Project state holding the generated document paths
+   * @param name - Template name of the document, e.g. 'design'
+   * @returns Promise resolving to the document content, or null if it was never generated or is unreadable
+   * 
+   * @example
+   * ```typescript
+   * const content = await generator.readDocument(project, 'requirement');
+   * ```
+   */
+  public async readDocument(project: ProjectState, name: string): Promise<string | null> {
+    const filePath = project.documents?.[name];
+    if (!filePath) {
+      return null;
+    }
+
+    const pending = this.pendingDocuments.get(project)?.get(filePath);
+    if (pending !== undefined) {
+      return pending;
+    }
+
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      logger.warn(`Generated document is not readable: ${filePath}`, project.id);
+      return null;
+    }
+  }
+
   /**
    * Gets the project directory path for document storage
    * 
-   * Generates a sanitized directory path based on the project name
-   * and ensures it follows the configured project directory structure.
+   * Returns the stable spec directory recorded in the project state. On the
+   * first generation a directory is allocated according to the output layout
+   * (a sanitized, numbered directory under the projects directory, or a Kiro
+   * feature folder under the workspace) and recorded as `project.specDir`, so all
+   * documents of a project live in one place and regenerations update it in
+   * place. The caller is responsible for persisting the updated state.
    * 
    * @param project - Project state containing the project name
    * @returns Promise resolving to the absolute directory path
@@ -405,27 +580,357 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * ```
    */
   private async getProjectDir(project: ProjectState): Promise<string> {
-    const sanitizedName = sanitizeFileName(project.name);
-    const dirName = generateNumberedDir(this.config.projectsDir, sanitizedName);
-    return path.join(this.config.projectsDir, await dirName);
+    if (!project.specDir) {
+      project.specDir = this.config.outputLayout === 'kiro'
+        ? await this.allocateKiroSpecDir(project)
+        : path.join(this.config.projectsDir, await generateNumberedDir(this.config.projectsDir, sanitizeFileName(project.name)));
+      await ensureDir(project.specDir);
+    }
+    return project.specDir;
+  }
+
+  /**
+   * Allocates a Kiro spec directory for a project
+   * 
+   * Uses `<baseDir>/.kiro/specs/<feature>` with the kebab-cased project name
+   * as feature name, appending a numeric suffix if that folder is taken.
+   * 
+   * @param project - Project state containing the project name
+   * @returns Promise resolving to the absolute directory path
+   */
+  private async allocateKiroSpecDir(project: ProjectState): Promise<string> {
+    const specsDir = path.join(this.config.baseDir, '.kiro', 'specs');
+    const feature = toKebabCase(project.name);
+    let dirPath = path.join(specsDir, feature);
+
+    for (let counter = 2; ; counter++) {
+      try {
+        await fs.access(dirPath);
+        dirPath = path.join(specsDir, `${feature}-${counter}`);
+      } catch {
+        return dirPath;
+      }
+    }
+  }
+
+  /**
+   * Gets the file name a template is written to in the configured layout
+   * 
+   * @param template - Document template
+   * @returns Kiro file name in the 'kiro' layout, otherwise the template path
+   */
+  private getDocumentFileName(template: DocumentTemplate): string {
+    const builtin = template.source === undefined || template.source === 'builtin';
+    if (builtin && this.config.outputLayout === 'kiro') {
+      return KIRO_FILE_NAMES[template.name] ?? template.path;
+    }
+    return template.path;
+  }
+
+  /**
+   * Gets the per-project template override directory
+   * 
+   * @param project - Project state, or null when no project is selected
+   * @returns The `templates` folder inside the project's spec directory, or null if no spec directory exists yet
+   */
+  private getProjectTemplatesDir(project: ProjectState | null): string | null {
+    return project?.specDir ? path.join(project.specDir, 'templates') : null;
+  }
+
+  /**
+   * Collects built-in and user templates in ascending precedence
+   * 
+   * User templates are read from disk on every call so that edits apply
+   * without restarting the server. Every entry is validated: front-matter
+   * errors, template syntax errors, missing helpers and duplicate names make
+   * a template unusable; templates that no document is generated from are
+   * reported as warnings. User templates without an output path inherit the
+   * file name of the template they replace.
+   * 
+   * @param project - Project whose override directory is included, or null
+   * @returns Promise resolving to the validated templates: built-in, then global, then project templates
+   */
+  private async collectTemplates(project: ProjectState | null): Promise<Array<LoadedTemplate & { warnings: string[] }>> {
+    const builtin: LoadedTemplate[] = Array.from(this.templates.values()).map(template => ({ template, errors: [] }));
+    const global = await this.loader.loadDirectory(this.config.templatesDir, 'global');
+    const projectDir = this.getProjectTemplatesDir(project);
+    const local = projectDir ? await this.loader.loadDirectory(projectDir, 'project') : [];
+    const loaded = [...global, ...local];
+
+    const outputPaths = new Map(builtin.map(({ template }) => [template.name, this.getDocumentFileName(template)]));
+
+    return [
+      ...builtin.map(entry => ({ ...entry, warnings: [] })),
+      ...loaded.map(({ template, errors }) => {
+        const warnings: string[] = [];
+        const allErrors = [...errors];
+
+        try {
+          this.engine.compile(template.content);
+        } catch (error) {
+          allErrors.push(error instanceof Error ? error.message : String(error));
+        }
+
+        const duplicate = loaded.find(other =>
+          other.template !== template &&
+          other.template.source === template.source &&
+          other.template.name === template.name
+        );
+        if (duplicate) {
+          allErrors.push(`Template name '${template.name}' is also declared in ${duplicate.template.file}`);
+        }
+
+        if (!DOCUMENT_TEMPLATE_NAMES.includes(template.name)) {
+          warnings.push(`No document is generated from template '${template.name}' (document templates: ${DOCUMENT_TEMPLATE_NAMES.join(', ')})`);
+        }
+
+        const outputPath = template.path || outputPaths.get(template.name) || `${template.name}.md`;
+        outputPaths.set(template.name, outputPath);
+        return { template: { ...template, path: outputPath }, errors: allErrors, warnings };
+      })
+    ];
+  }
+
+  /**
+   * Resolves the template a document is generated from
+   * 
+   * Project templates take precedence over templates from the global
+   * templates directory, which take precedence over the built-in templates.
+   * The project's spec directory is allocated first so that its override
+   * directory is known.
+   * 
+   * @param name - Template name, e.g. 'design'
+   * @param project - Project the document is generated for
+   * @returns Promise resolving to the template, or undefined if none exists
+   * @throws {DevelopmentFlowError} When the template with the highest precedence is invalid
+   */
+  private async resolveTemplate(name: string, project: ProjectState): Promise<DocumentTemplate | undefined> {
+    await this.getProjectDir(project);
+    const candidates = (await this.collectTemplates(project)).filter(entry => entry.template.name === name);
+    const selected = candidates[candidates.length - 1];
+    if (!selected) {
+      return undefined;
+    }
+
+    if (selected.errors.length > 0) {
+      throw new DevelopmentFlowError(
+        `Template '${name}' (${selected.template.file}) is invalid: ${selected.errors.join('; ')}`,
+        'TEMPLATE_INVALID',
+        undefined,
+        project.id,
+        { file: selected.template.file, errors: selected.errors }
+      );
+    }
+
+    if (selected.template.source !== 'builtin' && selected.template.source !== undefined) {
+      logger.debug(`Using ${selected.template.source} template '${name}': ${selected.template.file}`, project.id);
+    }
+    return selected.template;
+  }
+
+  /**
+   * Lists built-in and user templates with their validation results
+   * 
+   * @param project - Project whose override directory is included, or null for global templates only
+   * @returns Promise resolving to all templates in ascending precedence
+   * 
+   * @example
+   * ```typescript
+   * const templates = await generator.listTemplates(project);
+   * const broken = templates.filter(template => template.errors.length > 0);
+   * ```
+   */
+  public async listTemplates(project: ProjectState | null): Promise<TemplateInfo[]> {
+    const entries = await this.collectTemplates(project);
+
+    return entries.map(({ template, errors, warnings }, index) => ({
+      name: template.name,
+      path: this.getDocumentFileName(template),
+      format: this.getTemplateFormat(template),
+      variables: template.variables,
+      ...(template.description && { description: template.description }),
+      source: template.source ?? 'builtin',
+      ...(template.file && { file: template.file }),
+      overridden: entries.slice(index + 1).some(later => later.template.name === template.name),
+      errors,
+      warnings
+    }));
+  }
+
+  /**
+   * Gets the template directories searched for user templates
+   * 
+   * @param project - Project whose override directory is included, or null
+   * @returns Global templates directory and, when known, the project override directory
+   */
+  public getTemplateDirectories(project: ProjectState | null): { global: string; project?: string } {
+    const projectDir = this.getProjectTemplatesDir(project);
+    return {
+      global: this.config.templatesDir,
+      ...(projectDir && { project: projectDir })
+    };
+  }
+
+  /**
+   * Queues a generated document for the project's spec directory
+   * 
+   * The document is written by {@link writePendingDocuments}; a later
+   * generation of the same document for the same project state replaces it.
+   * 
+   * @param project - Project state owning the document
+   * @param fileName - Document file name within the spec directory
+   * @param content - Rendered document content
+   * @returns Promise resolving to the absolute file path
+   */
+  private async writeDocument(project: ProjectState, fileName: string, content: string): Promise<string> {
+    const filePath = path.join(await this.getProjectDir(project), fileName);
+    const pending = this.pendingDocuments.get(project) || new Map<string, string>();
+    pending.set(filePath, content);
+    this.pendingDocuments.set(project, pending);
+    return filePath;
+  }
+
+  /**
+   * Writes the documents generated for a project state
+   * 
+   * Called once the project state is saved, so that the documents on disk
+   * never get ahead of the stored state. In particular the sync base of a
+   * document is only stored together with the content it describes, and a
+   * failed action is not mistaken for a hand edit by the next `sync`.
+   * When document snapshots are enabled, the previous version of each file
+   * is copied to the `history` subdirectory before being overwritten.
+   * 
+   * @param project - Saved project state
+   * @returns Promise resolving to the paths of the written documents
+   * 
+   * @example
+   * ```typescript
+   * await generator.generateTodoDocument(project);
+   * await stateManager.saveProjectState(project);
+   * await generator.writePendingDocuments(project);
+   * ```
+   */
+  public async writePendingDocuments(project: ProjectState): Promise<string[]> {
+    const pending = this.pendingDocuments.get(project);
+    if (!pending) {
+      return [];
+    }
+    this.pendingDocuments.delete(project);
+
+    for (const [filePath, content] of pending) {
+      await ensureDir(path.dirname(filePath));
+      if (this.config.documentSnapshots) {
+        await this.snapshotDocument(filePath);
+      }
+      await fs.writeFile(filePath, content, 'utf-8');
+    }
+    return [...pending.keys()];
+  }
+
+  /**
+   * Checks whether a document was edited by hand since it was last generated
+   * 
+   * @param project - Project state owning the document
+   * @param name - Document name
+   * @returns Promise resolving to true when the document differs from its recorded generated version
+   */
+  public async hasUnsyncedEdits(project: ProjectState, name: SyncDocumentName): Promise<boolean> {
+    const filePath = project.documents?.[name];
+    return filePath ? this.isEditedByHand(project, name, filePath) : false;
+  }
+
+  /**
+   * Writes a document whose hand edits can be synced back
+   * 
+   * The generated version is recorded in `project.documentSync` as the base
+   * for syncing. A document edited by hand since it was last generated is
+   * not overwritten, so that its edits survive until they are synced; without
+   * a recorded base the document is always written.
+   * 
+   * @param project - Project state owning the document
+   * @param name - Document name
+   * @param template - Template the document was rendered from
+   * @param content - Rendered document content
+   * @returns Promise resolving to the written or skipped document
+   */
+  private async writeSyncedDocument(project: ProjectState, name: SyncDocumentName, template: DocumentTemplate, content: string): Promise<GeneratedDocument> {
+    const hash = hashContent(content);
+    const existingPath = path.join(await this.getProjectDir(project), this.getDocumentFileName(template));
+    if (await this.isEditedByHand(project, name, existingPath)) {
+      logger.warn(`${existingPath} was edited by hand and is not regenerated until its edits are synced (action: sync)`, project.id);
+      return { filePath: existingPath, hash, skipped: true };
+    }
+
+    const filePath = await this.writeDocument(project, this.getDocumentFileName(template), content);
+    project.documentSync = {
+      ...project.documentSync,
+      [name]: { hash, fields: DocumentSync.parse(name, content) }
+    };
+    return { filePath, hash, skipped: false };
+  }
+
+  /**
+   * Compares a document on disk with its recorded generated version
+   * 
+   * @param project - Project state owning the document
+   * @param name - Document name
+   * @param filePath - Path of the document
+   * @returns Promise resolving to true when the document exists and differs from the recorded version
+   */
+  private async isEditedByHand(project: ProjectState, name: SyncDocumentName, filePath: string): Promise<boolean> {
+    const base = project.documentSync?.[name];
+    if (!base || this.pendingDocuments.get(project)?.has(filePath)) {
+      return false;
+    }
+    try {
+      return hashContent(await fs.readFile(filePath, 'utf-8')) !== base.hash;
+    } catch {
+      // A missing document is regenerated
+      return false;
+    }
+  }
+
+  /**
+   * Copies the current version of a document to the history directory
+   * 
+   * @param filePath - Path of the document within the spec directory
+   */
+  private async snapshotDocument(filePath: string): Promise<void> {
+    const dirPath = path.dirname(filePath);
+    const fileName = path.basename(filePath);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return;
+    }
+
+    const historyDir = path.join(dirPath, 'history');
+    await ensureDir(historyDir);
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const parsed = path.parse(fileName);
+    const snapshotPath = path.join(historyDir, `${parsed.name}_${timestamp}${parsed.ext}`);
+    await fs.copyFile(filePath, snapshotPath);
+    logger.debug(`Document snapshot created: ${snapshotPath}`);
   }
 
   /**
    * Renders a document template with provided data
    * 
-   * Processes template content by substituting variables, handling conditional
-   * blocks, processing loops, and performing basic mathematical operations.
-   * Supports Handlebars-like syntax for dynamic content generation.
+   * Delegates to the Handlebars-compatible {@link TemplateEngine}, which
+   * supports nested `#if`/`#unless`/`#each`/`#with` blocks with `{{else}}`,
+   * dotted paths such as `{{tasks.length}}`, iteration data such as
+   * `@index` and `@last`, and registered helpers such as
+   * `{{math taskStats.completed '/' taskStats.total '*' 100}}`.
    * 
-   * Supported features:
-   * - Variable substitution: {{variableName}}
-   * - Conditional blocks: {{#if condition}}...{{/if}}
-   * - Array iteration: {{#each array}}...{{/each}}
-   * - Mathematical operations: {{math a '/' b '*' c}}
+   * Project data is stored raw; `{{value}}` output is escaped for the
+   * template's output format, while `{{{value}}}` inserts content that is
+   * already in that format (e.g. Markdown design sections) unchanged.
    * 
    * @param template - Document template with placeholders
    * @param data - Data object containing values for template variables
    * @returns Rendered template content as string
+   * @throws {DevelopmentFlowError} When the template is malformed or a helper is missing
    * 
    * @example
    * ```typescript
@@ -436,56 +941,116 @@ Project "{{projectName}}" has successfully completed all predetermined objective
    * ```
    */
   private renderTemplate(template: DocumentTemplate, data: any): string {
-    let content = template.content;
-    
-    // Simple template rendering (replace variables)
-    content = content.replace(/\{\{(\w+)\}\}/g, (_match: string, key: string) => {
-      return data[key] || '';
-    });
+    return this.engine.render(template.content, data, escapeForFormat(this.getTemplateFormat(template)));
+  }
 
-    // Handle conditional statements {{#if variable}}
-    content = content.replace(/\{\{#if (\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g, (_match: string, key: string, block: string) => {
-      return data[key] ? block : '';
-    });
+  /**
+   * Gets the output format of a template
+   * 
+   * @param template - Document template
+   * @returns Declared format, or the format inferred from the output file name
+   */
+  private getTemplateFormat(template: DocumentTemplate): OutputFormat {
+    return template.format ?? inferOutputFormat(this.getDocumentFileName(template));
+  }
 
-    // Handle loop statements {{#each array}}
-    content = content.replace(/\{\{#each (\w+)\}\}([\s\S]*?)\{\{\/each\}\}/g, (_match: string, key: string, block: string) => {
-      const array = data[key];
-      if (!Array.isArray(array)) return '';
-      
-      return array.map((item: any) => {
-        let itemBlock = block;
-        // Replace {{this}} with current item
-        itemBlock = itemBlock.replace(/\{\{this\}\}/g, typeof item === 'string' ? item : JSON.stringify(item));
-        // Replace object properties
-        if (typeof item === 'object' && item !== null) {
-          itemBlock = itemBlock.replace(/\{\{(\w+)\}\}/g, (_propMatch: string, propKey: string) => {
-            return item[propKey] || '';
-          });
-        }
-        return itemBlock;
-      }).join('');
-    });
+  /**
+   * Builds the data object templates are rendered with
+   * 
+   * Exposes all project state fields plus `projectName`, the generation
+   * `timestamp`, the task counts as `taskStats` and, for templates written
+   * before task status tracking, the `completedTasks` ID list. Every task
+   * carries a valid `status`.
+   * 
+   * `taskOutline` lists the tasks in hierarchy order, parents before their
+   * subtasks, each with its outline `number` ('1.2'), `depth`, an `indent`
+   * of two spaces per level for nested Markdown lists, `hasSubtasks`, and
+   * the `completionRate` and `estimatedHours` rolled up from its subtasks.
+   * `timeReport` compares estimated and actual hours.
+   * 
+   * `requirementsByKind` groups the requirement items with their IDs by
+   * requirement kind, and `stories` lists the user stories with their `id`,
+   * sentence `text` and acceptance `criteria` items; `traceability` traces each of them to the design and
+   * the tasks, with coverage counts in `traceabilitySummary`. `staleDesign`
+   * lists the design sections a change request may have made outdated, with
+   * the change request's ID and reason.
+   * 
+   * @param project - Project state to render
+   * @returns Template data
+   */
+  private buildTemplateData(project: ProjectState): Record<string, unknown> {
+    const tasks = (project.tasks || []).map(task => ({ ...task, status: TaskManager.getStatus(task) }));
+
+    const taskOutline = TaskManager.flattenTaskTree(TaskManager.getTaskTree(tasks)).map(node => ({
+      ...node.task,
+      number: node.number,
+      depth: node.depth,
+      indent: '  '.repeat(node.depth),
+      hasSubtasks: node.children.length > 0,
+      completionRate: node.completionRate,
+      ...(node.estimatedHours !== undefined && { estimatedHours: node.estimatedHours })
+    }));
 
-    // Handle mathematical operations (simple implementation)
-    content = content.replace(/\{\{math ([\d.]+) '([+\-*/])' ([\d.]+) '\*' ([\d.]+)\}\}/g, (_match: string, a: string, op: string, b: string, c: string) => {
-      const numA = parseFloat(a);
-      const numB = parseFloat(b);
-      const numC = parseFloat(c);
-      
-      let result = 0;
-      switch (op) {
-        case '/':
-          result = (numA / numB) * numC;
-          break;
-        default:
-          result = 0;
+    const items = project.requirementItems || [];
+    const requirementsByKind: Record<RequirementKind, RequirementItem[]> = { story: [], requirement: [], functional: [], technical: [], acceptance: [] };
+    for (const item of items) {
+      if (!item.storyId) {
+        requirementsByKind[item.kind].push(item);
       }
-      
-      return Math.round(result).toString();
+    }
+
+    const stories = (project.userStories || []).map((story, index) => {
+      const item = requirementsByKind.story[index];
+      return {
+        ...story,
+        ...(item && { id: item.id, text: item.text }),
+        criteria: items.filter(criterion => item && criterion.storyId === item.id)
+      };
     });
 
-    return content;
+    const traceability = RequirementManager.getTraceability(project);
+
+    const staleDesign = Object.entries(project.staleDesignSections || {}).map(([section, changeRequest]) => ({
+      section,
+      changeRequest,
+      reason: project.changeRequests?.find(change => change.id === changeRequest)?.reason
+    }));
+
+    return {
+      ...project,
+      tasks,
+      taskOutline,
+      requirementsByKind,
+      stories,
+      staleDesign,
+      traceability,
+      traceabilitySummary: {
+        total: traceability.length,
+        designed: traceability.filter(trace => trace.designSections.length > 0).length,
+        planned: traceability.filter(trace => trace.status !== 'unplanned').length,
+        completed: traceability.filter(trace => trace.status === 'completed').length
+      },
+      completedTasks: tasks.filter(task => task.status === 'completed').map(task => task.id),
+      taskStats: TaskManager.getStats(tasks),
+      timeReport: TaskManager.getTimeReport(tasks),
+      projectName: project.name,
+      timestamp: formatTimestamp()
+    };
+  }
+
+  /**
+   * Registers a template helper available to all templates
+   * 
+   * @param name - Helper name used in templates
+   * @param helper - Helper function receiving the evaluated arguments and helper options
+   * 
+   * @example
+   * ```typescript
+   * generator.registerHelper('upper', value => String(value).toUpperCase());
+   * ```
+   */
+  public registerHelper(name: string, helper: TemplateHelper): void {
+    this.engine.registerHelper(name, helper);
   }
 
   /**
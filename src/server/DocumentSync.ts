@@ -0,0 +1,312 @@
+import { DevelopmentFlowInput, SyncConflict, SyncDocumentName, TaskInput, UserStoryInput } from '../types/index.js';
+import { unescapeMarkdown } from '../utils/index.js';
+
+/** Documents `sync` imports edits from, in import order */
+export const SYNC_DOCUMENTS: SyncDocumentName[] = ['requirement', 'design', 'todo'];
+
+/** Requirement lists keyed by their heading in the requirement document */
+const REQUIREMENT_HEADINGS: Record<string, 'requirements' | 'functionalRequirements' | 'technicalRequirements' | 'acceptanceCriteria'> = {
+  'Core Requirements': 'requirements',
+  'Functional Requirements': 'functionalRequirements',
+  'Technical Requirements': 'technicalRequirements',
+  'Acceptance Criteria': 'acceptanceCriteria'
+};
+
+/** Design sections keyed by their heading in the design document */
+const DESIGN_HEADINGS: Record<string, 'architecture' | 'implementation' | 'systemDesign' | 'dataStructures' | 'interfaces' | 'deployment'> = {
+  'Technical Architecture': 'architecture',
+  'Implementation Plan': 'implementation',
+  'System Design': 'systemDesign',
+  'Data Structures': 'dataStructures',
+  'Interface Design': 'interfaces',
+  'Deployment Plan': 'deployment'
+};
+
+/** Headings of the design document that end a design section without starting one */
+const DESIGN_BOUNDARIES = ['Project Information', 'Pending Requirement Changes'];
+
+/** Top-level list item, optionally prefixed with a bold ID: '- **REQ-1**: text' */
+const LIST_ITEM = /^- (?:\*\*[\w-]+\*\*: )?(.*)$/;
+
+/** Task line of the task document: '  - [x] 1.2 **task_001**: Title' */
+const TASK_LINE = /^( *)- \[([ xX])\] (?:[\d.]+ )?\*\*([\w-]+)\*\*: (.*)$/;
+
+/** User story sentence as written by {@link RequirementManager.formatStory} */
+const STORY_SENTENCE = /^As an? (.+?), I want (.+?)(?:, so that (.+))?$/s;
+
+/** Generation footer of the built-in templates */
+const FOOTER = /\n---\n\*(?:Document|Report) generated at:[^\n]*\s*$/;
+
+/**
+ * Synchronizer importing hand edits of generated documents
+ *
+ * Parses the requirement, design and task documents of the built-in
+ * templates back into flat fields and merges them three ways: the
+ * document, the project state rendered the same way, and the fields of the
+ * document as last generated. A field changed only in the document is
+ * imported, a field changed on both sides to different values is a
+ * conflict. Fields a document does not contain (e.g. with a custom
+ * template) are left alone. Task lines whose ID the project state does not
+ * know are found by {@link findUnknownTasks}, as they cannot be merged.
+ *
+ * @example
+ * ```typescript
+ * const fields = DocumentSync.parse('todo', content);
+ * const { changes, conflicts } = DocumentSync.merge(base.fields, fields, stateFields);
+ * ```
+ */
+export class DocumentSync {
+  /**
+   * Parses the syncable fields of a generated document
+   *
+   * @param name - Document name
+   * @param content - Document content
+   * @returns Fields by name, see {@link DocumentSyncBase}
+   */
+  static parse(name: SyncDocumentName, content: string): Record<string, string> {
+    const lines = content.replace(FOOTER, '').split(/\r?\n/);
+    switch (name) {
+      case 'requirement':
+        return this.parseRequirementDocument(lines);
+      case 'design':
+        return this.parseDesignDocument(lines);
+      case 'todo':
+        return this.parseTodoDocument(lines);
+    }
+  }
+
+  /**
+   * Parses the requirement lists and user stories of a requirement document
+   *
+   * @param lines - Document lines without the footer
+   * @returns Requirement lists and `userStories` as JSON
+   */
+  private static parseRequirementDocument(lines: string[]): Record<string, string> {
+    const lists: Record<string, string[]> = {};
+    const stories: Array<{ story: string; acceptanceCriteria: string[] }> = [];
+    let section = '';
+
+    for (const line of lines) {
+      const heading = /^## (.+?)\s*$/.exec(line);
+      if (heading) {
+        section = heading[1]!;
+        const field = REQUIREMENT_HEADINGS[section];
+        if (field) {
+          lists[field] = lists[field] || [];
+        }
+        continue;
+      }
+
+      if (section === 'User Stories') {
+        const sentence = /^\*\*User Story\*\*: (.*)$/.exec(line);
+        const item = LIST_ITEM.exec(line);
+        if (/^### /.test(line)) {
+          stories.push({ story: '', acceptanceCriteria: [] });
+        } else if (sentence && stories.length > 0) {
+          stories[stories.length - 1]!.story = unescapeMarkdown(sentence[1]!.trim());
+        } else if (item && item[1]!.trim() && stories.length > 0) {
+          stories[stories.length - 1]!.acceptanceCriteria.push(unescapeMarkdown(item[1]!.trim()));
+        }
+        continue;
+      }
+
+      const field = REQUIREMENT_HEADINGS[section];
+      const item = LIST_ITEM.exec(line);
+      if (field && item && item[1]!.trim()) {
+        lists[field]!.push(unescapeMarkdown(item[1]!.trim()));
+      }
+    }
+
+    const fields: Record<string, string> = { userStories: JSON.stringify(stories) };
+    for (const [field, list] of Object.entries(lists)) {
+      fields[field] = JSON.stringify(list);
+    }
+    return fields;
+  }
+
+  /**
+   * Parses the sections of a design document
+   *
+   * A section runs from its heading to the next design heading. Design
+   * sections are Markdown, so other level-two headings belong to the section.
+   *
+   * @param lines - Document lines without the footer
+   * @returns Section text by section name
+   */
+  private static parseDesignDocument(lines: string[]): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let section: string | undefined;
+    let buffer: string[] = [];
+
+    const flush = () => {
+      if (section) {
+        fields[section] = buffer.join('\n').trim();
+      }
+      buffer = [];
+    };
+
+    for (const line of lines) {
+      const heading = /^## (.+?)\s*$/.exec(line)?.[1];
+      if (heading && (DESIGN_HEADINGS[heading] || DESIGN_BOUNDARIES.includes(heading))) {
+        flush();
+        section = DESIGN_HEADINGS[heading];
+        continue;
+      }
+      buffer.push(line);
+    }
+    flush();
+
+    return fields;
+  }
+
+  /**
+   * Parses the task lines of a task document
+   *
+   * @param lines - Document lines without the footer
+   * @returns `<taskId>.checked`, `.title`, `.description` and `.priority` of every task line
+   */
+  private static parseTodoDocument(lines: string[]): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let task: { id: string; detailPrefix: string } | undefined;
+
+    for (const line of lines) {
+      const match = TASK_LINE.exec(line);
+      if (match) {
+        const id = match[3]!;
+        task = { id, detailPrefix: `${match[1]}  - ` };
+        fields[`${id}.checked`] = String(match[2] !== ' ');
+        fields[`${id}.title`] = unescapeMarkdown(match[4]!.trim());
+        continue;
+      }
+      if (/^#/.test(line)) {
+        task = undefined;
+        continue;
+      }
+
+      const detail = task && line.startsWith(task.detailPrefix)
+        ? /^(Description|Priority):(.*)$/.exec(line.slice(task.detailPrefix.length))
+        : null;
+      if (task && detail) {
+        fields[`${task.id}.${detail[1]!.toLowerCase()}`] = unescapeMarkdown(detail[2]!.trim());
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * Merges document fields with the project state
+   *
+   * Only fields present in both the document and the state are compared.
+   *
+   * @param base - Fields of the document as last generated
+   * @param document - Fields of the document as edited
+   * @param state - Fields of the document rendered from the current project state
+   * @returns Fields to import, with the document value, and conflicting fields
+   */
+  static merge(
+    base: Record<string, string>,
+    document: Record<string, string>,
+    state: Record<string, string>
+  ): { changes: Record<string, string>; conflicts: Array<Omit<SyncConflict, 'document'>> } {
+    const changes: Record<string, string> = {};
+    const conflicts: Array<Omit<SyncConflict, 'document'>> = [];
+
+    for (const [field, stateValue] of Object.entries(state)) {
+      const documentValue = document[field];
+      const baseValue = base[field];
+      if (documentValue === undefined || documentValue === baseValue || documentValue === stateValue) {
+        continue;
+      }
+
+      if (stateValue === baseValue) {
+        changes[field] = documentValue;
+      } else {
+        conflicts.push({ field, documentValue, stateValue, ...(baseValue !== undefined && { baseValue }) });
+      }
+    }
+
+    return { changes, conflicts };
+  }
+
+  /**
+   * Finds the task lines of a task document whose task ID is unknown
+   *
+   * These lines were added or re-IDed by hand. Tasks that were in the
+   * document as last generated and have been removed from the project
+   * state since are not listed.
+   *
+   * @param base - Fields of the document as last generated
+   * @param document - Fields of the document as edited
+   * @param state - Fields of the document rendered from the current project state
+   * @returns Titles of the unknown task lines by task ID
+   */
+  static findUnknownTasks(
+    base: Record<string, string>,
+    document: Record<string, string>,
+    state: Record<string, string>
+  ): Map<string, string> {
+    const unknown = new Map<string, string>();
+    for (const [field, value] of Object.entries(document)) {
+      if (field.endsWith('.title') && base[field] === undefined && state[field] === undefined) {
+        unknown.set(field.slice(0, -'.title'.length), value);
+      }
+    }
+    return unknown;
+  }
+
+  /**
+   * Converts a changed requirement field into requirement input
+   *
+   * @param field - Requirement list name or 'userStories'
+   * @param value - Field value as parsed by {@link parse}
+   * @returns Input setting the field, or the reasons the value cannot be imported
+   */
+  static toRequirementInput(field: string, value: string): { input: Partial<DevelopmentFlowInput>; errors: string[] } {
+    if (field !== 'userStories') {
+      return { input: { [field]: JSON.parse(value) as string[] }, errors: [] };
+    }
+
+    const errors: string[] = [];
+    const userStories: UserStoryInput[] = [];
+    for (const entry of JSON.parse(value) as Array<{ story: string; acceptanceCriteria: string[] }>) {
+      const match = STORY_SENTENCE.exec(entry.story);
+      if (!match) {
+        errors.push(`User story '${entry.story}' does not match 'As a <role>, I want <goal>[, so that <benefit>]'`);
+        continue;
+      }
+      userStories.push({
+        role: match[1]!,
+        goal: match[2]!,
+        ...(match[3] && { benefit: match[3] }),
+        acceptanceCriteria: entry.acceptanceCriteria
+      });
+    }
+    return { input: { userStories }, errors };
+  }
+
+  /**
+   * Groups changed task fields by task
+   *
+   * @param changes - Changed fields of the task document
+   * @returns Task field changes and the checkbox state by task ID
+   */
+  static toTaskChanges(changes: Record<string, string>): Map<string, { fields: TaskInput; checked?: boolean }> {
+    const tasks = new Map<string, { fields: TaskInput; checked?: boolean }>();
+
+    for (const [key, value] of Object.entries(changes)) {
+      const separator = key.lastIndexOf('.');
+      const id = key.slice(0, separator);
+      const field = key.slice(separator + 1);
+      const task = tasks.get(id) || { fields: {} };
+      if (field === 'checked') {
+        task.checked = value === 'true';
+      } else {
+        task.fields = { ...task.fields, [field]: value };
+      }
+      tasks.set(id, task);
+    }
+
+    return tasks;
+  }
+}
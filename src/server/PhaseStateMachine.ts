@@ -0,0 +1,219 @@
+import { DevelopmentPhase, DevelopmentFlowError, ProjectState } from '../types/index.js';
+import { formatTimestamp, logger } from '../utils/index.js';
+
+/**
+ * Workflow actions allowed from each phase
+ *
+ * The CONFIRMATION phase is resolved through {@link CONFIRMED_TRANSITIONS}
+ * because what may follow a confirmation depends on which phase was confirmed.
+ * STATUS is read-only and therefore always allowed.
+ */
+export const PHASE_TRANSITIONS: Record<DevelopmentPhase, DevelopmentPhase[]> = {
+  [DevelopmentPhase.INIT]: [DevelopmentPhase.REQUIREMENT],
+  [DevelopmentPhase.REQUIREMENT]: [DevelopmentPhase.REQUIREMENT, DevelopmentPhase.CONFIRMATION],
+  [DevelopmentPhase.CONFIRMATION]: [],
+  [DevelopmentPhase.DESIGN]: [DevelopmentPhase.DESIGN, DevelopmentPhase.CONFIRMATION],
+  [DevelopmentPhase.TODO]: [DevelopmentPhase.TODO, DevelopmentPhase.CONFIRMATION],
+  [DevelopmentPhase.TASK_COMPLETE]: [DevelopmentPhase.TASK_COMPLETE, DevelopmentPhase.FINISH],
+  [DevelopmentPhase.STATUS]: [],
+  [DevelopmentPhase.FINISH]: []
+};
+
+/**
+ * Workflow actions allowed after a confirmation, keyed by the confirmed phase
+ *
+ * A confirmed design or task list may still be revised, which then requires
+ * a new confirmation. Confirmed requirements change through a change request.
+ */
+export const CONFIRMED_TRANSITIONS: Partial<Record<DevelopmentPhase, DevelopmentPhase[]>> = {
+  [DevelopmentPhase.REQUIREMENT]: [DevelopmentPhase.DESIGN],
+  [DevelopmentPhase.DESIGN]: [DevelopmentPhase.TODO, DevelopmentPhase.DESIGN],
+  [DevelopmentPhase.TODO]: [DevelopmentPhase.TASK_COMPLETE, DevelopmentPhase.FINISH, DevelopmentPhase.TODO]
+};
+
+/**
+ * Phases whose output is reviewed through the confirmation action
+ */
+export const CONFIRMABLE_PHASES: DevelopmentPhase[] = [
+  DevelopmentPhase.REQUIREMENT,
+  DevelopmentPhase.DESIGN,
+  DevelopmentPhase.TODO
+];
+
+/**
+ * Phases whose approval builds on the approval of each confirmable phase
+ */
+export const DEPENDENT_PHASES: Partial<Record<DevelopmentPhase, DevelopmentPhase[]>> = {
+  [DevelopmentPhase.REQUIREMENT]: [DevelopmentPhase.DESIGN, DevelopmentPhase.TODO],
+  [DevelopmentPhase.DESIGN]: [DevelopmentPhase.TODO]
+};
+
+/**
+ * Approvals that must exist before an action may run
+ */
+export const REQUIRED_APPROVALS: Partial<Record<DevelopmentPhase, DevelopmentPhase[]>> = {
+  [DevelopmentPhase.DESIGN]: [DevelopmentPhase.REQUIREMENT],
+  [DevelopmentPhase.TODO]: [DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN],
+  [DevelopmentPhase.TASK_COMPLETE]: [DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN, DevelopmentPhase.TODO],
+  [DevelopmentPhase.FINISH]: [DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN, DevelopmentPhase.TODO]
+};
+
+/**
+ * Phase state machine for development flow projects
+ *
+ * Enforces the "requirements → confirm → design → confirm → tasks" contract
+ * using the declarative tables above. Illegal transitions raise a
+ * `PHASE_TRANSITION_INVALID` error listing the allowed next actions, and
+ * actions whose earlier phases were not approved raise `APPROVAL_REQUIRED`.
+ * Passing `force` bypasses both checks and records an audit entry on the project.
+ *
+ * @example
+ * ```typescript
+ * PhaseStateMachine.assertTransition(project, DevelopmentPhase.DESIGN, input.force);
+ * const next = PhaseStateMachine.getAllowedActions(project);
+ * ```
+ */
+export class PhaseStateMachine {
+  /**
+   * Gets the workflow actions allowed from the project's current phase
+   *
+   * @param project - Project whose phase is evaluated
+   * @returns Allowed workflow actions (STATUS is always allowed and not listed)
+   */
+  static getAllowedActions(project: ProjectState): DevelopmentPhase[] {
+    if (project.phase === DevelopmentPhase.CONFIRMATION) {
+      return project.confirmedPhase ? CONFIRMED_TRANSITIONS[project.confirmedPhase] || [] : [];
+    }
+    return PHASE_TRANSITIONS[project.phase] || [];
+  }
+
+  /**
+   * Gets the approvals an action requires but the project does not have
+   *
+   * @param project - Project whose approvals are checked
+   * @param action - Workflow action about to be executed
+   * @returns Phases whose approval is missing
+   */
+  static getMissingApprovals(project: ProjectState, action: DevelopmentPhase): DevelopmentPhase[] {
+    return (REQUIRED_APPROVALS[action] || []).filter(phase => !project.approvals?.[phase]);
+  }
+
+  /**
+   * Verifies that an action is legal from the project's current phase
+   *
+   * When the transition is illegal or required approvals are missing and
+   * `force` is set, the override is logged and appended to the project's
+   * `phaseOverrides` audit trail (persisted with the next save) instead of
+   * raising an error.
+   *
+   * @param project - Project the action is applied to
+   * @param action - Workflow action about to be executed
+   * @param force - Whether to bypass the checks
+   * @throws {DevelopmentFlowError} PHASE_TRANSITION_INVALID when the transition is illegal and not forced
+   * @throws {DevelopmentFlowError} APPROVAL_REQUIRED when earlier phases are not approved and not forced
+   */
+  static assertTransition(project: ProjectState, action: DevelopmentPhase, force?: boolean): void {
+    if (action === DevelopmentPhase.STATUS) {
+      return;
+    }
+
+    const allowed = this.getAllowedActions(project);
+    const missingApprovals = this.getMissingApprovals(project, action);
+    const transitionAllowed = allowed.includes(action);
+    if (transitionAllowed && missingApprovals.length === 0) {
+      return;
+    }
+
+    if (force) {
+      logger.warn(`Forced phase transition: ${project.phase} -> ${action}`, project.id, { allowed, missingApprovals });
+      project.phaseOverrides = [
+        ...(project.phaseOverrides || []),
+        {
+          from: project.phase,
+          action,
+          allowed,
+          ...(missingApprovals.length > 0 && { missingApprovals }),
+          timestamp: formatTimestamp()
+        }
+      ];
+      return;
+    }
+
+    if (!transitionAllowed) {
+      const from = project.phase === DevelopmentPhase.CONFIRMATION && project.confirmedPhase
+        ? `${project.phase} (${project.confirmedPhase})`
+        : project.phase;
+      throw new DevelopmentFlowError(
+        `Action '${action}' is not allowed in phase '${from}'. Allowed next actions: ${allowed.length > 0 ? allowed.join(', ') : 'none'}. Use force: true to override.`,
+        'PHASE_TRANSITION_INVALID',
+        project.phase,
+        project.id,
+        { allowedActions: allowed }
+      );
+    }
+
+    throw new DevelopmentFlowError(
+      `Action '${action}' requires approval of: ${missingApprovals.join(', ')}. Confirm these phases first (action: confirmation) or use force: true to override.`,
+      'APPROVAL_REQUIRED',
+      project.phase,
+      project.id,
+      { missingApprovals }
+    );
+  }
+
+  /**
+   * Gets the phase a confirmation leaves the project at
+   *
+   * Approvals of later phases that a reopening kept still hold, so
+   * confirming the reopened phase again resumes after the last phase
+   * approved in sequence, e.g. re-confirmed requirements return a project
+   * with an approved design and task list to task execution.
+   *
+   * @param project - Project whose approvals are checked
+   * @param phase - Phase being confirmed
+   * @returns The confirmed phase, or the last approved phase following it
+   */
+  static getConfirmedPhase(project: ProjectState, phase: DevelopmentPhase): DevelopmentPhase {
+    let confirmed = phase;
+    for (const next of CONFIRMABLE_PHASES.slice(CONFIRMABLE_PHASES.indexOf(phase) + 1)) {
+      if (!project.approvals?.[next]) {
+        break;
+      }
+      confirmed = next;
+    }
+    return confirmed;
+  }
+
+  /**
+   * Reopens an approved phase for changes
+   *
+   * Moves the project back to the phase and revokes its approval, together
+   * with the approvals of the affected dependent phases and of the phases
+   * building on those, e.g. a revoked design approval revokes the task list
+   * approval. Unaffected dependent phases keep their approval.
+   *
+   * @param project - Project whose phase is reopened
+   * @param phase - Confirmable phase to reopen
+   * @param affected - Dependent phases (see {@link DEPENDENT_PHASES}) affected by the change
+   * @returns Phases whose approval was revoked
+   */
+  static reopen(project: ProjectState, phase: DevelopmentPhase, affected: DevelopmentPhase[] = []): DevelopmentPhase[] {
+    const dependents = DEPENDENT_PHASES[phase] || [];
+    const toRevoke = new Set([phase]);
+    for (const dependent of affected.filter(candidate => dependents.includes(candidate))) {
+      toRevoke.add(dependent);
+      (DEPENDENT_PHASES[dependent] || []).forEach(next => toRevoke.add(next));
+    }
+
+    const revoked = [...toRevoke].filter(revokedPhase => project.approvals?.[revokedPhase]);
+    for (const revokedPhase of revoked) {
+      delete project.approvals![revokedPhase];
+    }
+    if (revoked.length > 0) {
+      logger.info(`Phase ${phase} reopened, approvals revoked: ${revoked.join(', ')}`, project.id);
+    }
+
+    project.phase = phase;
+    return revoked;
+  }
+}
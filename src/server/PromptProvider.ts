@@ -0,0 +1,356 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { DevelopmentPhase, ProjectState, DevelopmentFlowError } from '../types/index.js';
+import { REQUIREMENT_FIELDS } from './RequirementManager.js';
+import { StateManager } from './StateManager.js';
+import { TaskManager } from './TaskManager.js';
+
+/**
+ * Definition of a phase prompt published over MCP
+ */
+interface PhasePrompt {
+  /** Development phase the prompt guides */
+  phase: DevelopmentPhase;
+  /** Prompt name as listed to clients */
+  name: string;
+  /** Short description of what the prompt asks the agent to do */
+  description: string;
+  /** Builds the prompt instructions from the project state */
+  build: (project: ProjectState | null) => string;
+}
+
+/**
+ * Formats a titled Markdown bullet list, or an empty string for empty lists
+ *
+ * @param title - Section title
+ * @param items - List items
+ * @returns Markdown section text
+ */
+function formatList(title: string, items?: string[]): string {
+  if (!items || items.length === 0) {
+    return '';
+  }
+  return `### ${title}\n${items.map(item => `- ${item}`).join('\n')}\n\n`;
+}
+
+/**
+ * Formats a titled Markdown text section, or an empty string for empty text
+ *
+ * @param title - Section title
+ * @param text - Section body
+ * @returns Markdown section text
+ */
+function formatSection(title: string, text?: string): string {
+  return text ? `### ${title}\n${text}\n\n` : '';
+}
+
+/**
+ * Formats the project header shared by all phase prompts
+ *
+ * @param project - Project state or null when no project is active
+ * @returns Markdown header text
+ */
+function formatProject(project: ProjectState | null): string {
+  if (!project) {
+    return 'No project is currently active.\n\n';
+  }
+  return `Project: **${project.name}** (ID: ${project.id}, current phase: ${project.phase})\n` +
+    (project.description ? `Description: ${project.description}\n` : '') + '\n';
+}
+
+/**
+ * Formats all requirement lists of a project, prefixing entries with their IDs
+ *
+ * The requirements are only labeled as confirmed while the requirement
+ * phase is approved.
+ *
+ * @param project - Project state or null
+ * @returns Markdown text with all requirement sections
+ */
+function formatRequirements(project: ProjectState | null): string {
+  if (!project) {
+    return '';
+  }
+  const items = project.requirementItems || [];
+  const list = (kind: keyof typeof REQUIREMENT_FIELDS): string[] | undefined => {
+    const listed = items.filter(item => item.kind === kind && !item.storyId);
+    return listed.length > 0 ? listed.map(item => `${item.id}: ${item.text}`) : project[REQUIREMENT_FIELDS[kind]];
+  };
+  const stories = items.filter(item => item.kind === 'story').map(story =>
+    `- ${story.id}: ${story.text}` +
+    items.filter(item => item.storyId === story.id).map(item => `\n  - ${item.id}: ${item.text}`).join('')
+  );
+  const text = (stories.length > 0 ? `### User Stories\n${stories.join('\n')}\n\n` : '') +
+    formatList('Core Requirements', list('requirement')) +
+    formatList('Functional Requirements', list('functional')) +
+    formatList('Technical Requirements', list('technical')) +
+    formatList('Acceptance Criteria', list('acceptance'));
+  if (!text) {
+    return '';
+  }
+  return project.approvals?.[DevelopmentPhase.REQUIREMENT]
+    ? `## Confirmed Requirements\n\n${text}`
+    : `## Requirements (not confirmed yet)\n\n${text}`;
+}
+
+/**
+ * Formats all design sections of a project
+ *
+ * @param project - Project state or null
+ * @returns Markdown text with all design sections
+ */
+function formatDesign(project: ProjectState | null): string {
+  if (!project) {
+    return '';
+  }
+  const text = formatSection('Technical Architecture', project.architecture) +
+    formatSection('Implementation Plan', project.implementation) +
+    formatSection('System Design', project.systemDesign) +
+    formatSection('Data Structures', project.dataStructures) +
+    formatSection('Interface Design', project.interfaces) +
+    formatSection('Deployment Plan', project.deployment);
+  return text ? `## Design\n\n${text}` : '';
+}
+
+/**
+ * Formats the task list of a project as a nested checklist with task status
+ *
+ * @param project - Project state or null
+ * @returns Markdown checklist of tasks
+ */
+function formatTasks(project: ProjectState | null): string {
+  const tasks = project?.tasks || [];
+  if (tasks.length === 0) {
+    return '';
+  }
+  const lines = TaskManager.flattenTaskTree(TaskManager.getTaskTree(tasks)).map(({ task, number, depth }) => {
+    const status = TaskManager.getStatus(task);
+    const note = status === 'blocked' && task.blockedReason ? `blocked: ${task.blockedReason}` : status;
+    return `${'  '.repeat(depth)}- [${status === 'completed' ? 'x' : ' '}] ${number} **${task.id}** (${task.priority}, ${note}): ${task.title}`;
+  });
+  return `## Tasks\n\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Formats the open reviewer feedback of a phase
+ *
+ * @param project - Project state or null
+ * @param phase - Phase whose feedback is listed
+ * @returns Markdown section asking the agent to address the feedback
+ */
+function formatFeedback(project: ProjectState | null, phase: DevelopmentPhase): string {
+  const open = (project?.feedback?.[phase] || []).filter(item => item.status === 'open');
+  if (open.length === 0) {
+    return '';
+  }
+  const lines = open.map(item => `- [${item.id}]${item.section ? ` (${item.section})` : ''} ${item.text}`);
+  return '## Open Review Feedback\n\nThe previous version was rejected. Address every item below and pass the ' +
+    `addressed IDs as \`addressedFeedback\`:\n\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Prompt definitions, one per development phase
+ */
+const PHASE_PROMPTS: PhasePrompt[] = [
+  {
+    phase: DevelopmentPhase.INIT,
+    name: 'start-project',
+    description: 'Start a new structured development flow',
+    build: () =>
+      'Start a new development flow.\n\n' +
+      'Choose a short project name (letters, numbers, spaces, hyphens and underscores only) and call ' +
+      'the `development_flow` tool with `action: "init"` and `projectName`.'
+  },
+  {
+    phase: DevelopmentPhase.REQUIREMENT,
+    name: 'write-requirements',
+    description: 'Analyse the user request and record structured requirements',
+    build: project =>
+      formatProject(project) +
+      formatFeedback(project, DevelopmentPhase.REQUIREMENT) +
+      'Analyse what the user wants to build. If any context is missing, ask the user before proceeding.\n\n' +
+      'Then call the `development_flow` tool with `action: "requirement"` and provide:\n' +
+      '- `description`: one paragraph summarising the goal\n' +
+      '- `requirements`: the core requirements\n' +
+      '- `functionalRequirements`: observable behaviour the system must provide\n' +
+      '- `technicalRequirements`: technology choices and constraints\n' +
+      '- `userStories`: optionally, the requirements as user stories (`role`, `goal`, `benefit`) ' +
+      'with their own `acceptanceCriteria`\n' +
+      '- `acceptanceCriteria`: verifiable conditions for completion in EARS form ' +
+      '("WHEN <trigger> THEN the system SHALL <response>"), as text or as `{ trigger, condition, response }` objects\n\n' +
+      'Keep every item short, specific and testable, and avoid vague words such as "fast" or "user-friendly". ' +
+      'Resolve the linter `findings` returned by the call before asking for confirmation. ' +
+      'Once the requirements are confirmed, change them with `action: "change_request"`, the changed fields ' +
+      'and a `reason` instead.'
+  },
+  {
+    phase: DevelopmentPhase.CONFIRMATION,
+    name: 'review-phase',
+    description: 'Ask the user to review and approve the current phase output',
+    build: project =>
+      formatProject(project) +
+      'Share the document generated for the current phase with the user and wait for explicit approval. ' +
+      'Do not continue until the user has answered. If the user edited the document directly, import the ' +
+      'edits with `action: "sync"` first and resolve any reported conflicts with the user.\n\n' +
+      'Then call the `development_flow` tool with `action: "confirmation"`, `phase` set to the reviewed phase ' +
+      'and `confirmed` set to the user\'s decision.'
+  },
+  {
+    phase: DevelopmentPhase.DESIGN,
+    name: 'draft-design',
+    description: 'Draft a technical design from the confirmed requirements',
+    build: project =>
+      formatProject(project) +
+      formatRequirements(project) +
+      formatFeedback(project, DevelopmentPhase.DESIGN) +
+      'Draft a technical design that satisfies every requirement above, mentioning the IDs of the ' +
+      'requirements each section addresses (e.g. `REQ-1`) so the design can be traced back to them. ' +
+      'Call the `development_flow` tool with `action: "design"` and provide `architecture`, ' +
+      '`implementation`, `systemDesign`, `dataStructures`, `interfaces` and `deployment` as Markdown text. ' +
+      'After a requirement change request, revise the sections the design document marks as possibly outdated.'
+  },
+  {
+    phase: DevelopmentPhase.TODO,
+    name: 'break-down-tasks',
+    description: 'Break the confirmed design down into implementation tasks',
+    build: project =>
+      formatProject(project) +
+      formatRequirements(project) +
+      formatDesign(project) +
+      formatFeedback(project, DevelopmentPhase.TODO) +
+      'Break the design above down into small, ordered implementation tasks. ' +
+      'Call the `development_flow` tool with `action: "todo"` and a `tasks` array where each task has ' +
+      'a short `id` (e.g. `task_001`), `title`, `description`, `priority` (`low`, `medium` or `high`), ' +
+      '`estimatedHours` and, where needed, `dependencies` listing prerequisite task IDs and `parentId` ' +
+      'nesting the task under a parent task, and `requirementIds` listing the requirements the task implements. ' +
+      'Every requirement should be implemented by at least one task. ' +
+      'Dependencies must reference existing tasks and must not form cycles. When revising the list, send only ' +
+      'new tasks and changed fields of existing tasks (matched by `id`); remove tasks with `action: "task_remove"`.'
+  },
+  {
+    phase: DevelopmentPhase.TASK_COMPLETE,
+    name: 'execute-tasks',
+    description: 'Work through the task list one task at a time',
+    build: project =>
+      formatProject(project) +
+      formatTasks(project) +
+      'Work through the open tasks above, picking the next one with `action: "next"`, which lists the tasks ' +
+      'whose dependencies are completed. If anything is unclear, consult the user immediately. ' +
+      'Call the `development_flow` tool with the task\'s `taskId` and `action: "task_start"` before working on a task ' +
+      'and `action: "task_complete"` after finishing it. If a task cannot proceed, call `action: "task_block"` ' +
+      'with a `reason` and move on to the next task. Log work done outside a started task with ' +
+      '`action: "task_log"` and the `hours` spent.'
+  },
+  {
+    phase: DevelopmentPhase.STATUS,
+    name: 'report-status',
+    description: 'Summarise the current project progress for the user',
+    build: project =>
+      formatProject(project) +
+      'Call the `development_flow` tool with `action: "status"` and summarise the result for the user: ' +
+      'current phase, completion rate, open tasks and the recommended next step.'
+  },
+  {
+    phase: DevelopmentPhase.FINISH,
+    name: 'finish-project',
+    description: 'Verify completion and close the development flow',
+    build: project =>
+      formatProject(project) +
+      formatTasks(project) +
+      'Verify that every task above is complete and all acceptance criteria are met. ' +
+      'Then call the `development_flow` tool with `action: "finish"` and tell the user the cycle is finished.'
+  }
+];
+
+/**
+ * Prompt provider for development flow phases
+ *
+ * Publishes one MCP prompt per development phase. Each prompt is filled in
+ * from the current project state (for example, the confirmed requirements
+ * when drafting the design) so agents receive consistent instructions for
+ * calling the `development_flow` tool.
+ *
+ * @example
+ * ```typescript
+ * const provider = new PromptProvider(stateManager);
+ * const prompts = provider.listPrompts();
+ * const prompt = await provider.getPrompt('draft-design', {}, session.currentProject?.id);
+ * ```
+ */
+export class PromptProvider {
+  /** State manager used to load projects referenced by prompt arguments */
+  private stateManager: StateManager;
+
+  /**
+   * Creates a new PromptProvider instance
+   *
+   * @param stateManager - State manager holding the persisted projects
+   */
+  constructor(stateManager: StateManager) {
+    this.stateManager = stateManager;
+  }
+
+  /**
+   * Lists all phase prompts
+   *
+   * @returns Array of prompt descriptors
+   */
+  public listPrompts(): Prompt[] {
+    return PHASE_PROMPTS.map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: [
+        {
+          name: 'projectId',
+          description: 'Project to fill the prompt from (defaults to the current project)',
+          required: false
+        }
+      ]
+    }));
+  }
+
+  /**
+   * Renders a phase prompt for a project
+   *
+   * The project is loaded from the state manager, so the prompt reflects
+   * changes saved by other sessions or processes.
+   *
+   * @param name - Prompt name
+   * @param args - Prompt arguments, optionally containing `projectId`
+   * @param currentProjectId - ID of the project used when no `projectId` argument is given
+   * @returns Promise resolving to the rendered prompt
+   * @throws {DevelopmentFlowError} When the prompt or referenced project does not exist
+   */
+  public async getPrompt(
+    name: string,
+    args: Record<string, string> | undefined,
+    currentProjectId?: string
+  ): Promise<GetPromptResult> {
+    const prompt = PHASE_PROMPTS.find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new DevelopmentFlowError(`Unknown prompt: ${name}`, 'UNKNOWN_PROMPT');
+    }
+
+    let project: ProjectState | null = null;
+    const projectId = args?.projectId || currentProjectId;
+    if (projectId) {
+      await this.stateManager.ensureInitialized();
+      project = await this.stateManager.loadProjectState(projectId);
+      if (!project) {
+        throw new DevelopmentFlowError(`Project does not exist: ${projectId}`, 'PROJECT_NOT_FOUND', prompt.phase, projectId);
+      }
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: prompt.build(project)
+          }
+        }
+      ]
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import {
+  AcceptanceCriterion,
+  ChangeRequest,
+  ProjectState,
+  RequirementFinding,
+  RequirementItem,
+  RequirementKind,
+  RequirementTrace,
+  Task,
+  UserStory
+} from '../types/index.js';
+import { TaskManager } from './TaskManager.js';
+
+/**
+ * Requirement list of each requirement kind except user stories, in document order
+ */
+export const REQUIREMENT_FIELDS: Record<Exclude<RequirementKind, 'story'>, 'requirements' | 'functionalRequirements' | 'technicalRequirements' | 'acceptanceCriteria'> = {
+  requirement: 'requirements',
+  functional: 'functionalRequirements',
+  technical: 'technicalRequirements',
+  acceptance: 'acceptanceCriteria'
+};
+
+/** ID prefix of each requirement kind */
+const ID_PREFIXES: Record<RequirementKind, string> = {
+  story: 'US',
+  requirement: 'REQ',
+  functional: 'FR',
+  technical: 'TR',
+  acceptance: 'AC'
+};
+
+/**
+ * Vague words the linter flags because they cannot be verified
+ *
+ * Matched case-insensitively as whole words or phrases.
+ */
+const AMBIGUOUS_TERMS = [
+  'fast', 'quick', 'quickly', 'slow', 'responsive', 'efficient', 'user-friendly', 'easy', 'simple',
+  'intuitive', 'flexible', 'robust', 'scalable', 'seamless', 'appropriate', 'adequate', 'reasonable',
+  'sufficient', 'optimal', 'minimal', 'several', 'some', 'many', 'etc', 'as needed', 'if possible', 'and/or'
+];
+
+/** Design sections searched for requirement references */
+const DESIGN_SECTIONS = ['architecture', 'implementation', 'systemDesign', 'dataStructures', 'interfaces', 'deployment'] as const;
+
+/**
+ * Requirement manager for development flow projects
+ *
+ * Gives every user story, requirement and acceptance criterion a stable ID
+ * and traces the requirements to the design sections and tasks that realize
+ * them. The user stories and requirement lists of {@link ProjectState} stay
+ * the source of the text; `requirementItems` maps their entries to IDs and
+ * is rebuilt whenever they change. Design sections reference requirements by mentioning their
+ * ID, tasks through `Task.requirementIds`.
+ *
+ * @example
+ * ```typescript
+ * RequirementManager.assignIds(project);
+ * const matrix = RequirementManager.getTraceability(project);
+ * ```
+ */
+export class RequirementManager {
+  /**
+   * Rebuilds the requirement IDs of a project from its user stories and
+   * requirement lists
+   *
+   * Entries whose kind and text are unchanged keep their ID, acceptance
+   * criteria of a user story as long as they stay with the same story; new
+   * or edited entries get the next number of their kind's prefix. Numbers of
+   * removed entries are not reused. User stories come first, each followed
+   * by its acceptance criteria.
+   *
+   * @param project - Project whose user stories or requirement lists changed
+   * @returns The rebuilt requirement items
+   */
+  static assignIds(project: ProjectState): RequirementItem[] {
+    const previous = [...(project.requirementItems || [])];
+    const items: RequirementItem[] = [];
+
+    const counters = new Map<RequirementKind, number>();
+    for (const item of previous) {
+      const number = Number(item.id.slice(ID_PREFIXES[item.kind].length + 1)) || 0;
+      counters.set(item.kind, Math.max(counters.get(item.kind) ?? 0, number));
+    }
+
+    const assign = (kind: RequirementKind, text: string, storyId?: string): RequirementItem => {
+      const index = previous.findIndex(item => item.kind === kind && item.text === text && item.storyId === storyId);
+      const item = index >= 0
+        ? previous.splice(index, 1)[0]!
+        : { id: `${ID_PREFIXES[kind]}-${this.nextNumber(counters, kind)}`, kind, text, ...(storyId && { storyId }) };
+      items.push(item);
+      return item;
+    };
+
+    for (const story of project.userStories || []) {
+      const storyItem = assign('story', this.formatStory(story));
+      for (const criterion of story.acceptanceCriteria) {
+        assign('acceptance', criterion, storyItem.id);
+      }
+    }
+
+    for (const kind of Object.keys(REQUIREMENT_FIELDS) as Array<keyof typeof REQUIREMENT_FIELDS>) {
+      for (const text of project[REQUIREMENT_FIELDS[kind]] || []) {
+        assign(kind, text);
+      }
+    }
+
+    project.requirementItems = items;
+    return items;
+  }
+
+  /**
+   * Increments and returns the ID counter of a requirement kind
+   *
+   * @param counters - Highest number used per kind
+   * @param kind - Requirement kind
+   * @returns Next free number
+   */
+  private static nextNumber(counters: Map<RequirementKind, number>, kind: RequirementKind): number {
+    const next = (counters.get(kind) ?? 0) + 1;
+    counters.set(kind, next);
+    return next;
+  }
+
+  /**
+   * Formats a user story as a sentence
+   *
+   * @param story - User story
+   * @returns 'As a <role>, I want <goal>, so that <benefit>'
+   */
+  static formatStory(story: Pick<UserStory, 'role' | 'goal' | 'benefit'>): string {
+    const article = /^[aeiou]/i.test(story.role) ? 'an' : 'a';
+    return `As ${article} ${story.role}, I want ${story.goal}${story.benefit ? `, so that ${story.benefit}` : ''}`;
+  }
+
+  /**
+   * Converts a structured acceptance criterion to EARS text
+   *
+   * @param criterion - Validated acceptance criterion
+   * @returns EARS sentence, e.g. 'WHEN a user logs in THEN the system SHALL show the dashboard'
+   */
+  static formatCriterion(criterion: AcceptanceCriterion): string {
+    const trigger = criterion.trigger?.trim();
+    const condition = criterion.condition?.trim();
+    const response = criterion.response.trim().replace(/^shall\s+/i, '');
+
+    if (trigger) {
+      return `WHEN ${trigger}${condition ? ` AND ${condition}` : ''} THEN the system SHALL ${response}`;
+    }
+    if (condition) {
+      return `IF ${condition} THEN the system SHALL ${response}`;
+    }
+    return `The system SHALL ${response}`;
+  }
+
+  /**
+   * Checks the requirements of a project for common specification problems
+   *
+   * Flags ambiguous terms in every requirement, acceptance criteria without
+   * a SHALL clause, and requirements whose text repeats an earlier one
+   * (ignoring case, whitespace and trailing punctuation).
+   *
+   * @param project - Project whose requirement items are checked
+   * @returns Findings in document order, empty if the requirements are clean
+   */
+  static lint(project: ProjectState): RequirementFinding[] {
+    const findings: RequirementFinding[] = [];
+    const seen = new Map<string, string>();
+
+    for (const item of project.requirementItems || []) {
+      for (const term of AMBIGUOUS_TERMS) {
+        const pattern = new RegExp(`(^|[^\\w-])${term.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![\\w-])`, 'i');
+        if (pattern.test(item.text)) {
+          findings.push({ requirementId: item.id, rule: 'ambiguous_term', message: `${item.id} uses the ambiguous term '${term}'` });
+        }
+      }
+
+      if (item.kind === 'acceptance' && !/\bshall\b/i.test(item.text)) {
+        findings.push({
+          requirementId: item.id,
+          rule: 'missing_shall',
+          message: `${item.id} has no SHALL clause (EARS: WHEN <trigger> THEN the system SHALL <response>)`
+        });
+      }
+
+      const key = item.text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!;:,\s]+$/, '').trim();
+      const original = seen.get(key);
+      if (original) {
+        findings.push({ requirementId: item.id, rule: 'duplicate', message: `${item.id} duplicates ${original}` });
+      } else {
+        seen.set(key, item.id);
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Lists the requirement IDs referenced by tasks that do not exist
+   *
+   * @param project - Project holding the requirement items
+   * @param tasks - Tasks to check
+   * @returns Validation error messages, empty if every reference is known
+   */
+  static validateTaskReferences(project: ProjectState, tasks: Task[]): string[] {
+    const known = new Set((project.requirementItems || []).map(item => item.id));
+    const errors: string[] = [];
+
+    for (const task of tasks) {
+      const unknown = (task.requirementIds || []).filter(id => !known.has(id));
+      if (unknown.length > 0) {
+        errors.push(`Task ${task.id} references unknown requirement(s): ${unknown.join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Traces every requirement to the design and the tasks
+   *
+   * A design section covers a requirement when it mentions the requirement
+   * ID as a whole word, e.g. "Sessions are stored in Redis (REQ-2)".
+   *
+   * @param project - Project to trace
+   * @returns One trace per requirement item, in document order
+   */
+  static getTraceability(project: ProjectState): RequirementTrace[] {
+    const tasks = project.tasks || [];
+
+    return (project.requirementItems || []).map(item => {
+      const designSections = this.findDesignSections(project, item.id);
+      const implementing = tasks.filter(task => task.requirementIds?.includes(item.id));
+      const completed = implementing.filter(task => TaskManager.isCompleted(task)).length;
+
+      return {
+        ...item,
+        designSections,
+        tasks: implementing.map(task => ({ id: task.id, title: task.title, status: TaskManager.getStatus(task) })),
+        completionRate: implementing.length > 0 ? Math.round((completed / implementing.length) * 100) : 0,
+        status: implementing.length === 0 ? 'unplanned' : completed === implementing.length ? 'completed' : 'open'
+      };
+    });
+  }
+
+  /**
+   * Lists the design sections mentioning a requirement ID as a whole word
+   *
+   * @param project - Project holding the design
+   * @param id - Requirement ID, e.g. 'REQ-2'
+   * @returns Names of the mentioning design sections
+   */
+  private static findDesignSections(project: ProjectState, id: string): string[] {
+    const pattern = new RegExp(`(^|[^\\w-])${id}(?![\\w-])`);
+    return DESIGN_SECTIONS.filter(section => pattern.test(project[section] || ''));
+  }
+
+  /**
+   * Compares two versions of a project's requirement items by ID
+   *
+   * An edited entry gets a new ID, so it shows up as removed and added.
+   *
+   * @param before - Requirement items of the earlier version
+   * @param after - Requirement items of the later version
+   * @returns Items only present in the later and only in the earlier version
+   */
+  static diff(before: RequirementItem[], after: RequirementItem[]): { added: RequirementItem[]; removed: RequirementItem[] } {
+    const beforeIds = new Set(before.map(item => item.id));
+    const afterIds = new Set(after.map(item => item.id));
+    return {
+      added: after.filter(item => !beforeIds.has(item.id)),
+      removed: before.filter(item => !afterIds.has(item.id))
+    };
+  }
+
+  /**
+   * Finds the design sections and tasks that depend on requirements
+   *
+   * @param project - Project holding the design and tasks
+   * @param ids - Requirement IDs, typically the ones removed by a change
+   * @returns Names of the mentioning design sections and IDs of the referencing tasks
+   */
+  static findDependents(project: ProjectState, ids: string[]): { designSections: string[]; tasks: string[] } {
+    const designSections = new Set(ids.flatMap(id => this.findDesignSections(project, id)));
+    return {
+      designSections: DESIGN_SECTIONS.filter(section => designSections.has(section)),
+      tasks: (project.tasks || [])
+        .filter(task => task.requirementIds?.some(id => ids.includes(id)))
+        .map(task => task.id)
+    };
+  }
+
+  /**
+   * Marks the design sections and tasks of a change request as possibly outdated
+   *
+   * Tasks drop their references to the removed entries so that the task
+   * list stays valid; their `staleBy` mark tells which change request
+   * removed them. Marks of an earlier change request are overwritten.
+   *
+   * @param project - Project holding the design and tasks
+   * @param change - Change request with the dependents to mark
+   */
+  static markStale(project: ProjectState, change: ChangeRequest): void {
+    const removedIds = new Set(change.removed.map(item => item.id));
+
+    for (const section of change.staleDesignSections) {
+      project.staleDesignSections = { ...project.staleDesignSections, [section]: change.id };
+    }
+
+    for (const task of project.tasks || []) {
+      if (!change.staleTasks.includes(task.id)) {
+        continue;
+      }
+      task.staleBy = change.id;
+      const requirementIds = (task.requirementIds || []).filter(id => !removedIds.has(id));
+      if (requirementIds.length > 0) {
+        task.requirementIds = requirementIds;
+      } else {
+        delete task.requirementIds;
+      }
+    }
+  }
+
+  /**
+   * Lists the requirements no task implements
+   *
+   * @param project - Project to check
+   * @returns Requirement items without a referencing task
+   */
+  static getUnplanned(project: ProjectState): RequirementItem[] {
+    const referenced = new Set((project.tasks || []).flatMap(task => task.requirementIds || []));
+    return (project.requirementItems || []).filter(item => !referenced.has(item.id));
+  }
+}
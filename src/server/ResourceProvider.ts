@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Resource, ResourceTemplate, TextResourceContents } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectState, DevelopmentFlowError } from '../types/index.js';
+import { logger } from '../utils/index.js';
+import { StateManager } from './StateManager.js';
+
+/** URI scheme used for all development flow resources */
+const RESOURCE_SCHEME = 'kiro://';
+
+/**
+ * Resource provider for development flow projects
+ *
+ * Exposes persisted project state and generated project documents as MCP
+ * resources, so clients can attach specifications as context without direct
+ * filesystem access. Resources are addressed with stable URIs:
+ *
+ * - `kiro://projects/{projectId}/state` - JSON project state
+ * - `kiro://projects/{projectId}/docs/{fileName}` - Generated Markdown document
+ *
+ * @example
+ * ```typescript
+ * const provider = new ResourceProvider(stateManager);
+ * const resources = await provider.listResources();
+ * const contents = await provider.readResource('kiro://projects/proj_123/docs/design.md');
+ * ```
+ */
+export class ResourceProvider {
+  /** State manager used to look up stored projects */
+  private stateManager: StateManager;
+
+  /**
+   * Creates a new ResourceProvider instance
+   *
+   * @param stateManager - State manager holding the persisted projects
+   */
+  constructor(stateManager: StateManager) {
+    this.stateManager = stateManager;
+  }
+
+  /**
+   * Builds the resource URI for a project's state
+   *
+   * @param projectId - Unique project identifier
+   * @returns Resource URI for the project state
+   */
+  public static stateUri(projectId: string): string {
+    return `${RESOURCE_SCHEME}projects/${projectId}/state`;
+  }
+
+  /**
+   * Builds the resource URI for a generated project document
+   *
+   * @param projectId - Unique project identifier
+   * @param fileName - Document file name, e.g. 'design.md'
+   * @returns Resource URI for the document
+   */
+  public static documentUri(projectId: string, fileName: string): string {
+    return `${RESOURCE_SCHEME}projects/${projectId}/docs/${fileName}`;
+  }
+
+  /**
+   * Lists the URI templates understood by this provider
+   *
+   * @returns Array of resource templates
+   */
+  public listResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${RESOURCE_SCHEME}projects/{projectId}/state`,
+        name: 'Project state',
+        description: 'Persisted development flow state of a project',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: `${RESOURCE_SCHEME}projects/{projectId}/docs/{fileName}`,
+        name: 'Project document',
+        description: 'Generated requirement, design, todo or completion document of a project',
+        mimeType: 'text/markdown'
+      }
+    ];
+  }
+
+  /**
+   * Lists all readable resources across stored projects
+   *
+   * Every stored project contributes its state resource plus one resource
+   * per generated document recorded in its state.
+   *
+   * @returns Promise resolving to array of available resources
+   */
+  public async listResources(): Promise<Resource[]> {
+    await this.stateManager.ensureInitialized();
+    const projects = await this.stateManager.getAllProjects();
+    const resources: Resource[] = [];
+
+    for (const project of projects) {
+      resources.push({
+        uri: ResourceProvider.stateUri(project.id),
+        name: `${project.name} - state`,
+        description: `Development flow state of "${project.name}" (phase: ${project.phase})`,
+        mimeType: 'application/json'
+      });
+
+      for (const filePath of Object.values(project.documents || {})) {
+        const fileName = path.basename(filePath);
+        resources.push({
+          uri: ResourceProvider.documentUri(project.id, fileName),
+          name: `${project.name} - ${fileName}`,
+          mimeType: 'text/markdown'
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Reads the contents of a resource
+   *
+   * @param uri - Resource URI to read
+   * @returns Promise resolving to the text contents of the resource
+   * @throws {DevelopmentFlowError} When the URI is malformed or the resource does not exist
+   */
+  public async readResource(uri: string): Promise<TextResourceContents> {
+    const match = /^kiro:\/\/projects\/([^/]+)\/(state|docs\/([^/]+))$/.exec(uri);
+    if (!match) {
+      throw new DevelopmentFlowError(`Invalid resource URI: ${uri}`, 'INVALID_RESOURCE_URI');
+    }
+
+    const projectId = match[1]!;
+    const fileName = match[3];
+
+    await this.stateManager.ensureInitialized();
+    const project = await this.stateManager.loadProjectState(projectId);
+    if (!project) {
+      throw new DevelopmentFlowError(`Project does not exist: ${projectId}`, 'PROJECT_NOT_FOUND', undefined, projectId);
+    }
+
+    if (fileName === undefined) {
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(project, null, 2)
+      };
+    }
+
+    const filePath = this.findDocumentPath(project, fileName);
+    if (!filePath) {
+      throw new DevelopmentFlowError(
+        `Document '${fileName}' has not been generated for project ${projectId}`,
+        'RESOURCE_NOT_FOUND',
+        undefined,
+        projectId
+      );
+    }
+
+    try {
+      const text = await fs.readFile(filePath, 'utf-8');
+      logger.debug(`Resource read: ${uri}`);
+      return { uri, mimeType: 'text/markdown', text };
+    } catch (error) {
+      throw new DevelopmentFlowError(
+        `Failed to read document '${fileName}': ${error instanceof Error ? error.message : String(error)}`,
+        'RESOURCE_READ_ERROR',
+        undefined,
+        projectId
+      );
+    }
+  }
+
+  /**
+   * Finds the recorded file path of a generated document by file name
+   *
+   * @param project - Project state holding the generated document paths
+   * @param fileName - Document file name to look up
+   * @returns Absolute file path, or undefined if no such document was generated
+   */
+  private findDocumentPath(project: ProjectState, fileName: string): string | undefined {
+    return Object.values(project.documents || {}).find(filePath => path.basename(filePath) === fileName);
+  }
+}
@@ -1,7 +1,21 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { ProjectState, DevelopmentFlowConfig, DevelopmentFlowError } from '../types/index.js';
-import { ensureDir, readJsonFile, writeJsonFile, logger } from '../utils/index.js';
+import { ProjectState, ProjectQuery, DevelopmentFlowConfig, DevelopmentFlowError } from '../types/index.js';
+import { ensureDir, readJsonFile, writeJsonFile, writeFileAtomic, withFileLock, hashContent, unescapeHtmlEntities, logger } from '../utils/index.js';
+import { RequirementManager } from './RequirementManager.js';
+
+/**
+ * Current version of the stored project state format
+ * 
+ * - 1 (unversioned): user text was stored HTML-escaped by the former input sanitizer
+ * - 2: user text is stored raw and escaped per output format at render time
+ * - 3: task progress is tracked in `Task.status` instead of `completedTasks`
+ * - 4: requirements and acceptance criteria have stable IDs in `requirementItems`
+ */
+export const STATE_VERSION = 4;
+
+/** Age after which a temporary file of an atomic write is considered left over by a crash */
+const STALE_TEMP_FILE_AGE = 60 * 60 * 1000;
 
 /**
  * State manager for development flow projects
@@ -12,6 +26,9 @@ import { ensureDir, readJsonFile, writeJsonFile, logger } from '../utils/index.j
  * 
  * Features:
  * - Project state persistence with JSON storage
+ * - Atomic, checksummed writes with recovery from the last good backup
+ * - Safe sharing of the state directory between processes: file locks,
+ *   optimistic concurrency on `ProjectState.revision` and index reloading
  * - Automatic backup creation and management
  * - Project indexing for fast lookups
  * - State validation and cleanup
@@ -32,9 +49,15 @@ export class StateManager {
   /** Directory path where project states are stored */
   private stateDir: string;
   
+  /** Path of the projects index file, projects.json */
+  private indexPath: string;
+
   /** Index mapping project IDs to their file paths for fast lookups */
   private projectsIndex: Map<string, string> = new Map(); // projectId -> filePath
 
+  /** Identity of the index file when last read or written, to detect changes by other processes */
+  private indexStamp: string | null = null;
+
   /** Flag to track initialization status */
   private initialized: boolean = false;
   
@@ -62,6 +85,7 @@ export class StateManager {
   constructor(config: DevelopmentFlowConfig) {
     this.config = config;
     this.stateDir = path.join(config.projectsDir, 'states');
+    this.indexPath = path.join(this.stateDir, 'projects.json');
     this.initPromise = this.initializeStateManager();
   }
   
@@ -88,7 +112,9 @@ export class StateManager {
   private async initializeStateManager(): Promise<void> {
     try {
       await ensureDir(this.stateDir);
-      await this.loadProjectsIndex();
+      await this.removeStaleTempFiles();
+      await withFileLock(`${this.indexPath}.lock`, () => this.loadProjectsIndex());
+      await this.migrateProjectStates();
       this.initialized = true;
       logger.info('State manager initialization completed');
     } catch (error) {
@@ -104,17 +130,394 @@ export class StateManager {
    * Loads the projects index from persistent storage
    * 
    * Reads the projects.json file containing the mapping of project IDs
-   * to their file paths. If the index file doesn't exist, starts with
-   * an empty index.
+   * to their file paths. If the index file doesn't exist or is corrupted,
+   * the index is rebuilt from the state files in the state directory.
+   * Callers hold the index lock.
    */
   private async loadProjectsIndex(): Promise<void> {
-    const indexPath = path.join(this.stateDir, 'projects.json');
-    const index = await readJsonFile<Record<string, string>>(indexPath);
+    this.indexStamp = await this.statIndex();
+    let index: Record<string, string> | null;
+    try {
+      index = await readJsonFile<Record<string, string>>(this.indexPath);
+      if (index !== null && (typeof index !== 'object' || Array.isArray(index))) {
+        throw new Error('not an object');
+      }
+    } catch (error) {
+      logger.warn(`Projects index corrupted (${error instanceof Error ? error.message : String(error)}), rebuilding it from the state files`);
+      index = null;
+    }
     
     if (index) {
       this.projectsIndex = new Map(Object.entries(index));
       logger.debug(`Loaded projects index: ${this.projectsIndex.size} projects`);
+    } else {
+      await this.rebuildProjectsIndex();
+    }
+  }
+
+  /**
+   * Identifies the current version of the index file
+   * 
+   * Index files are replaced by atomic renames, so every write changes the
+   * inode as well as the modification time.
+   * 
+   * @returns Inode, modification time and size of projects.json, or null if it doesn't exist
+   */
+  private async statIndex(): Promise<string | null> {
+    try {
+      const stat = await fs.stat(this.indexPath);
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reloads the projects index if another process changed it since it was
+   * last read or written
+   */
+  private async refreshProjectsIndex(): Promise<void> {
+    if (await this.statIndex() !== this.indexStamp) {
+      await withFileLock(`${this.indexPath}.lock`, () => this.loadProjectsIndex());
+      logger.debug('Projects index changed on disk, reloaded');
+    }
+  }
+
+  /**
+   * Changes the projects index and saves it
+   * 
+   * Holds the index lock and applies the change to the index as stored,
+   * so that entries added or removed by other processes are kept.
+   * 
+   * @param update - Change to apply to the index
+   */
+  private async updateProjectsIndex(update: (index: Map<string, string>) => void): Promise<void> {
+    await withFileLock(`${this.indexPath}.lock`, async () => {
+      await this.loadProjectsIndex();
+      update(this.projectsIndex);
+      await this.saveProjectsIndex();
+    });
+  }
+
+  /**
+   * Rebuilds the projects index from the state files in the state directory
+   * 
+   * Every `{projectId}.json` file is indexed; the index is saved if it
+   * found any project.
+   */
+  private async rebuildProjectsIndex(): Promise<void> {
+    const files = await fs.readdir(this.stateDir);
+    this.projectsIndex = new Map(
+      files
+        .filter(file => file.endsWith('.json') && file !== 'projects.json')
+        .map(file => [path.basename(file, '.json'), path.join(this.stateDir, file)])
+    );
+
+    if (this.projectsIndex.size > 0) {
+      await this.saveProjectsIndex();
+      logger.info(`Rebuilt projects index: ${this.projectsIndex.size} projects`);
+    }
+  }
+
+  /**
+   * Removes temporary files left over by atomic writes of a crashed process
+   * 
+   * Only files older than {@link STALE_TEMP_FILE_AGE} are removed, so that
+   * writes in progress are not disturbed.
+   */
+  private async removeStaleTempFiles(): Promise<void> {
+    for (const dir of [this.stateDir, path.join(this.stateDir, 'backups')]) {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+
+      for (const file of files.filter(name => name.endsWith('.tmp'))) {
+        const filePath = path.join(dir, file);
+        try {
+          const stat = await fs.stat(filePath);
+          if (Date.now() - stat.mtime.getTime() > STALE_TEMP_FILE_AGE) {
+            await fs.rm(filePath, { force: true });
+            logger.debug(`Removed stale temporary file: ${filePath}`);
+          }
+        } catch {
+          // Removed by another process meanwhile
+        }
+      }
+    }
+  }
+
+  /**
+   * Computes the checksum of a project state
+   * 
+   * @param project - Project state
+   * @returns SHA-256 of the state serialized without its `checksum` field
+   */
+  private computeChecksum(project: ProjectState): string {
+    return hashContent(JSON.stringify({ ...project, checksum: undefined }));
+  }
+
+  /**
+   * Parses and verifies the content of a state or backup file
+   * 
+   * States written before checksums were introduced have no checksum and
+   * are accepted as long as they parse.
+   * 
+   * @param content - File content
+   * @returns The project state
+   * @throws {Error} When the content is not a valid project state or its checksum does not match
+   */
+  private parseStateContent(content: string): ProjectState {
+    const project = JSON.parse(content) as ProjectState;
+    if (!project || typeof project !== 'object' || typeof project.id !== 'string') {
+      throw new Error('not a project state');
+    }
+    if (project.checksum !== undefined && project.checksum !== this.computeChecksum(project)) {
+      throw new Error('checksum mismatch');
+    }
+    return project;
+  }
+
+  /**
+   * Reads and verifies a state or backup file
+   * 
+   * @param filePath - Path of the file
+   * @returns The project state, or null if the file doesn't exist
+   * @throws {Error} When the file is corrupted
+   */
+  private async readStateFile(filePath: string): Promise<ProjectState | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
     }
+    return this.parseStateContent(content);
+  }
+
+  /**
+   * Writes a state file atomically with a fresh checksum
+   * 
+   * @param filePath - Path of the state file
+   * @param project - Project state to write
+   */
+  private async writeStateFile(filePath: string, project: ProjectState): Promise<void> {
+    project.checksum = this.computeChecksum(project);
+    await writeJsonFile(filePath, project);
+  }
+
+  /**
+   * Reads the state file of an indexed project, recovering it if corrupted
+   * 
+   * A corrupted state file is replaced by the newest backup that passes
+   * verification; the corrupted file is kept next to it with a
+   * `.corrupted` suffix for inspection. The recovery holds the lock of the
+   * state file, like saves do, and reads the file again under the lock, so
+   * that a state saved meanwhile is not replaced.
+   * 
+   * @param projectId - Project ID
+   * @param filePath - Path of the project's state file
+   * @param locked - Whether the caller holds the lock of the state file already
+   * @returns The project state, or null if the state file doesn't exist
+   * @throws {DevelopmentFlowError} When the state file is corrupted and no valid backup exists
+   */
+  private async readProjectFile(projectId: string, filePath: string, locked = false): Promise<ProjectState | null> {
+    try {
+      return await this.readStateFile(filePath);
+    } catch (error) {
+      if (!locked) {
+        return withFileLock(`${filePath}.lock`, () => this.readProjectFile(projectId, filePath, true));
+      }
+
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(`Project state file corrupted (${reason}), recovering from the last good backup`, projectId);
+
+      const recovered = await this.recoverFromBackup(projectId, filePath);
+      if (!recovered) {
+        throw new DevelopmentFlowError(
+          `Project state file is corrupted (${reason}) and no valid backup exists: ${filePath}`,
+          'STATE_CORRUPTED',
+          undefined,
+          projectId
+        );
+      }
+      return recovered;
+    }
+  }
+
+  /**
+   * Replaces a corrupted state file with the newest valid backup
+   * 
+   * Must be called while holding the lock of the state file.
+   * 
+   * @param projectId - Project ID
+   * @param filePath - Path of the corrupted state file
+   * @returns The recovered project state, or null if no backup passes verification
+   */
+  private async recoverFromBackup(projectId: string, filePath: string): Promise<ProjectState | null> {
+    const backupDir = path.join(this.stateDir, 'backups');
+    let files: string[];
+    try {
+      files = await fs.readdir(backupDir);
+    } catch {
+      return null;
+    }
+
+    const backups = files
+      .filter(file => file.startsWith(`${projectId}_`) && file.endsWith('.json'))
+      .sort()
+      .reverse();
+
+    for (const backup of backups) {
+      let project: ProjectState | null;
+      try {
+        project = await this.readStateFile(path.join(backupDir, backup));
+      } catch {
+        logger.warn(`Skipping corrupted backup: ${backup}`, projectId);
+        continue;
+      }
+      if (!project || project.id !== projectId) {
+        continue;
+      }
+
+      await fs.rename(filePath, `${filePath}.corrupted`).catch(() => undefined);
+      this.migrateProjectState(project);
+      await this.writeStateFile(filePath, project);
+      logger.warn(`Project state recovered from backup ${backup}; changes made after it are lost`, projectId);
+      return project;
+    }
+
+    return null;
+  }
+
+  /**
+   * Migrates stored project states to the current state format
+   * 
+   * Runs once per state file: migrated files are stamped with
+   * {@link STATE_VERSION} and skipped afterwards. A backup of the original
+   * file is created first when auto-backup is enabled (see
+   * {@link commitProjectState}).
+   */
+  private async migrateProjectStates(): Promise<void> {
+    let migrated = 0;
+
+    for (const [projectId, filePath] of this.projectsIndex) {
+      let project: ProjectState | null;
+      try {
+        project = await this.readProjectFile(projectId, filePath);
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : String(error), projectId);
+        continue;
+      }
+      if (!project || !this.migrateProjectState(project)) {
+        continue;
+      }
+
+      try {
+        await this.commitProjectState(project, filePath, true);
+      } catch (error) {
+        // Saved meanwhile by another process, which migrated it first
+        logger.warn(`Skipping migration: ${error instanceof Error ? error.message : String(error)}`, projectId);
+        continue;
+      }
+      migrated++;
+    }
+
+    if (migrated > 0) {
+      logger.info(`Migrated ${migrated} project state(s) to state version ${STATE_VERSION}`);
+    }
+  }
+
+  /**
+   * Upgrades a project state in place to the current state format
+   * 
+   * Applies every migration step between the stored version and
+   * {@link STATE_VERSION} in order.
+   * 
+   * @param project - Project state loaded from storage
+   * @returns True if the state was changed, false if it was already current
+   */
+  private migrateProjectState(project: ProjectState): boolean {
+    const version = project.stateVersion ?? 1;
+    if (version >= STATE_VERSION) {
+      return false;
+    }
+
+    if (version < 2) {
+      this.unescapeLegacyText(project);
+    }
+    if (version < 3) {
+      this.migrateTaskStatus(project);
+    }
+    if (version < 4) {
+      RequirementManager.assignIds(project);
+    }
+
+    project.stateVersion = STATE_VERSION;
+    return true;
+  }
+
+  /**
+   * Migration to state version 2
+   * 
+   * Version 1 states hold user text HTML-escaped (`&lt;T&gt;`); the text
+   * fields that went through the former sanitizer are unescaped. Design
+   * sections and tasks were stored unescaped and are left untouched.
+   * 
+   * @param project - Project state to upgrade
+   */
+  private unescapeLegacyText(project: ProjectState): void {
+    const unescapeAll = (items: string[]): string[] => items.map(item => unescapeHtmlEntities(item));
+
+    project.name = unescapeHtmlEntities(project.name);
+    if (project.description) project.description = unescapeHtmlEntities(project.description);
+    if (project.requirements) project.requirements = unescapeAll(project.requirements);
+    if (project.functionalRequirements) project.functionalRequirements = unescapeAll(project.functionalRequirements);
+    if (project.technicalRequirements) project.technicalRequirements = unescapeAll(project.technicalRequirements);
+    if (project.acceptanceCriteria) project.acceptanceCriteria = unescapeAll(project.acceptanceCriteria);
+    if (project.completedTasks) project.completedTasks = unescapeAll(project.completedTasks);
+
+    for (const approval of Object.values(project.approvals || {})) {
+      approval.approvedBy = unescapeHtmlEntities(approval.approvedBy);
+      if (approval.comment) approval.comment = unescapeHtmlEntities(approval.comment);
+    }
+
+    for (const items of Object.values(project.feedback || {})) {
+      for (const item of items) {
+        item.text = unescapeHtmlEntities(item.text);
+        item.reviewer = unescapeHtmlEntities(item.reviewer);
+        if (item.section) item.section = unescapeHtmlEntities(item.section);
+      }
+    }
+  }
+
+  /**
+   * Migration to state version 3
+   * 
+   * Up to version 2, `completedTasks` decided which tasks were done and
+   * `Task.status` was never updated. Tasks listed there become 'completed',
+   * other tasks keep 'in_progress' or fall back to 'pending', and the list
+   * is removed.
+   * 
+   * @param project - Project state to upgrade
+   */
+  private migrateTaskStatus(project: ProjectState): void {
+    const completed = project.completedTasks || [];
+
+    for (const task of project.tasks || []) {
+      if (completed.includes(task.id)) {
+        task.status = 'completed';
+      } else if (task.status !== 'in_progress') {
+        task.status = 'pending';
+      }
+    }
+
+    delete project.completedTasks;
   }
 
   /**
@@ -122,12 +525,54 @@ export class StateManager {
    * 
    * Writes the current projects index to the projects.json file,
    * ensuring the mapping between project IDs and file paths is
-   * preserved across application restarts.
+   * preserved across application restarts. Callers hold the index lock;
+   * use {@link updateProjectsIndex} to change the index.
    */
   private async saveProjectsIndex(): Promise<void> {
-    const indexPath = path.join(this.stateDir, 'projects.json');
     const index = Object.fromEntries(this.projectsIndex);
-    await writeJsonFile(indexPath, index);
+    await writeJsonFile(this.indexPath, index);
+    this.indexStamp = await this.statIndex();
+  }
+
+  /**
+   * Writes a project state as the next revision of its state file
+   * 
+   * Holds the lock of the state file from the revision check to the write,
+   * so that concurrent saves of a project, from this or other processes,
+   * cannot overwrite each other. A backup of the replaced state is created
+   * first when auto-backup is enabled.
+   * 
+   * @param project - Project state to write; its `revision` is advanced once the write succeeded
+   * @param filePath - Path of the state file
+   * @param checkRevision - Whether to reject the write when the stored revision differs from the project's
+   * @throws {DevelopmentFlowError} With code STALE_STATE when the state was saved since the project was loaded
+   */
+  private async commitProjectState(project: ProjectState, filePath: string, checkRevision: boolean): Promise<void> {
+    await withFileLock(`${filePath}.lock`, async () => {
+      const stored = await this.readProjectFile(project.id, filePath, true);
+      const storedRevision = stored?.revision ?? 0;
+      const revision = project.revision ?? 0;
+      if (checkRevision && revision !== storedRevision) {
+        throw new DevelopmentFlowError(
+          `Project state was saved by another process since it was loaded (revision ${revision}, stored revision ${storedRevision}), reload the project and retry`,
+          'STALE_STATE',
+          undefined,
+          project.id,
+          { revision, storedRevision }
+        );
+      }
+
+      if (stored && this.config.autoBackup) {
+        await this.createBackup(project.id, filePath);
+      }
+
+      // The project only takes the new revision once it is written
+      const next: ProjectState = { ...project, stateVersion: STATE_VERSION, revision: storedRevision + 1 };
+      await this.writeStateFile(filePath, next);
+      project.stateVersion = STATE_VERSION;
+      project.revision = storedRevision + 1;
+      project.checksum = next.checksum!;
+    });
   }
 
   /**
@@ -135,10 +580,17 @@ export class StateManager {
    * 
    * Persists the project state to a JSON file, creates a backup if enabled,
    * and updates the projects index. This is the primary method for storing
-   * project data and ensuring it survives application restarts.
+   * project data and ensuring it survives application restarts. The state
+   * file is written atomically with a checksum, so a crash mid-write leaves
+   * the previous state intact.
+   * 
+   * Saves are optimistic: the state must still be at the revision it was
+   * loaded at. If another process saved the project in between, the save
+   * fails and the project has to be reloaded.
    * 
    * @param project - Project state to save
-   * @throws {DevelopmentFlowError} When save operation fails
+   * @throws {DevelopmentFlowError} When save operation fails, with code
+   *   STALE_STATE if the project was saved by another process since it was loaded
    * 
    * @example
    * ```typescript
@@ -152,25 +604,37 @@ export class StateManager {
    */
   public async saveProjectState(project: ProjectState): Promise<void> {
     await this.ensureInitialized();
-    
+    await this.persistProjectState(project, true);
+  }
+
+  /**
+   * Saves a project state and indexes it
+   * 
+   * @param project - Project state to save
+   * @param checkRevision - Whether to reject a stale state, see {@link commitProjectState}
+   * @throws {DevelopmentFlowError} When save operation fails
+   */
+  private async persistProjectState(project: ProjectState, checkRevision: boolean): Promise<void> {
     try {
       const fileName = `${project.id}.json`;
       const filePath = path.join(this.stateDir, fileName);
       
-      // Create backup (if enabled)
-      if (this.config.autoBackup && await this.projectExists(project.id)) {
-        await this.createBackup(project.id);
-      }
-      
-      // Save project state
-      await writeJsonFile(filePath, project);
+      // Save project state, with a backup of the replaced one (if enabled)
+      await this.commitProjectState(project, filePath, checkRevision);
       
       // Update index
-      this.projectsIndex.set(project.id, filePath);
-      await this.saveProjectsIndex();
+      await this.refreshProjectsIndex();
+      if (this.projectsIndex.get(project.id) !== filePath) {
+        await this.updateProjectsIndex(index => {
+          index.set(project.id, filePath);
+        });
+      }
       
-      logger.info(`Project state saved: ${project.id}`);
+      logger.info(`Project state saved: ${project.id} (revision ${project.revision})`);
     } catch (error) {
+      if (error instanceof DevelopmentFlowError) {
+        throw error;
+      }
       logger.error(`Failed to save project state: ${error instanceof Error ? error.message : String(error)}`);
       throw new DevelopmentFlowError(
         `Failed to save project state: ${error instanceof Error ? error.message : String(error)}`,
@@ -185,11 +649,13 @@ export class StateManager {
    * Loads a project state from persistent storage
    * 
    * Retrieves the project state from storage using the project ID.
-   * Returns null if the project doesn't exist or the state file is corrupted.
+   * Returns null if the project doesn't exist. A corrupted state file is
+   * recovered from the last good backup.
    * 
    * @param projectId - Unique identifier of the project to load
    * @returns Promise resolving to project state or null if not found
-   * @throws {DevelopmentFlowError} When load operation fails
+   * @throws {DevelopmentFlowError} When load operation fails, with code
+   *   STATE_CORRUPTED if the state file is corrupted and no valid backup exists
    * 
    * @example
    * ```typescript
@@ -205,21 +671,25 @@ export class StateManager {
     await this.ensureInitialized();
     
     try {
+      await this.refreshProjectsIndex();
       const filePath = this.projectsIndex.get(projectId);
       if (!filePath) {
         logger.warn(`Project does not exist: ${projectId}`);
         return null;
       }
       
-      const project = await readJsonFile<ProjectState>(filePath);
+      const project = await this.readProjectFile(projectId, filePath);
       if (!project) {
-        logger.warn(`Project state file corrupted: ${projectId}`);
+        logger.warn(`Project state file missing: ${projectId}`);
         return null;
       }
       
       logger.debug(`Project state loaded: ${projectId}`);
       return project;
     } catch (error) {
+      if (error instanceof DevelopmentFlowError) {
+        throw error;
+      }
       logger.error(`Failed to load project state: ${error instanceof Error ? error.message : String(error)}`);
       throw new DevelopmentFlowError(
         `Failed to load project state: ${error instanceof Error ? error.message : String(error)}`,
@@ -252,23 +722,27 @@ export class StateManager {
    */
   public async deleteProjectState(projectId: string): Promise<boolean> {
     try {
+      await this.refreshProjectsIndex();
       const filePath = this.projectsIndex.get(projectId);
       if (!filePath) {
         logger.warn(`Project does not exist: ${projectId}`);
         return false;
       }
       
-      // Create backup (if enabled)
-      if (this.config.autoBackup) {
-        await this.createBackup(projectId);
-      }
-      
-      // Delete file
-      await fs.unlink(filePath);
+      await withFileLock(`${filePath}.lock`, async () => {
+        // Create backup (if enabled)
+        if (this.config.autoBackup) {
+          await this.createBackup(projectId, filePath);
+        }
+        
+        // Delete file, unless another process deleted it already
+        await fs.rm(filePath, { force: true });
+      });
       
       // Update index
-      this.projectsIndex.delete(projectId);
-      await this.saveProjectsIndex();
+      await this.updateProjectsIndex(index => {
+        index.delete(projectId);
+      });
       
       logger.info(`Project state deleted: ${projectId}`);
       return true;
@@ -303,6 +777,7 @@ export class StateManager {
    * ```
    */
   public async projectExists(projectId: string): Promise<boolean> {
+    await this.refreshProjectsIndex();
     const filePath = this.projectsIndex.get(projectId);
     if (!filePath) {
       return false;
@@ -313,8 +788,9 @@ export class StateManager {
       return true;
     } catch {
       // File does not exist, clean up index
-      this.projectsIndex.delete(projectId);
-      await this.saveProjectsIndex();
+      await this.updateProjectsIndex(index => {
+        index.delete(projectId);
+      });
       return false;
     }
   }
@@ -324,7 +800,9 @@ export class StateManager {
    * 
    * Loads and returns all projects currently stored in the state manager.
    * Projects are loaded from their individual state files based on the
-   * projects index. Invalid or corrupted projects are automatically cleaned up.
+   * projects index. Corrupted state files are recovered from their last good
+   * backup; projects that cannot be recovered are skipped but stay indexed.
+   * Index entries whose state file no longer exists are cleaned up.
    * 
    * @returns Promise resolving to array of all project states
    * @throws {DevelopmentFlowError} When loading projects fails
@@ -340,24 +818,28 @@ export class StateManager {
    */
   public async getAllProjects(): Promise<ProjectState[]> {
     const projects: ProjectState[] = [];
+    const removed: string[] = [];
     
+    await this.refreshProjectsIndex();
     for (const [projectId, filePath] of this.projectsIndex) {
       try {
-        const project = await readJsonFile<ProjectState>(filePath);
+        const project = await this.readProjectFile(projectId, filePath);
         if (project) {
           projects.push(project);
         } else {
-          // Clean up corrupted index entry
-          this.projectsIndex.delete(projectId);
+          // Clean up index entry of a deleted state file
+          removed.push(projectId);
         }
       } catch (error) {
-        logger.warn(`Skipping corrupted project file: ${filePath}`);
-        this.projectsIndex.delete(projectId);
+        logger.error(`Skipping unrecoverable project file: ${filePath}`, projectId);
       }
     }
     
-    // Save cleaned up index
-    await this.saveProjectsIndex();
+    if (removed.length > 0) {
+      await this.updateProjectsIndex(index => {
+        removed.forEach(projectId => index.delete(projectId));
+      });
+    }
     
     return projects.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
   }
@@ -398,6 +880,75 @@ export class StateManager {
     });
   }
 
+  /**
+   * Queries projects by phase, name, free text and update date
+   * 
+   * Unlike {@link findProjects}, which requires exact property matches,
+   * this performs case-insensitive substring matching on names and text
+   * content and range matching on the last update time.
+   * 
+   * @param query - Query criteria combined with AND semantics
+   * @returns Promise resolving to matching projects, most recently updated first
+   * 
+   * @example
+   * ```typescript
+   * const recentDesigns = await stateManager.queryProjects({
+   *   phase: DevelopmentPhase.DESIGN,
+   *   updatedAfter: '2024-01-01'
+   * });
+   * ```
+   */
+  public async queryProjects(query: ProjectQuery): Promise<ProjectState[]> {
+    await this.ensureInitialized();
+    const allProjects = await this.getAllProjects();
+    const name = query.name?.toLowerCase();
+    const text = query.text?.toLowerCase();
+    const after = query.updatedAfter ? new Date(query.updatedAfter).getTime() : undefined;
+    const before = query.updatedBefore ? new Date(query.updatedBefore).getTime() : undefined;
+
+    return allProjects.filter(project => {
+      if (query.phase && project.phase !== query.phase) {
+        return false;
+      }
+      if (name && !project.name.toLowerCase().includes(name)) {
+        return false;
+      }
+
+      const updatedAt = new Date(project.updatedAt).getTime();
+      if (after !== undefined && updatedAt < after) {
+        return false;
+      }
+      if (before !== undefined && updatedAt > before) {
+        return false;
+      }
+
+      if (text) {
+        const haystack = [
+          project.name,
+          project.description,
+          ...(project.requirements || []),
+          ...(project.functionalRequirements || []),
+          ...(project.technicalRequirements || []),
+          ...(project.acceptanceCriteria || []),
+          ...(project.userStories || []).flatMap(story => [story.role, story.goal, story.benefit, ...story.acceptanceCriteria]),
+          project.architecture,
+          project.implementation,
+          project.systemDesign,
+          project.dataStructures,
+          project.interfaces,
+          project.deployment,
+          ...(project.tasks || []).map(task => `${task.title} ${task.description}`)
+        ].filter(Boolean).join('\n').toLowerCase();
+
+        if (!haystack.includes(text)) {
+          return false;
+        }
+      }
+
+      return true;
+    });
+  }
+
   /**
    * Retrieves comprehensive project statistics
    * 
@@ -446,24 +997,22 @@ export class StateManager {
    * Creates a backup of a project state
    * 
    * Saves a timestamped backup copy of the project state to the backups
-   * directory. Backups are automatically cleaned up based on retention settings.
+   * directory. A state file that fails verification is not backed up, so
+   * that corrupted copies never replace good backups. Backups are
+   * automatically cleaned up based on retention settings.
    * 
    * @param projectId - Unique identifier of the project to backup
+   * @param filePath - Path of the project's state file
    * @throws {DevelopmentFlowError} When backup creation fails
    * 
    * @example
    * ```typescript
    * // This is called automatically during save operations
-   * await this.createBackup('proj_123');
+   * await this.createBackup('proj_123', filePath);
    * ```
    */
-  private async createBackup(projectId: string): Promise<void> {
+  private async createBackup(projectId: string, filePath: string): Promise<void> {
     try {
-      const filePath = this.projectsIndex.get(projectId);
-      if (!filePath) {
-        return;
-      }
-      
       const backupDir = path.join(this.stateDir, 'backups');
       await ensureDir(backupDir);
       
@@ -472,7 +1021,13 @@ export class StateManager {
       const backupPath = path.join(backupDir, backupFileName);
       
       const content = await fs.readFile(filePath, 'utf-8');
-      await fs.writeFile(backupPath, content, 'utf-8');
+      try {
+        this.parseStateContent(content);
+      } catch (error) {
+        logger.warn(`Not backing up corrupted project state (${error instanceof Error ? error.message : String(error)})`, projectId);
+        return;
+      }
+      await writeFileAtomic(backupPath, content);
       
       logger.debug(`Created backup: ${backupPath}`);
       
@@ -540,7 +1095,8 @@ export class StateManager {
    * 
    * Loads a project state from a specific backup file and restores it
    * as the current state. If no timestamp is provided, restores from
-   * the most recent backup.
+   * the most recent backup. The restored state becomes a new revision, so
+   * saves of states loaded before the restore fail with STALE_STATE.
    * 
    * @param projectId - Unique identifier of the project to restore
    * @param backupTimestamp - Optional timestamp of the backup to restore from
@@ -583,15 +1139,23 @@ export class StateManager {
       }
       
       const backupPath = path.join(backupDir, backupFile);
-      const project = await readJsonFile<ProjectState>(backupPath);
+      let project: ProjectState | null;
+      try {
+        project = await this.readStateFile(backupPath);
+      } catch {
+        logger.warn(`Backup file corrupted: ${backupPath}`);
+        return null;
+      }
       
       if (!project) {
-        logger.warn(`Backup file corrupted: ${backupPath}`);
+        logger.warn(`Backup file not found: ${backupPath}`);
         return null;
       }
       
-      // Restore project state
-      await this.saveProjectState(project);
+      // Restore project state, upgrading backups taken before a migration
+      this.migrateProjectState(project);
+      await this.ensureInitialized();
+      await this.persistProjectState(project, false);
       
       logger.info(`Project state restored: ${projectId} from ${backupFile!}`);
       return project;
@@ -635,12 +1199,10 @@ export class StateManager {
       }
       
       // Clean up invalid index entries
-      for (const projectId of toRemove) {
-        this.projectsIndex.delete(projectId);
-      }
-      
       if (toRemove.length > 0) {
-        await this.saveProjectsIndex();
+        await this.updateProjectsIndex(index => {
+          toRemove.forEach(projectId => index.delete(projectId));
+        });
         logger.info(`Cleaned up ${toRemove.length} invalid index entries`);
       }
       
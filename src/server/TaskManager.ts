@@ -0,0 +1,867 @@
+import {
+  DevelopmentPhase,
+  DevelopmentFlowError,
+  ProjectState,
+  Task,
+  TaskAction,
+  TaskInput,
+  TaskStats,
+  TaskStatus,
+  TaskTreeNode,
+  TimeReport,
+  TimeTotals
+} from '../types/index.js';
+import { formatTimestamp, logger, InputValidator } from '../utils/index.js';
+
+/**
+ * Task actions that change a task's status
+ */
+export type TaskStatusAction = TaskAction.START | TaskAction.BLOCK | TaskAction.REOPEN | DevelopmentPhase.TASK_COMPLETE;
+
+/**
+ * Status actions allowed from each task status
+ *
+ * `task_update` edits task details and is allowed in every status.
+ */
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatusAction[]> = {
+  pending: [TaskAction.START, TaskAction.BLOCK, DevelopmentPhase.TASK_COMPLETE],
+  in_progress: [TaskAction.BLOCK, DevelopmentPhase.TASK_COMPLETE],
+  blocked: [TaskAction.START, TaskAction.BLOCK, TaskAction.REOPEN],
+  completed: [TaskAction.REOPEN]
+};
+
+/**
+ * Status a task has after each status action
+ */
+export const TASK_ACTION_STATUS: Record<TaskStatusAction, TaskStatus> = {
+  [TaskAction.START]: 'in_progress',
+  [TaskAction.BLOCK]: 'blocked',
+  [TaskAction.REOPEN]: 'pending',
+  [DevelopmentPhase.TASK_COMPLETE]: 'completed'
+};
+
+/** Valid task statuses */
+const TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'blocked', 'completed'];
+
+/** Scheduling rank of each task priority, higher runs first */
+const PRIORITY_RANK: Record<Task['priority'], number> = { high: 3, medium: 2, low: 1 };
+
+/** Milliseconds per hour */
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Rounds hours to two decimals
+ *
+ * @param hours - Hours to round
+ * @returns Rounded hours
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Task manager for development flow projects
+ *
+ * Owns the task lifecycle: `Task.status` is the single source of truth for
+ * task progress, changed only through the status actions in
+ * {@link TASK_TRANSITIONS}. Illegal status changes raise
+ * `TASK_TRANSITION_INVALID` listing the actions allowed for the task.
+ *
+ * Task dependencies form a directed graph that must reference existing
+ * tasks and be free of cycles; a task can only be completed once all of its
+ * dependencies are. Tasks can be nested through `parentId`; a parent task
+ * can only be completed once all of its subtasks are, and its progress and
+ * estimate are rolled up from them.
+ *
+ * Time is tracked per task: starting a task opens a timer entry that is
+ * closed when the task leaves the in_progress status, and work can be
+ * logged manually. `actualHours` is always the sum of the finished entries.
+ *
+ * @example
+ * ```typescript
+ * const task = TaskManager.getTask(project, 'task_001');
+ * TaskManager.applyAction(task, TaskAction.START);
+ * const stats = TaskManager.getStats(project.tasks || []);
+ * ```
+ */
+export class TaskManager {
+  /**
+   * Looks up a task of a project
+   *
+   * @param project - Project owning the task
+   * @param taskId - Task identifier
+   * @returns The task
+   * @throws {DevelopmentFlowError} TASK_NOT_FOUND when the project has no such task
+   */
+  static getTask(project: ProjectState, taskId: string): Task {
+    const task = (project.tasks || []).find(candidate => candidate.id === taskId);
+    if (!task) {
+      throw new DevelopmentFlowError(
+        `Task ID '${taskId}' does not exist in project`,
+        'TASK_NOT_FOUND',
+        DevelopmentPhase.TASK_COMPLETE,
+        project.id
+      );
+    }
+    return task;
+  }
+
+  /**
+   * Gets the status of a task
+   *
+   * Tasks stored without a valid status count as pending.
+   *
+   * @param task - Task to inspect
+   * @returns Task status
+   */
+  static getStatus(task: Task): TaskStatus {
+    return TASK_STATUSES.includes(task.status) ? task.status : 'pending';
+  }
+
+  /**
+   * Checks whether a task is completed
+   *
+   * @param task - Task to inspect
+   * @returns True if the task status is 'completed'
+   */
+  static isCompleted(task: Task): boolean {
+    return this.getStatus(task) === 'completed';
+  }
+
+  /**
+   * Gets the status actions allowed for a task
+   *
+   * @param task - Task to inspect
+   * @returns Allowed status actions
+   */
+  static getAllowedActions(task: Task): TaskStatusAction[] {
+    return TASK_TRANSITIONS[this.getStatus(task)];
+  }
+
+  /**
+   * Applies a status action to a task
+   *
+   * Completing an already completed task is a no-op. Starting a task records
+   * `startedAt` and opens a timer, completing it records `completedAt`, and
+   * blocking it records the reason, which is cleared again when the task
+   * leaves the blocked state. Leaving in_progress closes the running timer.
+   *
+   * @param task - Task to change
+   * @param action - Status action to apply
+   * @param reason - Why the task is blocked (action: task_block)
+   * @returns Status of the task before the action
+   * @throws {DevelopmentFlowError} TASK_TRANSITION_INVALID when the action is not allowed in the task's status
+   */
+  static applyAction(task: Task, action: TaskStatusAction, reason?: string): TaskStatus {
+    const previous = this.getStatus(task);
+    if (action === DevelopmentPhase.TASK_COMPLETE && previous === 'completed') {
+      return previous;
+    }
+
+    const allowed = this.getAllowedActions(task);
+    if (!allowed.includes(action)) {
+      const blocked = previous === 'blocked' && task.blockedReason ? ` (${task.blockedReason})` : '';
+      throw new DevelopmentFlowError(
+        `Action '${action}' is not allowed for task '${task.id}' with status '${previous}'${blocked}. Allowed actions: ${allowed.join(', ')}`,
+        'TASK_TRANSITION_INVALID',
+        undefined,
+        undefined,
+        { taskId: task.id, status: previous, allowedActions: allowed }
+      );
+    }
+
+    const timestamp = formatTimestamp();
+    task.status = TASK_ACTION_STATUS[action];
+    task.updatedAt = timestamp;
+
+    if (task.status === 'blocked' && reason) {
+      task.blockedReason = reason;
+    } else if (task.status !== 'blocked') {
+      delete task.blockedReason;
+    }
+    if (task.status === 'in_progress') {
+      task.startedAt = timestamp;
+      task.timeEntries = [...(task.timeEntries || []), { source: 'timer', startedAt: timestamp, hours: 0 }];
+    } else {
+      this.stopTimer(task, timestamp);
+    }
+    if (task.status === 'completed') {
+      task.completedAt = timestamp;
+    } else {
+      delete task.completedAt;
+    }
+
+    logger.info(`Task ${task.id}: ${previous} -> ${task.status}`);
+    return previous;
+  }
+
+  /**
+   * Closes the running timer entry of a task, if any
+   *
+   * @param task - Task whose timer is stopped
+   * @param timestamp - ISO timestamp the work ended
+   */
+  static stopTimer(task: Task, timestamp: string = formatTimestamp()): void {
+    const running = task.timeEntries?.find(entry => entry.source === 'timer' && !entry.endedAt);
+    if (!running) {
+      return;
+    }
+
+    running.endedAt = timestamp;
+    running.hours = roundHours(Math.max(0, Date.parse(timestamp) - Date.parse(running.startedAt)) / HOUR_MS);
+    this.updateActualHours(task);
+  }
+
+  /**
+   * Logs work on a task manually
+   *
+   * The entry ends now and starts `hours` earlier.
+   *
+   * @param task - Task worked on
+   * @param hours - Hours worked
+   * @param note - What was worked on
+   */
+  static logTime(task: Task, hours: number, note?: string): void {
+    const now = Date.now();
+    task.timeEntries = [
+      ...(task.timeEntries || []),
+      {
+        source: 'manual',
+        startedAt: formatTimestamp(new Date(now - hours * HOUR_MS)),
+        endedAt: formatTimestamp(new Date(now)),
+        hours: roundHours(hours),
+        ...(note && { note })
+      }
+    ];
+    task.updatedAt = formatTimestamp(new Date(now));
+    this.updateActualHours(task);
+  }
+
+  /**
+   * Recomputes `actualHours` from the finished time entries of a task
+   *
+   * @param task - Task to update
+   */
+  private static updateActualHours(task: Task): void {
+    task.actualHours = roundHours((task.timeEntries || []).reduce((sum, entry) => sum + entry.hours, 0));
+  }
+
+  /**
+   * Builds the estimate-versus-actual report of a task list
+   *
+   * Estimates of tasks with subtasks are left out, as they are rolled up
+   * from the subtasks; logged time counts on every task. Running timers are
+   * listed but not included until they are stopped.
+   *
+   * @param tasks - All tasks of the project
+   * @returns Time report
+   */
+  static getTimeReport(tasks: Task[]): TimeReport {
+    const parents = new Set(tasks.map(task => task.parentId).filter((id): id is string => Boolean(id)));
+    const estimate = (task: Task) => (parents.has(task.id) ? 0 : task.estimatedHours ?? 0);
+
+    const totals = (group: Task[]): TimeTotals => {
+      const estimatedHours = roundHours(group.reduce((sum, task) => sum + estimate(task), 0));
+      const actualHours = roundHours(group.reduce((sum, task) => sum + (task.actualHours ?? 0), 0));
+      const variance = roundHours(actualHours - estimatedHours);
+      return {
+        tasks: group.length,
+        estimatedHours,
+        actualHours,
+        variance,
+        variancePercent: estimatedHours > 0 ? Math.round((variance / estimatedHours) * 100) : null
+      };
+    };
+
+    const completed = tasks.filter(task => this.isCompleted(task));
+    const measured = completed.filter(task => estimate(task) > 0 && (task.actualHours ?? 0) > 0);
+    const accuracies = measured.map(task =>
+      Math.max(0, 100 - (Math.abs((task.actualHours ?? 0) - estimate(task)) / estimate(task)) * 100)
+    );
+
+    const byPriority: TimeReport['byPriority'] = {};
+    for (const priority of Object.keys(PRIORITY_RANK) as Task['priority'][]) {
+      const group = tasks.filter(task => task.priority === priority);
+      if (group.length > 0) {
+        byPriority[priority] = totals(group);
+      }
+    }
+
+    const byAssignee: TimeReport['byAssignee'] = {};
+    for (const assignee of [...new Set(tasks.map(task => task.assignee || 'unassigned'))].sort()) {
+      byAssignee[assignee] = totals(tasks.filter(task => (task.assignee || 'unassigned') === assignee));
+    }
+
+    return {
+      total: totals(tasks),
+      completed: totals(completed),
+      estimateAccuracy: accuracies.length > 0
+        ? Math.round(accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length)
+        : null,
+      byPriority,
+      byAssignee,
+      runningTimers: tasks
+        .filter(task => task.timeEntries?.some(entry => entry.source === 'timer' && !entry.endedAt))
+        .map(task => task.id)
+    };
+  }
+
+  /**
+   * Generates the next free task ID
+   *
+   * IDs follow the `task_001` pattern and continue after the highest number
+   * used by an existing task.
+   *
+   * @param tasks - Existing tasks
+   * @param reserved - Additional IDs that must not be generated
+   * @returns New task ID
+   */
+  static generateTaskId(tasks: Task[], reserved: string[] = []): string {
+    const used = new Set([...tasks.map(task => task.id), ...reserved]);
+    let next = Math.max(0, ...tasks.map(task => Number(/^task_(\d+)$/.exec(task.id)?.[1] ?? 0))) + 1;
+
+    let id = `task_${String(next).padStart(3, '0')}`;
+    while (used.has(id)) {
+      next++;
+      id = `task_${String(next).padStart(3, '0')}`;
+    }
+    return id;
+  }
+
+  /**
+   * Creates a pending task from client input
+   *
+   * @param fields - Validated task fields; `status` is ignored
+   * @param id - ID of the new task
+   * @returns New task with server-set status and timestamps
+   */
+  static createTask(fields: TaskInput, id: string): Task {
+    const timestamp = formatTimestamp();
+    const task: Task = {
+      id,
+      title: '',
+      description: '',
+      status: 'pending',
+      priority: 'medium',
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    this.updateTask(task, fields);
+    return task;
+  }
+
+  /**
+   * Applies client-editable fields to a task
+   *
+   * Only fields present in `fields` are changed; ID and status are never
+   * changed here. An empty assignee unassigns the task. Any change counts
+   * as a review and clears the task's `staleBy` mark.
+   *
+   * @param task - Task to change
+   * @param fields - Validated task fields
+   * @returns Names of the changed fields
+   */
+  static updateTask(task: Task, fields: TaskInput): string[] {
+    const updated: string[] = [];
+
+    if (fields.title !== undefined) {
+      task.title = InputValidator.normalizeText(fields.title, 200);
+      updated.push('title');
+    }
+    if (fields.description !== undefined) {
+      task.description = InputValidator.normalizeText(fields.description, 2000);
+      updated.push('description');
+    }
+    if (fields.priority !== undefined) {
+      task.priority = fields.priority;
+      updated.push('priority');
+    }
+    if (fields.estimatedHours !== undefined) {
+      task.estimatedHours = fields.estimatedHours;
+      updated.push('estimatedHours');
+    }
+    if (fields.assignee !== undefined) {
+      const assignee = InputValidator.normalizeText(fields.assignee, 100);
+      if (assignee) {
+        task.assignee = assignee;
+      } else {
+        delete task.assignee;
+      }
+      updated.push('assignee');
+    }
+    if (fields.dependencies !== undefined) {
+      task.dependencies = [...new Set(fields.dependencies.map(dependency => InputValidator.normalizeText(dependency, 50)))];
+      updated.push('dependencies');
+    }
+    if (fields.parentId !== undefined) {
+      if (fields.parentId) {
+        task.parentId = fields.parentId;
+      } else {
+        delete task.parentId;
+      }
+      updated.push('parentId');
+    }
+    if (fields.requirementIds !== undefined) {
+      task.requirementIds = [...new Set(fields.requirementIds.map(id => InputValidator.normalizeText(id, 50)))];
+      updated.push('requirementIds');
+    }
+
+    if (updated.length > 0) {
+      delete task.staleBy;
+      task.updatedAt = formatTimestamp();
+    }
+    return updated;
+  }
+
+  /**
+   * Merges a todo task list into the existing tasks
+   *
+   * Entries whose ID matches an existing task patch it, keeping its status
+   * and history; all other entries are appended as new pending tasks, with a
+   * generated ID when none is given. Tasks missing from the list are kept.
+   *
+   * @param tasks - Existing tasks, left unchanged
+   * @param inputs - Validated task inputs
+   * @returns Merged task list and the IDs of the added and patched tasks
+   */
+  static mergeTasks(tasks: Task[], inputs: TaskInput[]): { tasks: Task[]; added: string[]; updated: string[] } {
+    const merged = tasks.map(task => ({ ...task, ...(task.dependencies && { dependencies: [...task.dependencies] }) }));
+    const reserved = inputs.map(input => input.id).filter((id): id is string => typeof id === 'string');
+    const added: string[] = [];
+    const updated: string[] = [];
+
+    for (const input of inputs) {
+      const existing = input.id !== undefined ? merged.find(task => task.id === input.id) : undefined;
+      if (existing) {
+        if (this.updateTask(existing, input).length > 0) {
+          updated.push(existing.id);
+        }
+      } else {
+        const task = this.createTask(input, input.id ?? this.generateTaskId(merged, reserved));
+        merged.push(task);
+        added.push(task.id);
+      }
+    }
+
+    return { tasks: merged, added, updated };
+  }
+
+  /**
+   * Removes a task from a project
+   *
+   * Removing a task other tasks depend on, or one that has subtasks, would
+   * leave dangling references. Without `force` this is rejected; with `force`
+   * the dependency is dropped from the dependent tasks and the subtasks move
+   * up to the removed task's parent.
+   *
+   * @param project - Project owning the task
+   * @param taskId - Task to remove
+   * @param force - Whether to remove the task even though other tasks reference it
+   * @returns The removed task and the IDs of the tasks that referenced it
+   * @throws {DevelopmentFlowError} TASK_NOT_FOUND when the task does not exist
+   * @throws {DevelopmentFlowError} TASK_HAS_DEPENDENTS when other tasks reference it and force is not set
+   */
+  static removeTask(project: ProjectState, taskId: string, force?: boolean): { task: Task; dependents: string[]; subtasks: string[] } {
+    const task = this.getTask(project, taskId);
+    const tasks = project.tasks || [];
+    const dependents = tasks.filter(candidate => candidate.dependencies?.includes(taskId));
+    const subtasks = this.getSubtasks(tasks, task);
+
+    if ((dependents.length > 0 || subtasks.length > 0) && !force) {
+      const references = [
+        ...(dependents.length > 0 ? [`a dependency of: ${dependents.map(dependent => dependent.id).join(', ')}`] : []),
+        ...(subtasks.length > 0 ? [`the parent of: ${subtasks.map(subtask => subtask.id).join(', ')}`] : [])
+      ];
+      throw new DevelopmentFlowError(
+        `Task '${taskId}' is ${references.join(' and ')}. Update these tasks first or use force: true to detach them.`,
+        'TASK_HAS_DEPENDENTS',
+        DevelopmentPhase.TASK_COMPLETE,
+        project.id,
+        { taskId, dependents: dependents.map(dependent => dependent.id), subtasks: subtasks.map(subtask => subtask.id) }
+      );
+    }
+
+    const timestamp = formatTimestamp();
+    for (const dependent of dependents) {
+      dependent.dependencies = dependent.dependencies!.filter(dependency => dependency !== taskId);
+      dependent.updatedAt = timestamp;
+    }
+    for (const subtask of subtasks) {
+      if (task.parentId) {
+        subtask.parentId = task.parentId;
+      } else {
+        delete subtask.parentId;
+      }
+      subtask.updatedAt = timestamp;
+    }
+    project.tasks = tasks.filter(candidate => candidate !== task);
+
+    logger.info(`Task ${taskId} removed`, project.id);
+    return { task, dependents: dependents.map(dependent => dependent.id), subtasks: subtasks.map(subtask => subtask.id) };
+  }
+
+  /**
+   * Gets the direct subtasks of a task
+   *
+   * @param tasks - All tasks of the project
+   * @param task - Parent task
+   * @returns Subtasks in list order
+   */
+  static getSubtasks(tasks: Task[], task: Task): Task[] {
+    return tasks.filter(candidate => candidate.parentId === task.id && candidate !== task);
+  }
+
+  /**
+   * Validates the task hierarchy and dependency graph of a task list
+   *
+   * @param tasks - Tasks to check
+   * @returns Error messages from {@link validateHierarchy} and {@link validateDependencies}
+   */
+  static validateTaskGraph(tasks: Task[]): string[] {
+    return [...this.validateHierarchy(tasks), ...this.validateDependencies(tasks)];
+  }
+
+  /**
+   * Validates the parent references of a task list
+   *
+   * @param tasks - Tasks to check
+   * @returns Error messages for self-references, unknown parents and nesting cycles
+   */
+  static validateHierarchy(tasks: Task[]): string[] {
+    const errors: string[] = [];
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const reported = new Set<string>();
+
+    for (const task of tasks) {
+      if (!task.parentId) {
+        continue;
+      }
+      if (task.parentId === task.id) {
+        errors.push(`Task '${task.id}' is its own parent`);
+        continue;
+      }
+      if (!byId.has(task.parentId)) {
+        errors.push(`Task '${task.id}' has unknown parent task '${task.parentId}'`);
+        continue;
+      }
+
+      const chain = [task.id];
+      let parentId: string | undefined = task.parentId;
+      while (parentId && byId.has(parentId) && !chain.includes(parentId)) {
+        chain.push(parentId);
+        parentId = byId.get(parentId)!.parentId;
+      }
+      if (parentId === task.id && !chain.some(id => reported.has(id))) {
+        chain.forEach(id => reported.add(id));
+        errors.push(`Task nesting cycle: ${[...chain, task.id].join(' -> ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Builds the task hierarchy with progress and estimates rolled up from subtasks
+   *
+   * Tasks without a (known) parent are top-level tasks; list order is kept
+   * among siblings.
+   *
+   * @param tasks - All tasks of the project
+   * @returns Top-level task nodes
+   */
+  static getTaskTree(tasks: Task[]): TaskTreeNode[] {
+    const ids = new Set(tasks.map(task => task.id));
+    const placed = new Set<Task>();
+
+    const build = (task: Task, number: string, depth: number): TaskTreeNode => {
+      placed.add(task);
+      const children = this.getSubtasks(tasks, task)
+        .filter(child => !placed.has(child))
+        .map((child, index) => build(child, `${number}.${index + 1}`, depth + 1));
+
+      const totalLeaves = children.length > 0 ? children.reduce((sum, child) => sum + child.totalLeaves, 0) : 1;
+      const completedLeaves = this.isCompleted(task)
+        ? totalLeaves
+        : children.reduce((sum, child) => sum + child.completedLeaves, 0);
+      const childEstimates = children
+        .map(child => child.estimatedHours)
+        .filter((hours): hours is number => hours !== undefined);
+      const estimatedHours = childEstimates.length > 0
+        ? childEstimates.reduce((sum, hours) => sum + hours, 0)
+        : task.estimatedHours;
+
+      return {
+        task,
+        number,
+        depth,
+        children,
+        totalLeaves,
+        completedLeaves,
+        completionRate: Math.round((completedLeaves / totalLeaves) * 100),
+        ...(estimatedHours !== undefined && { estimatedHours })
+      };
+    };
+
+    return tasks
+      .filter(task => !task.parentId || task.parentId === task.id || !ids.has(task.parentId))
+      .map((task, index) => build(task, String(index + 1), 0));
+  }
+
+  /**
+   * Flattens a task tree into outline order, parents before their subtasks
+   *
+   * @param nodes - Task nodes
+   * @returns All nodes of the tree
+   */
+  static flattenTaskTree(nodes: TaskTreeNode[]): TaskTreeNode[] {
+    return nodes.flatMap(node => [node, ...this.flattenTaskTree(node.children)]);
+  }
+
+  /**
+   * Completes parent tasks whose subtasks are now all completed
+   *
+   * Walks up from a just completed task. Parents whose own dependencies are
+   * still open or whose status does not allow completion are left unchanged.
+   *
+   * @param tasks - All tasks of the project
+   * @param task - Task that was just completed
+   * @returns IDs of the parent tasks completed automatically
+   */
+  static completeParents(tasks: Task[], task: Task): string[] {
+    const completed: string[] = [];
+    let current = task;
+
+    while (current.parentId) {
+      const parent = tasks.find(candidate => candidate.id === current.parentId);
+      if (
+        !parent ||
+        completed.includes(parent.id) ||
+        this.isCompleted(parent) ||
+        !this.getAllowedActions(parent).includes(DevelopmentPhase.TASK_COMPLETE) ||
+        this.getOpenSubtasks(tasks, parent).length > 0 ||
+        this.getOpenDependencies(tasks, parent).length > 0
+      ) {
+        break;
+      }
+
+      this.applyAction(parent, DevelopmentPhase.TASK_COMPLETE);
+      completed.push(parent.id);
+      current = parent;
+    }
+
+    return completed;
+  }
+
+  /**
+   * Gets the subtasks of a task that are not completed yet
+   *
+   * @param tasks - All tasks of the project
+   * @param task - Parent task
+   * @returns IDs of the open subtasks
+   */
+  static getOpenSubtasks(tasks: Task[], task: Task): string[] {
+    return this.getSubtasks(tasks, task).filter(subtask => !this.isCompleted(subtask)).map(subtask => subtask.id);
+  }
+
+  /**
+   * Validates the dependency graph of a task list
+   *
+   * @param tasks - Tasks to check
+   * @returns Error messages for self-dependencies, unknown dependency IDs and cycles
+   */
+  static validateDependencies(tasks: Task[]): string[] {
+    const errors: string[] = [];
+    const ids = new Set(tasks.map(task => task.id));
+
+    for (const task of tasks) {
+      for (const dependency of task.dependencies || []) {
+        if (dependency === task.id) {
+          errors.push(`Task '${task.id}' depends on itself`);
+        } else if (!ids.has(dependency)) {
+          errors.push(`Task '${task.id}' depends on unknown task '${dependency}'`);
+        }
+      }
+    }
+
+    const cycle = this.findCycle(tasks);
+    if (cycle) {
+      errors.push(`Dependency cycle: ${cycle.join(' -> ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Gets the dependencies of a task that are not completed yet
+   *
+   * Dependencies on tasks that do not exist are ignored.
+   *
+   * @param tasks - All tasks of the project
+   * @param task - Task whose dependencies are checked
+   * @returns IDs of the open dependencies
+   */
+  static getOpenDependencies(tasks: Task[], task: Task): string[] {
+    return (task.dependencies || []).filter(dependency => {
+      const prerequisite = tasks.find(candidate => candidate.id === dependency);
+      return prerequisite !== undefined && !this.isCompleted(prerequisite);
+    });
+  }
+
+  /**
+   * Verifies that all dependencies and subtasks of a task are completed
+   *
+   * @param project - Project owning the task
+   * @param task - Task about to be completed
+   * @throws {DevelopmentFlowError} TASK_SUBTASKS_OPEN when a subtask is not completed
+   * @throws {DevelopmentFlowError} TASK_DEPENDENCIES_OPEN when a dependency is not completed
+   */
+  static assertDependenciesMet(project: ProjectState, task: Task): void {
+    const openSubtasks = this.getOpenSubtasks(project.tasks || [], task);
+    if (openSubtasks.length > 0) {
+      throw new DevelopmentFlowError(
+        `Task '${task.id}' has subtasks that are not completed: ${openSubtasks.join(', ')}. Complete them first or use force: true to override.`,
+        'TASK_SUBTASKS_OPEN',
+        DevelopmentPhase.TASK_COMPLETE,
+        project.id,
+        { taskId: task.id, openSubtasks }
+      );
+    }
+
+    const open = this.getOpenDependencies(project.tasks || [], task);
+    if (open.length > 0) {
+      throw new DevelopmentFlowError(
+        `Task '${task.id}' depends on tasks that are not completed: ${open.join(', ')}. Complete them first or use force: true to override.`,
+        'TASK_DEPENDENCIES_OPEN',
+        DevelopmentPhase.TASK_COMPLETE,
+        project.id,
+        { taskId: task.id, openDependencies: open }
+      );
+    }
+  }
+
+  /**
+   * Gets the tasks that can be worked on now
+   *
+   * A task is ready when it is pending or in progress and all of its
+   * dependencies and subtasks are completed. Ready tasks are ordered by priority, then by
+   * their position in the topological order of the dependency graph.
+   *
+   * @param tasks - All tasks of the project
+   * @returns Ready tasks in scheduling order
+   */
+  static getNextTasks(tasks: Task[]): Task[] {
+    const order = new Map(this.getTopologicalOrder(tasks).map((task, index) => [task.id, index]));
+    const rank = (task: Task) => PRIORITY_RANK[task.priority] ?? 0;
+
+    return tasks
+      .filter(task => {
+        const status = this.getStatus(task);
+        return (status === 'pending' || status === 'in_progress') &&
+          this.getOpenDependencies(tasks, task).length === 0 &&
+          this.getOpenSubtasks(tasks, task).length === 0;
+      })
+      .sort((a, b) => rank(b) - rank(a) || order.get(a.id)! - order.get(b.id)!);
+  }
+
+  /**
+   * Orders tasks so that every task comes after its dependencies
+   *
+   * Uses Kahn's algorithm, keeping the list order among independent tasks.
+   * Unknown dependencies are ignored and tasks on a cycle are appended in
+   * list order.
+   *
+   * @param tasks - Tasks to order
+   * @returns Tasks in topological order
+   */
+  static getTopologicalOrder(tasks: Task[]): Task[] {
+    const ids = new Set(tasks.map(task => task.id));
+    const remaining = new Map(tasks.map(task => [
+      task.id,
+      new Set((task.dependencies || []).filter(dependency => dependency !== task.id && ids.has(dependency)))
+    ]));
+    const ordered: Task[] = [];
+
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const task of tasks) {
+        const dependencies = remaining.get(task.id);
+        if (dependencies && dependencies.size === 0) {
+          ordered.push(task);
+          remaining.delete(task.id);
+          remaining.forEach(other => other.delete(task.id));
+          progressed = true;
+          break;
+        }
+      }
+    }
+
+    return [...ordered, ...tasks.filter(task => remaining.has(task.id))];
+  }
+
+  /**
+   * Finds a dependency cycle using depth-first search
+   *
+   * Self-dependencies and unknown dependencies are ignored; they are
+   * reported separately by {@link validateDependencies}.
+   *
+   * @param tasks - Tasks to search
+   * @returns Task IDs along the first cycle found, starting and ending with the same ID, or null
+   */
+  private static findCycle(tasks: Task[]): string[] | null {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+      const onPath = path.indexOf(id);
+      if (onPath >= 0) {
+        return [...path.slice(onPath), id];
+      }
+      if (visited.has(id)) {
+        return null;
+      }
+
+      visited.add(id);
+      path.push(id);
+      for (const dependency of byId.get(id)?.dependencies || []) {
+        if (dependency !== id && byId.has(dependency)) {
+          const cycle = visit(dependency);
+          if (cycle) {
+            return cycle;
+          }
+        }
+      }
+      path.pop();
+      return null;
+    };
+
+    for (const task of tasks) {
+      const cycle = visit(task.id);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Counts tasks by status
+   *
+   * @param tasks - Tasks to count
+   * @returns Task counts and completion rate
+   */
+  static getStats(tasks: Task[]): TaskStats {
+    const count = (status: TaskStatus) => tasks.filter(task => this.getStatus(task) === status).length;
+    const completed = count('completed');
+
+    return {
+      total: tasks.length,
+      pending: count('pending'),
+      inProgress: count('in_progress'),
+      blocked: count('blocked'),
+      completed,
+      completionRate: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0
+    };
+  }
+}
@@ -0,0 +1,786 @@
+import { DevelopmentFlowError, TemplateHelper, TemplateHelperOptions } from '../types/index.js';
+
+/**
+ * Expression inside a template tag
+ */
+type Expression =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; parts: string[]; depth: number; data: boolean; original: string }
+  | { type: 'subexpression'; call: Call };
+
+/**
+ * Helper or value invocation: `name param1 param2 key=value`
+ */
+interface Call {
+  /** Invoked path or helper name */
+  callee: Expression & { type: 'path' };
+  /** Positional arguments */
+  params: Expression[];
+  /** Named arguments */
+  hash: Record<string, Expression>;
+}
+
+/**
+ * Node of a parsed template
+ */
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'mustache'; call: Call; escape: boolean; line: number }
+  | { type: 'block'; call: Call; body: TemplateNode[]; inverse: TemplateNode[]; line: number };
+
+/**
+ * Tag found while scanning a template
+ */
+interface Tag {
+  kind: 'open' | 'close' | 'else' | 'mustache' | 'comment';
+  /** Tag content without delimiters, sigil and whitespace control markers */
+  content: string;
+  /** Whether the tag used triple braces (unescaped output) */
+  raw: boolean;
+  /** 1-based line of the tag in the template source */
+  line: number;
+  /** Whether `~` strips whitespace before the tag */
+  stripBefore: boolean;
+  /** Whether `~` strips whitespace after the tag */
+  stripAfter: boolean;
+}
+
+/**
+ * Rendering scope: the current context plus data variables
+ */
+interface Frame {
+  context: unknown;
+  data: Record<string, unknown>;
+  /** Enclosing scope with a different context, used by `../` paths */
+  parent: Frame | null;
+}
+
+/**
+ * Number of parsed templates kept in the cache
+ *
+ * User templates are re-read on every generation, so each edit of one
+ * brings a new source; the least recently used sources are evicted.
+ */
+const MAX_CACHED_TEMPLATES = 32;
+
+/** Matches `{{!-- comments --}}` and all other `{{...}}` / `{{{...}}}` tags */
+const TAG_PATTERN = /\{\{(~?)!--[\s\S]*?--(~?)\}\}|\{\{(~?)(\{?)([\s\S]*?)(\}?)(~?)\}\}/g;
+
+/**
+ * Checks whether a value counts as empty for `#if`, `#unless` and `#each`
+ *
+ * @param value - Value to check
+ * @returns True for falsy values and empty arrays
+ */
+function isEmpty(value: unknown): boolean {
+  return !value || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Splits the arguments of a helper call into its positional arguments and
+ * the options the engine passes last
+ *
+ * @param args - Arguments the helper was called with
+ * @returns Positional arguments and helper options
+ * @throws {DevelopmentFlowError} When the last argument is not the helper options
+ */
+function splitHelperArgs(args: unknown[]): { params: unknown[]; options: TemplateHelperOptions } {
+  const options = args[args.length - 1];
+  if (typeof options !== 'object' || options === null || !('fn' in options) || typeof options.fn !== 'function') {
+    throw new DevelopmentFlowError('Helper was called without its options', 'TEMPLATE_RENDER_ERROR');
+  }
+  return { params: args.slice(0, -1), options: options as TemplateHelperOptions };
+}
+
+/**
+ * Built-in block and inline helpers
+ */
+const BUILTIN_HELPERS: Record<string, TemplateHelper> = {
+  if(this: unknown, ...args: unknown[]) {
+    const { params: [condition], options } = splitHelperArgs(args);
+    const empty = options.hash.includeZero && condition === 0 ? false : isEmpty(condition);
+    return empty ? options.inverse(this) : options.fn(this);
+  },
+
+  unless(this: unknown, ...args: unknown[]) {
+    const { params: [condition], options } = splitHelperArgs(args);
+    const empty = options.hash.includeZero && condition === 0 ? false : isEmpty(condition);
+    return empty ? options.fn(this) : options.inverse(this);
+  },
+
+  with(this: unknown, ...args: unknown[]) {
+    const { params: [context], options } = splitHelperArgs(args);
+    return isEmpty(context) ? options.inverse(this) : options.fn(context);
+  },
+
+  each(this: unknown, ...args: unknown[]) {
+    const { params: [collection], options } = splitHelperArgs(args);
+    let entries: Array<[string | number, unknown]> = [];
+    if (Array.isArray(collection)) {
+      entries = collection.map((item, index) => [index, item]);
+    } else if (collection && typeof collection === 'object') {
+      entries = Object.entries(collection);
+    }
+
+    if (entries.length === 0) {
+      return options.inverse(this);
+    }
+
+    return entries.map(([key, item], index) => options.fn(item, {
+      data: {
+        index,
+        key,
+        first: index === 0,
+        last: index === entries.length - 1
+      }
+    })).join('');
+  },
+
+  math(...args: unknown[]) {
+    const operands = args.slice(0, -1);
+    let result = Number(operands[0]);
+    for (let i = 1; i < operands.length; i += 2) {
+      const operand = Number(operands[i + 1]);
+      switch (operands[i]) {
+        case '+': result += operand; break;
+        case '-': result -= operand; break;
+        case '*': result *= operand; break;
+        case '/': result /= operand; break;
+        case '%': result %= operand; break;
+        default:
+          throw new DevelopmentFlowError(`math: unknown operator '${String(operands[i])}'`, 'TEMPLATE_RENDER_ERROR');
+      }
+    }
+    return Number.isFinite(result) ? Math.round(result) : 0;
+  },
+
+  eq: (a: unknown, b: unknown) => a === b,
+  ne: (a: unknown, b: unknown) => a !== b,
+  gt: (a: unknown, b: unknown) => Number(a) > Number(b),
+  lt: (a: unknown, b: unknown) => Number(a) < Number(b),
+  and: (...args: unknown[]) => args.slice(0, -1).every(value => !isEmpty(value)),
+  or: (...args: unknown[]) => args.slice(0, -1).some(value => !isEmpty(value)),
+  not: (value: unknown) => isEmpty(value),
+
+  join(items: unknown, separator: unknown) {
+    const sep = typeof separator === 'string' ? separator : ', ';
+    return Array.isArray(items) ? items.join(sep) : '';
+  }
+};
+
+/**
+ * Handlebars-compatible template engine
+ *
+ * Renders the document templates used by {@link DocumentGenerator}. Templates
+ * are parsed into a tree once and cached, so blocks nest arbitrarily and
+ * syntax errors are reported with line numbers.
+ *
+ * Supported syntax:
+ * - Values with dotted paths: `{{project.name}}`, `{{tasks.length}}`, `{{this}}`, `{{../name}}`
+ * - Unescaped values: `{{{value}}}` (bypasses the configured escape function)
+ * - Blocks: `{{#if}}`, `{{#unless}}`, `{{#each}}`, `{{#with}}` with `{{else}}` and `{{else if ...}}`
+ * - Iteration data: `@index`, `@key`, `@first`, `@last`, `@root`
+ * - Helpers with literal, path, subexpression and `key=value` arguments: `{{math done '/' total '*' 100}}`
+ * - Comments `{{! ... }}` / `{{!-- ... --}}` and `~` whitespace control
+ *
+ * Like Handlebars, block tags and comments standing alone on a line remove
+ * that whole line from the output, so templates can be laid out readably.
+ *
+ * @example
+ * ```typescript
+ * const engine = new TemplateEngine();
+ * engine.registerHelper('upper', value => String(value).toUpperCase());
+ * const text = engine.render('{{#each items}}{{upper this}}{{#unless @last}}, {{/unless}}{{/each}}', {
+ *   items: ['a', 'b']
+ * }); // 'A, B'
+ * ```
+ */
+export class TemplateEngine {
+  /** Registered helpers indexed by name */
+  private helpers: Map<string, TemplateHelper> = new Map(Object.entries(BUILTIN_HELPERS));
+
+  /** Parsed templates indexed by source, least recently used first */
+  private cache: Map<string, TemplateNode[]> = new Map();
+
+  /** Escape function applied to `{{value}}` output */
+  private escape: (value: string) => string;
+
+  /**
+   * Creates a new TemplateEngine instance
+   *
+   * @param escape - Escape function for `{{value}}` output; defaults to no escaping
+   */
+  constructor(escape: (value: string) => string = value => value) {
+    this.escape = escape;
+  }
+
+  /**
+   * Registers a helper, replacing any helper with the same name
+   *
+   * @param name - Helper name used in templates
+   * @param helper - Helper function
+   */
+  public registerHelper(name: string, helper: TemplateHelper): void {
+    this.helpers.set(name, helper);
+  }
+
+  /**
+   * Parses a template and reports errors without rendering it
+   *
+   * Besides syntax errors, detects helper calls with arguments that name
+   * no registered helper, which would otherwise only fail once rendered.
+   *
+   * @param source - Template source
+   * @throws {DevelopmentFlowError} TEMPLATE_SYNTAX_ERROR when the template is malformed
+   * @throws {DevelopmentFlowError} TEMPLATE_RENDER_ERROR when a helper is missing
+   */
+  public compile(source: string): void {
+    this.checkHelpers(this.parse(source));
+  }
+
+  /**
+   * Renders a template with the given data
+   *
+   * @param source - Template source
+   * @param data - Root context of the template
+   * @param escape - Escape function for `{{value}}` output, overriding the engine default
+   * @returns Rendered text
+   * @throws {DevelopmentFlowError} TEMPLATE_SYNTAX_ERROR when the template is malformed
+   * @throws {DevelopmentFlowError} TEMPLATE_RENDER_ERROR when a helper is missing or fails
+   */
+  public render(source: string, data: unknown, escape: (value: string) => string = this.escape): string {
+    const nodes = this.parse(source);
+    return this.renderNodes(nodes, { context: data, data: { root: data }, parent: null }, escape);
+  }
+
+  /**
+   * Parses template source into a node tree, using the cache when possible
+   *
+   * The cache holds the {@link MAX_CACHED_TEMPLATES} most recently used
+   * sources.
+   *
+   * @param source - Template source
+   * @returns Parsed nodes
+   */
+  private parse(source: string): TemplateNode[] {
+    const cached = this.cache.get(source);
+    if (cached) {
+      this.cache.delete(source);
+      this.cache.set(source, cached);
+      return cached;
+    }
+
+    const { texts, tags } = this.scan(source);
+    let position = 0;
+
+    const parseProgram = (closeName: string | null, openLine: number): { nodes: TemplateNode[]; end: Tag | null } => {
+      const nodes: TemplateNode[] = [];
+      while (true) {
+        const text = texts[position]!;
+        if (text) {
+          nodes.push({ type: 'text', value: text });
+        }
+
+        const tag = tags[position++];
+        if (!tag) {
+          if (closeName !== null) {
+            throw this.syntaxError(`Unclosed block {{#${closeName}}}`, openLine);
+          }
+          return { nodes, end: null };
+        }
+
+        switch (tag.kind) {
+          case 'comment':
+            break;
+          case 'mustache':
+            nodes.push({ type: 'mustache', call: this.parseCall(tag.content, tag.line), escape: !tag.raw, line: tag.line });
+            break;
+          case 'open': {
+            const call = this.parseCall(tag.content, tag.line);
+            nodes.push(parseBlock(call, call.callee.original, tag.line));
+            break;
+          }
+          case 'else':
+          case 'close':
+            if (closeName === null) {
+              throw this.syntaxError(`Unexpected {{${tag.kind === 'else' ? 'else' : `/${tag.content}`}}}`, tag.line);
+            }
+            return { nodes, end: tag };
+        }
+      }
+    };
+
+    const parseBlock = (call: Call, closeName: string, line: number): TemplateNode => {
+      const { nodes: body, end } = parseProgram(closeName, line);
+      let inverse: TemplateNode[] = [];
+      let closeTag = end!;
+
+      if (closeTag.kind === 'else') {
+        if (closeTag.content) {
+          // {{else if ...}} chains parse as a nested block sharing the outer close tag
+          inverse = [parseBlock(this.parseCall(closeTag.content, closeTag.line), closeName, closeTag.line)];
+          return { type: 'block', call, body, inverse, line };
+        }
+        const rest = parseProgram(closeName, line);
+        if (rest.end!.kind === 'else') {
+          throw this.syntaxError(`Multiple {{else}} sections in {{#${closeName}}}`, rest.end!.line);
+        }
+        inverse = rest.nodes;
+        closeTag = rest.end!;
+      }
+
+      if (closeTag.content !== closeName) {
+        throw this.syntaxError(`{{#${closeName}}} does not match {{/${closeTag.content}}}`, closeTag.line);
+      }
+      return { type: 'block', call, body, inverse, line };
+    };
+
+    const { nodes } = parseProgram(null, 1);
+    this.cache.set(source, nodes);
+    if (this.cache.size > MAX_CACHED_TEMPLATES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return nodes;
+  }
+
+  /**
+   * Verifies that all helper calls in a node tree refer to registered helpers
+   *
+   * @param nodes - Parsed nodes
+   * @throws {DevelopmentFlowError} TEMPLATE_RENDER_ERROR when a helper is missing
+   */
+  private checkHelpers(nodes: TemplateNode[]): void {
+    const checkCall = (call: Call, line: number): void => {
+      const { callee, params, hash } = call;
+      const args = [...params, ...Object.values(hash)];
+      if (args.length > 0 && !this.helpers.has(callee.original)) {
+        throw new DevelopmentFlowError(`Missing helper '${callee.original}' (line ${line})`, 'TEMPLATE_RENDER_ERROR', undefined, undefined, { line });
+      }
+      for (const arg of args) {
+        if (arg.type === 'subexpression') {
+          checkCall(arg.call, line);
+        }
+      }
+    };
+
+    for (const node of nodes) {
+      if (node.type === 'mustache') {
+        checkCall(node.call, node.line);
+      } else if (node.type === 'block') {
+        checkCall(node.call, node.line);
+        this.checkHelpers(node.body);
+        this.checkHelpers(node.inverse);
+      }
+    }
+  }
+
+  /**
+   * Splits template source into text segments and tags
+   *
+   * Applies `~` whitespace control and strips standalone block, else and
+   * comment lines. The result always has one more text than tags: text `i`
+   * precedes tag `i`.
+   *
+   * @param source - Template source
+   * @returns Text segments and tags
+   */
+  private scan(source: string): { texts: string[]; tags: Tag[] } {
+    const texts: string[] = [];
+    const tags: Tag[] = [];
+    let lastIndex = 0;
+    let line = 1;
+
+    for (const match of source.matchAll(TAG_PATTERN)) {
+      const index = match.index!;
+      const text = source.slice(lastIndex, index);
+      line += (text.match(/\n/g) || []).length;
+      texts.push(text);
+      lastIndex = index + match[0].length;
+
+      if (match[5] === undefined) {
+        tags.push({ kind: 'comment', content: '', raw: false, line, stripBefore: !!match[1], stripAfter: !!match[2] });
+      } else {
+        tags.push(this.classifyTag(match, line));
+      }
+      line += (match[0].match(/\n/g) || []).length;
+    }
+    texts.push(source.slice(lastIndex));
+
+    const standalone = tags.map((tag, i) => {
+      if (tag.kind === 'mustache') {
+        return false;
+      }
+      const before = texts[i]!;
+      const after = texts[i + 1]!;
+      const startsLine = i === 0 ? /^[ \t]*$/.test(before) || /\n[ \t]*$/.test(before) : /\n[ \t]*$/.test(before);
+      const endsLine = i === tags.length - 1 ? /^[ \t]*(\r?\n|$)/.test(after) : /^[ \t]*\r?\n/.test(after);
+      return startsLine && endsLine;
+    });
+
+    tags.forEach((tag, i) => {
+      if (tag.stripBefore) {
+        texts[i] = texts[i]!.trimEnd();
+      } else if (standalone[i]) {
+        texts[i] = texts[i]!.replace(/[ \t]*$/, '');
+      }
+      if (tag.stripAfter) {
+        texts[i + 1] = texts[i + 1]!.trimStart();
+      } else if (standalone[i]) {
+        texts[i + 1] = texts[i + 1]!.replace(/^[ \t]*\r?\n?/, '');
+      }
+    });
+
+    return { texts, tags };
+  }
+
+  /**
+   * Classifies a matched `{{...}}` tag by its sigil
+   *
+   * @param match - Regular expression match of {@link TAG_PATTERN}
+   * @param line - Line of the tag
+   * @returns Classified tag
+   */
+  private classifyTag(match: RegExpMatchArray, line: number): Tag {
+    const raw = match[4] === '{';
+    if (raw !== (match[6] === '}')) {
+      throw this.syntaxError(`Unbalanced triple braces in '${match[0]}'`, line);
+    }
+
+    const content = match[5]!.trim();
+    const base = { raw, line, stripBefore: !!match[3], stripAfter: !!match[7] };
+    const sigil = content.charAt(0);
+
+    if (!content) {
+      throw this.syntaxError('Empty tag {{}}', line);
+    }
+    if (raw && /^[#/!]/.test(content)) {
+      throw this.syntaxError(`Triple braces are only allowed around values: '${match[0]}'`, line);
+    }
+    if (sigil === '!') {
+      return { ...base, kind: 'comment', content: '' };
+    }
+    if (sigil === '#') {
+      return { ...base, kind: 'open', content: content.slice(1).trim() };
+    }
+    if (sigil === '/') {
+      return { ...base, kind: 'close', content: content.slice(1).trim() };
+    }
+    if (content === 'else' || content.startsWith('else ')) {
+      return { ...base, kind: 'else', content: content.slice(4).trim() };
+    }
+    if (/^[>^&*]/.test(content)) {
+      throw this.syntaxError(`Unsupported tag '${match[0]}'`, line);
+    }
+    return { ...base, kind: 'mustache', content };
+  }
+
+  /**
+   * Parses the content of a tag into a call
+   *
+   * @param content - Tag content, e.g. `math a '/' b`
+   * @param line - Line of the tag, used for error messages
+   * @returns Parsed call
+   */
+  private parseCall(content: string, line: number): Call {
+    const tokens = this.tokenize(content, line);
+    const first = tokens.shift();
+    if (!first || typeof first === 'object') {
+      throw this.syntaxError(`Expected a name in '{{${content}}}'`, line);
+    }
+
+    const callee = this.parseExpression(first, line);
+    if (callee.type !== 'path') {
+      throw this.syntaxError(`Expected a name in '{{${content}}}', found a literal`, line);
+    }
+
+    const params: Expression[] = [];
+    const hash: Record<string, Expression> = {};
+    for (const token of tokens) {
+      if (typeof token === 'object' && 'key' in token) {
+        hash[token.key] = this.toExpression(token.value, line);
+      } else {
+        params.push(this.toExpression(token, line));
+      }
+    }
+
+    return { callee, params, hash };
+  }
+
+  /**
+   * Splits tag content into argument tokens
+   *
+   * Plain tokens are strings (quoted strings keep their quotes), subexpressions
+   * are `{ sub }` objects and named arguments are `{ key, value }` objects.
+   *
+   * @param content - Tag content
+   * @param line - Line of the tag, used for error messages
+   * @returns Argument tokens
+   */
+  private tokenize(content: string, line: number): Array<string | { sub: string } | { key: string; value: string | { sub: string } }> {
+    const tokens: Array<string | { sub: string } | { key: string; value: string | { sub: string } }> = [];
+    let i = 0;
+
+    const readValue = (): string | { sub: string } => {
+      const char = content.charAt(i);
+      if (char === '(') {
+        let depth = 0;
+        const start = i;
+        for (; i < content.length; i++) {
+          const current = content.charAt(i);
+          if (current === '"' || current === "'") {
+            const close = content.indexOf(current, i + 1);
+            if (close === -1) {
+              throw this.syntaxError(`Unterminated string in '{{${content}}}'`, line);
+            }
+            i = close;
+          } else if (current === '(') {
+            depth++;
+          } else if (current === ')' && --depth === 0) {
+            i++;
+            return { sub: content.slice(start + 1, i - 1).trim() };
+          }
+        }
+        throw this.syntaxError(`Unclosed subexpression in '{{${content}}}'`, line);
+      }
+      if (char === '"' || char === "'") {
+        const close = content.indexOf(char, i + 1);
+        if (close === -1) {
+          throw this.syntaxError(`Unterminated string in '{{${content}}}'`, line);
+        }
+        const token = content.slice(i, close + 1);
+        i = close + 1;
+        return token;
+      }
+      const start = i;
+      while (i < content.length && !/[\s()=]/.test(content.charAt(i))) {
+        i++;
+      }
+      if (start === i) {
+        throw this.syntaxError(`Unexpected '${content.charAt(i)}' in '{{${content}}}'`, line);
+      }
+      return content.slice(start, i);
+    };
+
+    while (i < content.length) {
+      if (/\s/.test(content.charAt(i))) {
+        i++;
+        continue;
+      }
+      const value = readValue();
+      if (typeof value === 'string' && content.charAt(i) === '=') {
+        i++;
+        tokens.push({ key: value, value: readValue() });
+      } else {
+        tokens.push(value);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Converts an argument token into an expression
+   *
+   * @param token - Argument token
+   * @param line - Line of the tag, used for error messages
+   * @returns Parsed expression
+   */
+  private toExpression(token: string | { sub: string }, line: number): Expression {
+    if (typeof token === 'object') {
+      return { type: 'subexpression', call: this.parseCall(token.sub, line) };
+    }
+    return this.parseExpression(token, line);
+  }
+
+  /**
+   * Parses a literal or path token
+   *
+   * @param token - Token text
+   * @param line - Line of the tag, used for error messages
+   * @returns Literal or path expression
+   */
+  private parseExpression(token: string, line: number): Expression {
+    if (/^(['"]).*\1$/s.test(token)) {
+      return { type: 'literal', value: token.slice(1, -1) };
+    }
+    if (/^-?\d+(\.\d+)?$/.test(token)) {
+      return { type: 'literal', value: Number(token) };
+    }
+    if (token === 'true' || token === 'false') {
+      return { type: 'literal', value: token === 'true' };
+    }
+    if (token === 'null' || token === 'undefined') {
+      return { type: 'literal', value: token === 'null' ? null : undefined };
+    }
+
+    let rest = token;
+    let depth = 0;
+    while (rest.startsWith('../')) {
+      depth++;
+      rest = rest.slice(3);
+    }
+
+    const data = rest.startsWith('@');
+    if (data) {
+      rest = rest.slice(1);
+    }
+    rest = rest.replace(/^(this|\.)(\/|\.|$)/, '');
+
+    const parts = rest ? rest.split(/[./]/) : [];
+    if (parts.some(part => !part) || (data && parts.length === 0)) {
+      throw this.syntaxError(`Invalid path '${token}'`, line);
+    }
+    return { type: 'path', parts, depth, data, original: token };
+  }
+
+  /**
+   * Renders a list of nodes in a scope
+   *
+   * @param nodes - Nodes to render
+   * @param frame - Current scope
+   * @param escape - Escape function for `{{value}}` output
+   * @returns Rendered text
+   */
+  private renderNodes(nodes: TemplateNode[], frame: Frame, escape: (value: string) => string): string {
+    let output = '';
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        output += node.value;
+      } else if (node.type === 'mustache') {
+        const value = this.invoke(node.call, frame, null, node.line, escape);
+        const text = value === undefined || value === null ? '' : String(value);
+        output += node.escape ? escape(text) : text;
+      } else {
+        output += this.invoke(node.call, frame, node, node.line, escape);
+      }
+    }
+    return output;
+  }
+
+  /**
+   * Evaluates a call as helper invocation, block section or value lookup
+   *
+   * @param call - Call to evaluate
+   * @param frame - Current scope
+   * @param block - Block node when the call opens a block, otherwise null
+   * @param line - Line of the tag, used for error messages
+   * @param escape - Escape function for `{{value}}` output inside blocks
+   * @returns Helper result, rendered block or looked-up value
+   */
+  private invoke(
+    call: Call,
+    frame: Frame,
+    block: (TemplateNode & { type: 'block' }) | null,
+    line: number,
+    escape: (value: string) => string
+  ): unknown {
+    const { callee, params, hash } = call;
+    const isSimpleName = callee.parts.length === 1 && callee.depth === 0 && !callee.data;
+    const helper = isSimpleName ? this.helpers.get(callee.parts[0]!) : undefined;
+
+    if (!helper && (params.length > 0 || Object.keys(hash).length > 0)) {
+      throw new DevelopmentFlowError(`Missing helper '${callee.original}' (line ${line})`, 'TEMPLATE_RENDER_ERROR', undefined, undefined, { line });
+    }
+
+    const scope = (context: unknown, data?: Record<string, unknown>): Frame => ({
+      context,
+      data: data ? { ...frame.data, ...data } : frame.data,
+      parent: context === frame.context ? frame.parent : frame
+    });
+    const options: TemplateHelperOptions = {
+      name: callee.original,
+      hash: Object.fromEntries(Object.entries(hash).map(([key, expression]) => [key, this.evaluate(expression, frame, line, escape)])),
+      data: frame.data,
+      fn: (context, extra) => block ? this.renderNodes(block.body, scope(context, extra?.data), escape) : '',
+      inverse: context => block ? this.renderNodes(block.inverse, scope(context), escape) : ''
+    };
+
+    if (helper) {
+      try {
+        return helper.call(frame.context, ...params.map(param => this.evaluate(param, frame, line, escape)), options);
+      } catch (error) {
+        if (error instanceof DevelopmentFlowError) {
+          throw error;
+        }
+        throw new DevelopmentFlowError(
+          `Helper '${callee.original}' failed (line ${line}): ${error instanceof Error ? error.message : String(error)}`,
+          'TEMPLATE_RENDER_ERROR',
+          undefined,
+          undefined,
+          { line }
+        );
+      }
+    }
+
+    const value = this.resolvePath(callee, frame);
+    if (!block) {
+      return value;
+    }
+
+    // Blocks over plain values behave like Handlebars sections
+    if (Array.isArray(value)) {
+      return BUILTIN_HELPERS.each!.call(frame.context, value, options);
+    }
+    if (value && typeof value === 'object') {
+      return BUILTIN_HELPERS.with!.call(frame.context, value, options);
+    }
+    return BUILTIN_HELPERS.if!.call(frame.context, value, options);
+  }
+
+  /**
+   * Evaluates an argument expression
+   *
+   * @param expression - Expression to evaluate
+   * @param frame - Current scope
+   * @param line - Line of the tag, used for error messages
+   * @param escape - Escape function passed on to subexpressions
+   * @returns Expression value
+   */
+  private evaluate(expression: Expression, frame: Frame, line: number, escape: (value: string) => string): unknown {
+    switch (expression.type) {
+      case 'literal':
+        return expression.value;
+      case 'path':
+        return this.resolvePath(expression, frame);
+      case 'subexpression':
+        return this.invoke(expression.call, frame, null, line, escape);
+    }
+  }
+
+  /**
+   * Resolves a path against the current scope
+   *
+   * Only own properties are looked up, so templates cannot reach prototype
+   * members such as `constructor`.
+   *
+   * @param path - Path expression
+   * @param frame - Current scope
+   * @returns Resolved value, or undefined if any segment is missing
+   */
+  private resolvePath(path: Expression & { type: 'path' }, frame: Frame): unknown {
+    let target = frame;
+    for (let i = 0; i < path.depth && target.parent; i++) {
+      target = target.parent;
+    }
+
+    let value: unknown = path.data ? target.data : target.context;
+    for (const part of path.parts) {
+      if (value === null || value === undefined || !Object.prototype.hasOwnProperty.call(value, part)) {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+  }
+
+  /**
+   * Creates a template syntax error
+   *
+   * @param message - Error description
+   * @param line - Line of the offending tag
+   * @returns Error to throw
+   */
+  private syntaxError(message: string, line: number): DevelopmentFlowError {
+    return new DevelopmentFlowError(`Template syntax error on line ${line}: ${message}`, 'TEMPLATE_SYNTAX_ERROR', undefined, undefined, { line });
+  }
+}
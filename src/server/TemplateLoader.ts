@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DocumentTemplate, OutputFormat, TemplateSource } from '../types/index.js';
+import { logger } from '../utils/index.js';
+
+/**
+ * Template read from disk together with the problems found while loading it
+ */
+export interface LoadedTemplate {
+  /** Parsed template */
+  template: DocumentTemplate;
+  /** Front-matter problems; the template must not be used when non-empty */
+  errors: string[];
+}
+
+/** Front-matter keys understood in template files */
+const FRONT_MATTER_KEYS = ['name', 'path', 'description', 'format', 'variables'];
+
+/** Output formats a template may declare */
+const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'html', 'json', 'text'];
+
+/**
+ * Removes matching surrounding quotes from a front-matter value
+ *
+ * @param value - Raw value
+ * @returns Unquoted value
+ */
+function unquote(value: string): string {
+  return /^(['"]).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parses the YAML front-matter block at the start of a template file
+ *
+ * Supports the subset used by templates: `key: value` pairs, inline lists
+ * (`variables: [a, b]`), block lists (`- a` lines below `variables:`) and
+ * `#` comments.
+ *
+ * @param source - Template file content
+ * @returns Parsed fields, the template body and any syntax errors
+ */
+function parseFrontMatter(source: string): { fields: Record<string, string | string[]>; body: string; errors: string[] } {
+  const match = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(source);
+  if (!match) {
+    return { fields: {}, body: source, errors: source.startsWith('---') ? ['Front-matter is not closed with ---'] : [] };
+  }
+
+  const fields: Record<string, string | string[]> = {};
+  const errors: string[] = [];
+  let listKey: string | null = null;
+
+  match[1]!.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const item = /^-\s*(.*)$/.exec(trimmed);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]!.trim()));
+      return;
+    }
+
+    const pair = /^([A-Za-z_]\w*)\s*:\s*(.*)$/.exec(trimmed);
+    if (!pair) {
+      errors.push(`Front-matter line ${index + 2} is not a 'key: value' pair`);
+      listKey = null;
+      return;
+    }
+
+    const key = pair[1]!;
+    const value = pair[2]!.trim();
+    listKey = null;
+    if (value === '') {
+      fields[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(entry => unquote(entry.trim())).filter(entry => entry.length > 0);
+    } else {
+      fields[key] = unquote(value);
+    }
+  });
+
+  return { fields, body: source.slice(match[0].length), errors };
+}
+
+/**
+ * Loader for user document templates stored on disk
+ *
+ * Discovers `.md` template files in a directory. Each file may start with a
+ * front-matter block declaring the template's name, output path, description,
+ * output format and variables; the rest of the file is the template content:
+ *
+ * ```markdown
+ * ---
+ * name: requirement
+ * path: requirements.md
+ * description: Company requirement format
+ * format: markdown
+ * variables: [projectName, description, requirements]
+ * ---
+ * # {{projectName}}
+ * ```
+ *
+ * Without front-matter, the file name (without `.md`) is used as the template
+ * name. Templates named like a built-in document (`requirement`, `design`,
+ * `todo`, `done`) replace it.
+ *
+ * @example
+ * ```typescript
+ * const loader = new TemplateLoader();
+ * const loaded = await loader.loadDirectory('./templates', 'global');
+ * ```
+ */
+export class TemplateLoader {
+  /**
+   * Loads all `.md` templates in a directory
+   *
+   * A missing directory yields no templates. Files that cannot be read or
+   * have malformed front-matter are returned with errors instead of being
+   * skipped, so they can be reported.
+   *
+   * @param dirPath - Directory to scan (not recursive)
+   * @param source - Source recorded on the loaded templates
+   * @returns Promise resolving to the loaded templates sorted by file name
+   */
+  public async loadDirectory(dirPath: string, source: TemplateSource): Promise<LoadedTemplate[]> {
+    let fileNames: string[];
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      fileNames = entries
+        .filter(entry => entry.isFile() && entry.name.endsWith('.md'))
+        .map(entry => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+
+    const loaded: LoadedTemplate[] = [];
+    for (const fileName of fileNames) {
+      loaded.push(await this.loadFile(path.join(dirPath, fileName), source));
+    }
+
+    logger.debug(`Loaded ${loaded.length} template(s) from ${dirPath}`);
+    return loaded;
+  }
+
+  /**
+   * Loads and validates a single template file
+   *
+   * @param filePath - Template file path
+   * @param source - Source recorded on the loaded template
+   * @returns Promise resolving to the loaded template and its errors
+   */
+  private async loadFile(filePath: string, source: TemplateSource): Promise<LoadedTemplate> {
+    const fallbackName = path.basename(filePath, '.md');
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      return {
+        template: { name: fallbackName, path: '', variables: [], content: '', source, file: filePath },
+        errors: [`Template file is not readable: ${error instanceof Error ? error.message : String(error)}`]
+      };
+    }
+
+    const { fields, body, errors } = parseFrontMatter(content);
+
+    for (const key of Object.keys(fields)) {
+      if (!FRONT_MATTER_KEYS.includes(key)) {
+        errors.push(`Unknown front-matter key '${key}' (supported: ${FRONT_MATTER_KEYS.join(', ')})`);
+      }
+    }
+
+    const stringField = (key: string): string | undefined => {
+      const value = fields[key];
+      if (Array.isArray(value)) {
+        errors.push(`Front-matter '${key}' must be a single value`);
+        return undefined;
+      }
+      return value;
+    };
+
+    const name = stringField('name') ?? fallbackName;
+    if (!/^[\w-]+$/.test(name)) {
+      errors.push(`Template name '${name}' may only contain letters, numbers, hyphens and underscores`);
+    }
+
+    const outputPath = stringField('path') ?? '';
+    if (outputPath && (outputPath !== path.basename(outputPath) || outputPath === '.' || outputPath === '..')) {
+      errors.push(`Output path '${outputPath}' must be a file name without directories`);
+    }
+
+    const description = stringField('description');
+
+    const format = stringField('format');
+    if (format !== undefined && !OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      errors.push(`Unknown format '${format}' (supported: ${OUTPUT_FORMATS.join(', ')})`);
+    }
+
+    let variables: string[] = [];
+    if (fields.variables !== undefined) {
+      if (Array.isArray(fields.variables)) {
+        variables = fields.variables;
+      } else {
+        errors.push(`Front-matter 'variables' must be a list, e.g. [projectName, description]`);
+      }
+    }
+
+    return {
+      template: {
+        name,
+        path: outputPath,
+        variables,
+        content: body,
+        ...(description && { description }),
+        ...(format && OUTPUT_FORMATS.includes(format as OutputFormat) && { format: format as OutputFormat }),
+        source,
+        file: filePath
+      },
+      errors
+    };
+  }
+}
@@ -35,6 +35,120 @@ export enum DevelopmentPhase {
   FINISH = 'finish'
 }
 
+/**
+ * Enumeration of project management actions of the development_flow tool
+ * 
+ * Unlike {@link DevelopmentPhase} values, these actions never move a project
+ * through the workflow; they inspect stored projects or change which project
+ * a session works on.
+ * 
+ * @example
+ * ```typescript
+ * const input: DevelopmentFlowInput = {
+ *   action: FlowAction.RESUME,
+ *   projectId: 'proj_123456_abc'
+ * };
+ * ```
+ */
+export enum FlowAction {
+  /** List stored projects, optionally filtered */
+  LIST = 'list',
+  /** Make a stored project the current project of the session */
+  SWITCH = 'switch',
+  /** Switch to a stored project and report where its workflow stopped */
+  RESUME = 'resume',
+  /** Full-text search across stored projects */
+  SEARCH = 'search',
+  /** Aggregate statistics across stored projects */
+  STATS = 'stats',
+  /** List the available document templates and check them for errors */
+  TEMPLATES = 'templates',
+  /** Import hand edits of the generated requirement, design and task documents */
+  SYNC = 'sync'
+}
+
+/**
+ * Enumeration of task actions of the development_flow tool
+ * 
+ * Together with {@link DevelopmentPhase.TASK_COMPLETE}, these actions change
+ * the status of a single task during task execution, or query which tasks
+ * can be worked on.
+ * 
+ * @example
+ * ```typescript
+ * const input: DevelopmentFlowInput = {
+ *   action: TaskAction.BLOCK,
+ *   taskId: 'task_001',
+ *   reason: 'Waiting for API credentials'
+ * };
+ * ```
+ */
+export enum TaskAction {
+  /** Start working on a pending or blocked task */
+  START = 'task_start',
+  /** Mark a task as blocked, with a reason */
+  BLOCK = 'task_block',
+  /** Return a completed or blocked task to pending */
+  REOPEN = 'task_reopen',
+  /** Edit title, description, priority, estimate, assignee or dependencies of a task */
+  UPDATE = 'task_update',
+  /** Add a task with a server-generated ID */
+  ADD = 'task_add',
+  /** Remove a task */
+  REMOVE = 'task_remove',
+  /** List the tasks whose dependencies are completed, in scheduling order */
+  NEXT = 'next',
+  /** Log hours worked on a task */
+  LOG = 'task_log'
+}
+
+/**
+ * Enumeration of requirement actions of the development_flow tool
+ * 
+ * Change confirmed requirements through a recorded change request instead
+ * of overwriting them.
+ * 
+ * @example
+ * ```typescript
+ * const input: DevelopmentFlowInput = {
+ *   action: RequirementAction.CHANGE_REQUEST,
+ *   reason: 'Legal requires two-factor authentication',
+ *   requirements: ['User authentication with two-factor login']
+ * };
+ * ```
+ */
+export enum RequirementAction {
+  /** Change confirmed requirements, recording the diff and the reason */
+  CHANGE_REQUEST = 'change_request'
+}
+
+/**
+ * Criteria for querying stored projects
+ * 
+ * All criteria are optional and combined with AND semantics.
+ * 
+ * @example
+ * ```typescript
+ * const query: ProjectQuery = {
+ *   phase: DevelopmentPhase.DESIGN,
+ *   name: 'auth',
+ *   updatedAfter: '2024-01-01T00:00:00Z'
+ * };
+ * ```
+ */
+export interface ProjectQuery {
+  /** Only projects currently in this phase */
+  phase?: DevelopmentPhase;
+  /** Case-insensitive substring of the project name */
+  name?: string;
+  /** Case-insensitive text matched against name, description, requirements and design */
+  text?: string;
+  /** Only projects updated at or after this ISO date */
+  updatedAfter?: string;
+  /** Only projects updated at or before this ISO date */
+  updatedBefore?: string;
+}
+
 /**
  * Comprehensive project state interface that tracks all aspects of a development project
  * 
@@ -74,6 +188,10 @@ export interface ProjectState {
   technicalRequirements?: string[];
   /** Acceptance criteria for project completion */
   acceptanceCriteria?: string[];
+  /** User stories with their own acceptance criteria */
+  userStories?: UserStory[];
+  /** Stable IDs of the requirement list entries and acceptance criteria, in document order */
+  requirementItems?: RequirementItem[];
   /** Technical architecture documentation */
   architecture?: string;
   /** Implementation plan and approach */
@@ -88,8 +206,187 @@ export interface ProjectState {
   deployment?: string;
   /** List of project tasks and subtasks */
   tasks?: Task[];
-  /** Array of completed task IDs for tracking progress */
+  /**
+   * Completed task IDs of state version 2 and earlier
+   * @deprecated Task status is tracked in {@link Task.status}; migrated on load
+   */
   completedTasks?: string[];
+  /** Stable directory holding all generated documents of the project */
+  specDir?: string;
+  /** File paths of generated documents keyed by template name */
+  documents?: Record<string, string>;
+  /** Phase whose output was confirmed by the most recent confirmation */
+  confirmedPhase?: DevelopmentPhase;
+  /** Approval records keyed by the approved phase */
+  approvals?: Partial<Record<DevelopmentPhase, PhaseApproval>>;
+  /** Reviewer feedback from rejected confirmations, keyed by phase */
+  feedback?: Partial<Record<DevelopmentPhase, ReviewFeedback[]>>;
+  /** Numbered revision history of phase documents, keyed by phase */
+  revisions?: Partial<Record<DevelopmentPhase, PhaseRevision[]>>;
+  /** Audit trail of phase transitions that were forced past the state machine */
+  phaseOverrides?: PhaseOverride[];
+  /** Requirement items as last approved, the baseline of change requests */
+  confirmedRequirements?: RequirementItem[];
+  /** Change requests against the confirmed requirements */
+  changeRequests?: ChangeRequest[];
+  /** Design sections that may be outdated, keyed by section name, with the change request that affected them */
+  staleDesignSections?: Record<string, string>;
+  /** Last generated version of the documents `sync` imports edits from */
+  documentSync?: Partial<Record<SyncDocumentName, DocumentSyncBase>>;
+  /** Version of the stored state format, used to migrate older state files */
+  stateVersion?: number;
+  /** Number of times the state was saved, used to detect saves of a stale state (missing: never saved) */
+  revision?: number;
+  /** SHA-256 of the stored state without this field, verified when the state file is loaded */
+  checksum?: string;
+}
+
+/**
+ * Audit record of a forced phase transition
+ * 
+ * Created whenever an action is executed with `force: true` although the
+ * phase state machine does not allow it from the project's current phase.
+ * 
+ * @example
+ * ```typescript
+ * const override: PhaseOverride = {
+ *   from: DevelopmentPhase.INIT,
+ *   action: DevelopmentPhase.DESIGN,
+ *   allowed: [DevelopmentPhase.REQUIREMENT],
+ *   timestamp: '2024-01-01T12:00:00Z'
+ * };
+ * ```
+ */
+export interface PhaseOverride {
+  /** Phase the project was in when the override happened */
+  from: DevelopmentPhase;
+  /** Action that was forced */
+  action: DevelopmentPhase;
+  /** Actions that would have been allowed */
+  allowed: DevelopmentPhase[];
+  /** Approvals that were missing for the action */
+  missingApprovals?: DevelopmentPhase[];
+  /** ISO timestamp of the override */
+  timestamp: string;
+}
+
+/**
+ * Approval record of a confirmed phase
+ * 
+ * Captures who approved the output of a phase and a hash of the approved
+ * document, so later phases can verify that their inputs were signed off.
+ * 
+ * @example
+ * ```typescript
+ * const approval: PhaseApproval = {
+ *   phase: DevelopmentPhase.REQUIREMENT,
+ *   approvedBy: 'alice',
+ *   approvedAt: '2024-01-01T12:00:00Z',
+ *   comment: 'Looks good',
+ *   documentHash: '9f86d081884c7d659a2feaa0c55ad015...'
+ * };
+ * ```
+ */
+export interface PhaseApproval {
+  /** Phase whose output was approved */
+  phase: DevelopmentPhase;
+  /** Name of the approver */
+  approvedBy: string;
+  /** ISO timestamp of the approval */
+  approvedAt: string;
+  /** Optional approval comment */
+  comment?: string;
+  /** SHA-256 hash of the approved document */
+  documentHash: string;
+}
+
+/**
+ * Reviewer feedback item attached to a rejected confirmation
+ * 
+ * Feedback stays open until a later revision of the same phase addresses it.
+ * 
+ * @example
+ * ```typescript
+ * const feedback: ReviewFeedback = {
+ *   id: 'requirement_fb_1',
+ *   phase: DevelopmentPhase.REQUIREMENT,
+ *   text: 'Specify the password policy',
+ *   section: 'Functional Requirements',
+ *   reviewer: 'alice',
+ *   createdAt: '2024-01-01T12:00:00Z',
+ *   status: 'open'
+ * };
+ * ```
+ */
+export interface ReviewFeedback {
+  /** Unique feedback identifier within the project */
+  id: string;
+  /** Phase the feedback applies to */
+  phase: DevelopmentPhase;
+  /** Feedback text */
+  text: string;
+  /** Optional document section the feedback refers to */
+  section?: string;
+  /** Name of the reviewer */
+  reviewer: string;
+  /** ISO timestamp when the feedback was given */
+  createdAt: string;
+  /** Whether the feedback is still open */
+  status: 'open' | 'addressed';
+  /** Revision number that addressed the feedback */
+  addressedInRevision?: number;
+}
+
+/**
+ * Numbered revision of a phase document
+ * 
+ * @example
+ * ```typescript
+ * const revision: PhaseRevision = {
+ *   revision: 2,
+ *   createdAt: '2024-01-02T09:00:00Z',
+ *   documentHash: '9f86d081884c7d659a2feaa0c55ad015...',
+ *   addressedFeedback: ['requirement_fb_1']
+ * };
+ * ```
+ */
+export interface PhaseRevision {
+  /** Sequential revision number, starting at 1 */
+  revision: number;
+  /** ISO timestamp of the revision */
+  createdAt: string;
+  /** SHA-256 hash of the generated document */
+  documentHash: string;
+  /** IDs of feedback items addressed by this revision */
+  addressedFeedback: string[];
+}
+
+/**
+ * Lifecycle status of a task
+ * 
+ * - pending: not started yet
+ * - in_progress: being worked on
+ * - blocked: cannot proceed, see {@link Task.blockedReason}
+ * - completed: done
+ */
+export type TaskStatus = 'pending' | 'in_progress' | 'blocked' | 'completed';
+
+/**
+ * Task counts by status
+ */
+export interface TaskStats {
+  /** Number of tasks */
+  total: number;
+  /** Tasks not started yet */
+  pending: number;
+  /** Tasks being worked on */
+  inProgress: number;
+  /** Blocked tasks */
+  blocked: number;
+  /** Completed tasks */
+  completed: number;
+  /** Completed tasks in percent of all tasks, rounded */
+  completionRate: number;
 }
 
 /**
@@ -119,24 +416,465 @@ export interface Task {
   title: string;
   /** Detailed task description and requirements */
   description: string;
-  /** Current task status */
-  status: 'pending' | 'in_progress' | 'completed';
+  /** Current task status, the single source of truth for task progress */
+  status: TaskStatus;
+  /** Why the task is blocked (status 'blocked' only) */
+  blockedReason?: string;
+  /** ISO timestamp when work on the task last started */
+  startedAt?: string;
+  /** ISO timestamp when the task was completed */
+  completedAt?: string;
   /** Task priority level for scheduling */
   priority: 'low' | 'medium' | 'high';
   /** Optional assignee responsible for the task */
   assignee?: string;
   /** Estimated effort in hours */
   estimatedHours?: number;
-  /** Actual time spent on the task in hours */
+  /** Actual time spent on the task in hours, the sum of the finished time entries */
   actualHours?: number;
+  /** Work recorded on the task by timers and manual logs */
+  timeEntries?: TimeEntry[];
   /** Array of task IDs that must be completed first */
   dependencies?: string[];
+  /** ID of the parent task when this task is a subtask */
+  parentId?: string;
+  /** IDs of the requirements and acceptance criteria the task implements */
+  requirementIds?: string[];
+  /** Change request that may have made the task outdated; cleared when the task is edited */
+  staleBy?: string;
   /** ISO timestamp when task was created */
   createdAt: string;
   /** ISO timestamp when task was last updated */
   updatedAt: string;
 }
 
+/**
+ * Work recorded on a task
+ * 
+ * Timer entries are opened by task_start and closed when the task leaves the
+ * in_progress status; manual entries are logged with task_log and end at the
+ * time they were logged.
+ * 
+ * @example
+ * ```typescript
+ * const entry: TimeEntry = {
+ *   source: 'timer',
+ *   startedAt: '2024-01-01T09:00:00.000Z',
+ *   endedAt: '2024-01-01T11:30:00.000Z',
+ *   hours: 2.5
+ * };
+ * ```
+ */
+export interface TimeEntry {
+  /** How the entry was recorded */
+  source: 'timer' | 'manual';
+  /** ISO timestamp when the work started */
+  startedAt: string;
+  /** ISO timestamp when the work ended, missing while the timer is running */
+  endedAt?: string;
+  /** Duration in hours, 0 while the timer is running */
+  hours: number;
+  /** What was worked on */
+  note?: string;
+}
+
+/**
+ * Estimated and actual hours of a group of tasks
+ */
+export interface TimeTotals {
+  /** Number of tasks in the group */
+  tasks: number;
+  /** Sum of the estimates of tasks without subtasks */
+  estimatedHours: number;
+  /** Sum of the actual hours */
+  actualHours: number;
+  /** Actual minus estimated hours; positive when the group took longer than planned */
+  variance: number;
+  /** Variance in percent of the estimate, null without estimate */
+  variancePercent: number | null;
+}
+
+/**
+ * Estimate-versus-actual report of a project's tasks
+ */
+export interface TimeReport {
+  /** Totals over all tasks */
+  total: TimeTotals;
+  /** Totals over completed tasks, the basis for calibrating estimates */
+  completed: TimeTotals;
+  /**
+   * Average estimate accuracy of completed tasks with an estimate and logged
+   * time, in percent: 100 minus the absolute variance percentage, at least 0.
+   * Null when no such task exists.
+   */
+  estimateAccuracy: number | null;
+  /** Totals per task priority, for the priorities in use */
+  byPriority: Partial<Record<Task['priority'], TimeTotals>>;
+  /** Totals per assignee; tasks without assignee are grouped as 'unassigned' */
+  byAssignee: Record<string, TimeTotals>;
+  /** IDs of tasks with a running timer */
+  runningTimers: string[];
+}
+
+/**
+ * Task fields accepted from clients
+ * 
+ * Entries of the todo action's task list whose `id` matches an existing task
+ * patch it; other entries add a task, with a server-generated ID when `id`
+ * is omitted. Status and timestamps are owned by the server, so `status` is
+ * ignored.
+ * 
+ * @example
+ * ```typescript
+ * const patch: TaskInput = { id: 'task_002', priority: 'high' };
+ * const added: TaskInput = { title: 'Write migration guide', dependencies: ['task_002'] };
+ * ```
+ */
+export interface TaskInput {
+  /** Existing task to patch or ID for a new task, generated when omitted */
+  id?: string;
+  /** Task title, required for new tasks */
+  title?: string;
+  /** Task description */
+  description?: string;
+  /** Ignored; use the task actions to change the status */
+  status?: TaskStatus;
+  /** Task priority, 'medium' for new tasks when omitted */
+  priority?: Task['priority'];
+  /** Task assignee, empty to unassign */
+  assignee?: string;
+  /** Estimated effort in hours */
+  estimatedHours?: number;
+  /** IDs of tasks that must be completed first */
+  dependencies?: string[];
+  /** Parent task ID making this task a subtask, empty for a top-level task */
+  parentId?: string;
+  /** IDs of the requirements and acceptance criteria the task implements */
+  requirementIds?: string[];
+}
+
+/**
+ * Task placed in the task hierarchy, with progress rolled up from its subtasks
+ * 
+ * @example
+ * ```typescript
+ * const node: TaskTreeNode = {
+ *   task,
+ *   number: '1.2',
+ *   depth: 1,
+ *   children: [],
+ *   totalLeaves: 1,
+ *   completedLeaves: 0,
+ *   completionRate: 0,
+ *   estimatedHours: 4
+ * };
+ * ```
+ */
+export interface TaskTreeNode {
+  /** The task */
+  task: Task;
+  /** Outline number, e.g. '1.2' for the second subtask of the first task */
+  number: string;
+  /** Nesting depth, 0 for top-level tasks */
+  depth: number;
+  /** Subtasks in list order */
+  children: TaskTreeNode[];
+  /** Tasks without subtasks in this subtree (1 for a task without subtasks) */
+  totalLeaves: number;
+  /** Completed tasks among them; a completed task counts its whole subtree as completed */
+  completedLeaves: number;
+  /** Completed leaves in percent of all leaves, rounded */
+  completionRate: number;
+  /** Own estimate without subtasks, otherwise the sum of the subtasks' rolled-up estimates */
+  estimatedHours?: number;
+}
+
+/**
+ * List a requirement entry belongs to
+ * 
+ * - story: user stories (`ProjectState.userStories`)
+ * - requirement: core requirements (`ProjectState.requirements`)
+ * - functional: functional requirements
+ * - technical: technical requirements
+ * - acceptance: acceptance criteria, of the project or of a user story
+ */
+export type RequirementKind = 'story' | 'requirement' | 'functional' | 'technical' | 'acceptance';
+
+/**
+ * Requirement entry with a stable ID
+ * 
+ * IDs are prefixed per list (`US-`, `REQ-`, `FR-`, `TR-`, `AC-`) and kept as
+ * long as the entry's text is unchanged, so tasks and design sections can
+ * reference them across revisions. IDs of removed entries are never reused.
+ * 
+ * @example
+ * ```typescript
+ * const item: RequirementItem = { id: 'FR-2', kind: 'functional', text: 'Users can search products' };
+ * ```
+ */
+export interface RequirementItem {
+  /** Stable requirement ID */
+  id: string;
+  /** List the entry belongs to */
+  kind: RequirementKind;
+  /** Requirement text; for user stories the full "As a …, I want …, so that …" sentence */
+  text: string;
+  /** ID of the user story an acceptance criterion belongs to */
+  storyId?: string;
+}
+
+/**
+ * User story with its own acceptance criteria
+ * 
+ * Rendered as "As a <role>, I want <goal>, so that <benefit>".
+ * 
+ * @example
+ * ```typescript
+ * const story: UserStory = {
+ *   role: 'shopper',
+ *   goal: 'to save items for later',
+ *   benefit: 'I can buy them in another session',
+ *   acceptanceCriteria: ['WHEN a shopper saves an item THEN the system SHALL add it to the wish list']
+ * };
+ * ```
+ */
+export interface UserStory {
+  /** Who wants the feature */
+  role: string;
+  /** What they want */
+  goal: string;
+  /** Why they want it */
+  benefit?: string;
+  /** Acceptance criteria of the story as EARS text */
+  acceptanceCriteria: string[];
+}
+
+/**
+ * User story as sent by clients, with acceptance criteria as text or in
+ * structured EARS form
+ */
+export interface UserStoryInput {
+  /** Who wants the feature */
+  role: string;
+  /** What they want */
+  goal: string;
+  /** Why they want it */
+  benefit?: string;
+  /** Acceptance criteria of the story */
+  acceptanceCriteria?: Array<string | AcceptanceCriterion>;
+}
+
+/**
+ * Acceptance criterion in structured EARS form
+ * 
+ * Stored as EARS text: `WHEN <trigger> [AND <condition>] THEN the system
+ * SHALL <response>`, `IF <condition> THEN the system SHALL <response>`
+ * without a trigger, or `The system SHALL <response>` without either.
+ * 
+ * @example
+ * ```typescript
+ * const criterion: AcceptanceCriterion = {
+ *   trigger: 'a user submits the login form',
+ *   condition: 'the password is wrong',
+ *   response: 'show an error message'
+ * };
+ * // WHEN a user submits the login form AND the password is wrong THEN the system SHALL show an error message
+ * ```
+ */
+export interface AcceptanceCriterion {
+  /** Event that starts the behaviour */
+  trigger?: string;
+  /** State or precondition that must hold */
+  condition?: string;
+  /** Required system response */
+  response: string;
+}
+
+/**
+ * Problem found in a requirement by the requirement linter
+ * 
+ * - ambiguous_term: the text uses a vague word that cannot be verified, e.g. 'fast'
+ * - missing_shall: an acceptance criterion has no SHALL clause
+ * - duplicate: the text repeats an earlier requirement
+ * 
+ * @example
+ * ```typescript
+ * const finding: RequirementFinding = {
+ *   requirementId: 'AC-2',
+ *   rule: 'ambiguous_term',
+ *   message: "AC-2 uses the ambiguous term 'fast'"
+ * };
+ * ```
+ */
+export interface RequirementFinding {
+  /** ID of the requirement the finding is about */
+  requirementId: string;
+  /** Linter rule that found the problem */
+  rule: 'ambiguous_term' | 'missing_shall' | 'duplicate';
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Recorded change of confirmed requirements
+ * 
+ * Holds the difference to the confirmed requirements and the design
+ * sections and tasks that depend on removed or edited entries. A change
+ * request stays pending until the requirements are confirmed again.
+ * 
+ * @example
+ * ```typescript
+ * const change: ChangeRequest = {
+ *   id: 'CR-1',
+ *   reason: 'Legal requires two-factor authentication',
+ *   requestedBy: 'alice',
+ *   createdAt: '2024-01-01T12:00:00Z',
+ *   added: [{ id: 'REQ-4', kind: 'requirement', text: 'Two-factor login' }],
+ *   removed: [{ id: 'REQ-1', kind: 'requirement', text: 'Password login' }],
+ *   staleDesignSections: ['architecture'],
+ *   staleTasks: ['task_002'],
+ *   status: 'pending'
+ * };
+ * ```
+ */
+export interface ChangeRequest {
+  /** Change request identifier, e.g. 'CR-1' */
+  id: string;
+  /** Why the requirements change */
+  reason: string;
+  /** Who requested the change */
+  requestedBy: string;
+  /** ISO timestamp when the change was requested */
+  createdAt: string;
+  /** Entries not in the confirmed requirements; edited entries appear as removed and added */
+  added: RequirementItem[];
+  /** Confirmed entries that were removed or edited */
+  removed: RequirementItem[];
+  /** Design sections mentioning a removed entry */
+  staleDesignSections: string[];
+  /** Tasks implementing a removed entry */
+  staleTasks: string[];
+  /** Approvals the change revoked: the requirements and the design or task list depending on changed entries */
+  revokedApprovals?: DevelopmentPhase[];
+  /** 'pending' until the changed requirements are confirmed */
+  status: 'pending' | 'approved';
+  /** ISO timestamp of the confirmation */
+  approvedAt?: string;
+}
+
+/**
+ * Generated documents whose hand edits `sync` imports
+ */
+export type SyncDocumentName = 'requirement' | 'design' | 'todo';
+
+/**
+ * Generated version of a document, the common base of the document and
+ * the project state when syncing
+ * 
+ * Field names are the requirement list names (`requirements`,
+ * `userStories`, …), the design section names (`architecture`, …) and
+ * `<taskId>.<field>` for tasks (`task_001.checked`, `task_001.title`, …).
+ * Lists are stored as JSON.
+ */
+export interface DocumentSyncBase {
+  /** SHA-256 hash of the generated content */
+  hash: string;
+  /** Syncable fields parsed from the generated content */
+  fields: Record<string, string>;
+}
+
+/**
+ * Result of generating a document whose hand edits `sync` imports
+ * 
+ * A document edited by hand since it was last generated is skipped, so
+ * that its edits survive until they are synced.
+ */
+export interface GeneratedDocument {
+  /** Absolute path of the document */
+  filePath: string;
+  /** SHA-256 hash of the content rendered from the project state */
+  hash: string;
+  /** Whether the document was left unchanged because of hand edits not synced yet */
+  skipped: boolean;
+}
+
+/**
+ * Field of a generated document changed by hand
+ */
+export interface SyncChange {
+  /** Document the field was read from */
+  document: SyncDocumentName;
+  /** Field name, e.g. 'requirements' or 'task_001.checked' */
+  field: string;
+  /** Value in the document */
+  value: string;
+}
+
+/**
+ * Field changed both in a document and in the project state since the
+ * document was generated
+ */
+export interface SyncConflict {
+  /** Document the field was read from */
+  document: SyncDocumentName;
+  /** Field name */
+  field: string;
+  /** Value in the document */
+  documentValue: string;
+  /** Value in the project state */
+  stateValue: string;
+  /** Value when the document was generated */
+  baseValue?: string;
+}
+
+/**
+ * Result of syncing hand edits of the generated documents
+ * 
+ * @example
+ * ```typescript
+ * const report: SyncReport = {
+ *   imported: [{ document: 'todo', field: 'task_001.checked', value: 'true' }],
+ *   conflicts: [],
+ *   rejected: [{ document: 'todo', field: 'task_002.priority', value: 'urgent', reason: 'task_002: priority must be one of: low, medium, high' }]
+ * };
+ * ```
+ */
+export interface SyncReport {
+  /** Changes applied to the project state */
+  imported: SyncChange[];
+  /** Fields changed on both sides; neither side was changed */
+  conflicts: SyncConflict[];
+  /** Changes that could not be applied, with the reason */
+  rejected: Array<SyncChange & { reason: string }>;
+}
+
+/**
+ * Traceability of a requirement to the design and the tasks
+ * 
+ * @example
+ * ```typescript
+ * const trace: RequirementTrace = {
+ *   id: 'REQ-1',
+ *   kind: 'requirement',
+ *   text: 'User authentication',
+ *   designSections: ['architecture'],
+ *   tasks: [{ id: 'task_001', title: 'Login endpoint', status: 'completed' }],
+ *   completionRate: 100,
+ *   status: 'completed'
+ * };
+ * ```
+ */
+export interface RequirementTrace extends RequirementItem {
+  /** Design sections mentioning the requirement ID */
+  designSections: string[];
+  /** Tasks referencing the requirement */
+  tasks: Array<{ id: string; title: string; status: TaskStatus }>;
+  /** Completed referencing tasks in percent, 0 without tasks */
+  completionRate: number;
+  /** 'unplanned' without tasks, 'completed' once all of them are completed, otherwise 'open' */
+  status: 'unplanned' | 'open' | 'completed';
+}
+
 /**
  * Input interface for initiating a development flow process
  * 
@@ -154,8 +892,10 @@ export interface Task {
  * ```
  */
 export interface DevelopmentFlowInput {
-  /** The development phase action to execute */
-  action: DevelopmentPhase;
+  /** The development phase, project management action or task lifecycle action to execute */
+  action: DevelopmentPhase | FlowAction | TaskAction | RequirementAction;
+  /** Target project ID, defaults to the current project of the session */
+  projectId?: string;
   /** Name of the project to be created or continued */
   projectName?: string;
   /** Optional detailed description of the project goals */
@@ -166,12 +906,24 @@ export interface DevelopmentFlowInput {
   functionalRequirements?: string[];
   /** Technical requirements and constraints */
   technicalRequirements?: string[];
-  /** Acceptance criteria for project completion */
-  acceptanceCriteria?: string[];
+  /** Acceptance criteria for project completion, as text or in structured EARS form */
+  acceptanceCriteria?: Array<string | AcceptanceCriterion>;
+  /** User stories with their own acceptance criteria (action: requirement) */
+  userStories?: UserStoryInput[];
   /** Phase identifier as string */
   phase?: string;
   /** User confirmation flag for proceeding to next phase */
   confirmed?: boolean;
+  /** Name of the reviewer approving or rejecting a phase (action: confirmation) */
+  approvedBy?: string;
+  /** Name of the person requesting a requirement change (action: change_request) */
+  requestedBy?: string;
+  /** Optional approval comment (action: confirmation) */
+  comment?: string;
+  /** Reviewer feedback items for a rejection (action: confirmation with confirmed: false) */
+  feedback?: Array<{ text: string; section?: string }>;
+  /** Feedback IDs addressed by this revision, defaults to all open feedback of the phase (actions: requirement, design, todo) */
+  addressedFeedback?: string[];
   /** Technical architecture documentation */
   architecture?: string;
   /** Implementation plan and approach */
@@ -184,12 +936,38 @@ export interface DevelopmentFlowInput {
   interfaces?: string;
   /** Deployment strategy and configuration */
   deployment?: string;
-  /** List of project tasks and subtasks */
-  tasks?: Task[];
+  /** Tasks to add or patch, matched by ID (action: todo) */
+  tasks?: TaskInput[];
   /** Specific task identifier for task operations */
   taskId?: string;
+  /** Why the task is blocked (action: task_block) or why requirements change (action: change_request) */
+  reason?: string;
+  /** Task title (actions: task_add, task_update) */
+  title?: string;
+  /** Task priority (actions: task_add, task_update) */
+  priority?: Task['priority'];
+  /** Effort estimate in hours (actions: task_add, task_update) */
+  estimatedHours?: number;
+  /** Task assignee, empty to unassign (actions: task_add, task_update) */
+  assignee?: string;
+  /** IDs of tasks that must be completed first (actions: task_add, task_update) */
+  dependencies?: string[];
+  /** Parent task ID, empty to make the task top-level (actions: task_add, task_update) */
+  parentId?: string;
+  /** IDs of the requirements the task implements (actions: task_add, task_update) */
+  requirementIds?: string[];
+  /** Hours worked (action: task_log) */
+  hours?: number;
+  /** What was worked on (action: task_log) */
+  note?: string;
   /** Force flag to override validation checks */
   force?: boolean;
+  /** Search text matched against project content (action: search) */
+  query?: string;
+  /** Only include projects updated at or after this ISO date (actions: list, search) */
+  updatedAfter?: string;
+  /** Only include projects updated at or before this ISO date (actions: list, search) */
+  updatedBefore?: string;
 }
 
 /**
@@ -224,6 +1002,8 @@ export interface DevelopmentFlowResult {
   nextSteps?: string[];
   /** Array of files generated during the operation */
   generatedFiles?: string[];
+  /** Documents not regenerated because their hand edits must be synced first */
+  skippedFiles?: string[];
 }
 
 /**
@@ -251,12 +1031,14 @@ export class DevelopmentFlowError extends Error {
    * @param code - Unique error code for programmatic handling
    * @param phase - Optional development phase where error occurred
    * @param projectId - Optional project identifier
+   * @param details - Optional structured data for programmatic handling
    */
   constructor(
     message: string,
     public code: string,
     public phase?: DevelopmentPhase,
-    public projectId?: string
+    public projectId?: string,
+    public details?: Record<string, any>
   ) {
     super(message);
     this.name = 'DevelopmentFlowError';
@@ -278,14 +1060,21 @@ export class DevelopmentFlowError extends Error {
  *   enableLogging: true,
  *   logLevel: 'info',
  *   maxProjects: 100,
- *   autoBackup: true
+ *   autoBackup: true,
+ *   documentSnapshots: false,
+ *   autoCompleteParentTasks: true,
+ *   strictRequirements: false,
+ *   outputLayout: 'kiro',
+ *   transport: 'http',
+ *   httpHost: '127.0.0.1',
+ *   httpPort: 3000
  * };
  * ```
  */
 export interface DevelopmentFlowConfig {
   /** Base directory for all development flow operations */
   baseDir: string;
-  /** Directory path for document templates */
+  /** Directory of user `.md` templates with front-matter that override or extend the built-in templates */
   templatesDir: string;
   /** Directory path for project files */
   projectsDir: string;
@@ -297,6 +1086,44 @@ export interface DevelopmentFlowConfig {
   maxProjects: number;
   /** Whether to automatically backup project state */
   autoBackup: boolean;
+  /** Whether to keep timestamped snapshots of documents before regenerating them */
+  documentSnapshots: boolean;
+  /** Whether completing the last open subtask also completes its parent task */
+  autoCompleteParentTasks: boolean;
+  /** Whether requirement linter findings block the confirmation of requirements */
+  strictRequirements: boolean;
+  /**
+   * Document output layout: 'default' writes numbered folders under projectsDir,
+   * 'kiro' writes `.kiro/specs/<feature>/` folders under baseDir using Kiro file names
+   */
+  outputLayout: 'default' | 'kiro';
+  /** Transport used to serve MCP clients */
+  transport: 'stdio' | 'http';
+  /** Host interface the HTTP transport binds to */
+  httpHost: string;
+  /** Port the HTTP transport listens on */
+  httpPort: number;
+}
+
+/**
+ * Per-connection session context
+ * 
+ * Every MCP connection owns a session context so that the active project
+ * of one client is never overwritten by another client.
+ * 
+ * @example
+ * ```typescript
+ * const session: SessionContext = {
+ *   id: 'stdio',
+ *   currentProject: null
+ * };
+ * ```
+ */
+export interface SessionContext {
+  /** Unique session identifier ('stdio' or the HTTP transport session ID) */
+  id: string;
+  /** Currently active project of the session */
+  currentProject: ProjectState | null;
 }
 
 /**
@@ -324,8 +1151,92 @@ export interface DocumentTemplate {
   variables: string[];
   /** Template content with variable placeholders */
   content: string;
+  /** Short description of the template, from the template file's front-matter */
+  description?: string;
+  /** Where the template was loaded from (built-in when omitted) */
+  source?: TemplateSource;
+  /** Template file the template was loaded from */
+  file?: string;
+  /** Output format deciding how values are escaped (inferred from the output path when omitted) */
+  format?: OutputFormat;
 }
 
+/**
+ * Output format of a rendered document
+ * 
+ * Text is stored raw and escaped per format at render time: Markdown
+ * escapes inline HTML, HTML escapes entities, JSON escapes string
+ * literals and text output is left as is.
+ */
+export type OutputFormat = 'markdown' | 'html' | 'json' | 'text';
+
+/**
+ * Origin of a document template, in ascending precedence
+ * 
+ * - builtin: shipped with the server
+ * - global: loaded from `DevelopmentFlowConfig.templatesDir`
+ * - project: loaded from the `templates` folder inside a project's spec directory
+ */
+export type TemplateSource = 'builtin' | 'global' | 'project';
+
+/**
+ * Template listing entry returned by the templates action
+ */
+export interface TemplateInfo {
+  /** Template name; templates named like a built-in document override it */
+  name: string;
+  /** Output file name of generated documents */
+  path: string;
+  /** Output format used to escape values */
+  format: OutputFormat;
+  /** Declared template variables */
+  variables: string[];
+  /** Short description of the template */
+  description?: string;
+  /** Where the template was loaded from */
+  source: TemplateSource;
+  /** Template file, for templates loaded from disk */
+  file?: string;
+  /** Whether a template with higher precedence replaces this one */
+  overridden: boolean;
+  /** Problems that prevent the template from being used */
+  errors: string[];
+  /** Problems that don't prevent the template from being used */
+  warnings: string[];
+}
+
+/**
+ * Options passed as the last argument to every template helper
+ * 
+ * Block helpers render their body with `fn` and their `{{else}}` section
+ * with `inverse`; inline helpers receive no-op implementations of both.
+ */
+export interface TemplateHelperOptions {
+  /** Name the helper was invoked with */
+  name: string;
+  /** Named `key=value` arguments */
+  hash: Record<string, unknown>;
+  /** Data variables (`@index`, `@root`, ...) of the current scope */
+  data: Record<string, unknown>;
+  /** Renders the block body with a context and optional extra data variables */
+  fn: (context: unknown, options?: { data?: Record<string, unknown> }) => string;
+  /** Renders the `{{else}}` section with a context */
+  inverse: (context: unknown) => string;
+}
+
+/**
+ * Template helper function
+ * 
+ * Receives the evaluated positional arguments followed by the helper options.
+ * The function's `this` is the current template context.
+ * 
+ * @example
+ * ```typescript
+ * const upper: TemplateHelper = (value) => String(value).toUpperCase();
+ * ```
+ */
+export type TemplateHelper = (this: unknown, ...args: unknown[]) => unknown;
+
 // Log level
 export enum LogLevel {
   DEBUG = 'debug',
@@ -11,8 +11,9 @@
  */
 
 import { promises as fs } from 'fs';
+import { createHash, randomBytes } from 'crypto';
 import path from 'path';
-import { ProjectState, LogLevel, LogEntry, DevelopmentFlowConfig, DevelopmentFlowError, DevelopmentPhase } from '../types/index.js';
+import { ProjectState, LogLevel, LogEntry, DevelopmentFlowConfig, DevelopmentFlowInput, DevelopmentFlowError, DevelopmentPhase, OutputFormat, TaskInput } from '../types/index.js';
 
 /**
  * Generates a unique project identifier using timestamp and random string
@@ -101,15 +102,16 @@ export async function ensureDir(dirPath: string): Promise<void> {
 }
 
 /**
- * Safely reads and parses a JSON file with type safety
+ * Reads and parses a JSON file with type safety
  * 
- * Attempts to read a JSON file and parse its contents. Returns null if the
- * file doesn't exist, can't be read, or contains invalid JSON. This prevents
- * errors from propagating and allows for graceful handling of missing files.
+ * Returns null if the file doesn't exist. A file that exists but can't be
+ * read or contains invalid JSON throws, so that a corrupted file is not
+ * mistaken for a missing one.
  * 
  * @template T - The expected type of the JSON content
  * @param filePath - Path to the JSON file to read
- * @returns The parsed JSON content as type T, or null if reading/parsing fails
+ * @returns The parsed JSON content as type T, or null if the file doesn't exist
+ * @throws {SyntaxError} When the file contains invalid JSON, e.g. after a truncated write
  * 
  * @example
  * ```typescript
@@ -122,16 +124,203 @@ export async function ensureDir(dirPath: string): Promise<void> {
  * if (config) {
  *   console.log(config.apiUrl); // Type-safe access
  * } else {
- *   console.log('Config file not found or invalid');
+ *   console.log('Config file not found');
  * }
  * ```
  */
 export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  let content: string;
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    return JSON.parse(content) as T;
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  return JSON.parse(content) as T;
+}
+
+/**
+ * Writes a file atomically
+ * 
+ * Writes the content to a temporary file next to the target, flushes it to
+ * disk and renames it over the target. Readers, and the file after a crash,
+ * see either the old or the new content, never a partial write. The
+ * temporary file is removed if any step fails.
+ * 
+ * @param filePath - Path of the file to write
+ * @param content - File content
+ * @throws Will throw an error if file writing fails due to permissions or filesystem issues
+ * 
+ * @example
+ * ```typescript
+ * await writeFileAtomic('./data/projects.json', JSON.stringify(index));
+ * ```
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const dirPath = path.dirname(filePath);
+  await ensureDir(dirPath);
+
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  // Flush the directory entry so the rename survives a power loss; not supported on every platform
+  try {
+    const directory = await fs.open(dirPath, 'r');
+    try {
+      await directory.sync();
+    } finally {
+      await directory.close();
+    }
   } catch {
-    return null;
+    // The file content is on disk already
+  }
+}
+
+/**
+ * Reads the owner token of a lock file
+ * 
+ * @param lockPath - Path of the lock file
+ * @returns The owner token, or null when the lock file does not exist
+ */
+async function readLockOwner(lockPath: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(lockPath, 'utf-8')).trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Breaks a lock file left over by a crashed holder
+ * 
+ * The lock is renamed to a name unique to the caller, which only one of
+ * several waiters can do. When the renamed file no longer holds the stale
+ * owner token, another waiter broke the stale lock and acquired a new one
+ * in between, so that lock is put back.
+ * 
+ * @param lockPath - Path of the lock file
+ * @param staleOwner - Owner token read from the stale lock
+ * @param token - Owner token of the caller
+ */
+async function breakStaleLock(lockPath: string, staleOwner: string, token: string): Promise<void> {
+  const brokenPath = `${lockPath}.${token.replace(':', '.')}.stale`;
+  try {
+    await fs.rename(lockPath, brokenPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    if (await readLockOwner(brokenPath) !== staleOwner) {
+      await fs.link(brokenPath, lockPath).catch(() => undefined);
+    }
+  } finally {
+    await fs.rm(brokenPath, { force: true });
+  }
+}
+
+/**
+ * Runs a function while holding an exclusive lock file
+ * 
+ * The lock is a file created exclusively next to the protected file, so it
+ * serializes processes sharing a directory as well as concurrent calls
+ * within one process. It holds an owner token (process id and a random
+ * value), and only the owner removes it. The holder refreshes the lock's
+ * modification time while `fn` runs; a lock not refreshed for `staleAfter`
+ * is taken to be left over by a crashed process and broken.
+ * 
+ * @template T - Result type of the function
+ * @param lockPath - Path of the lock file, e.g. `projects.json.lock`
+ * @param fn - Function to run while holding the lock
+ * @param options - Milliseconds to wait for the lock and after which a lock is stale
+ * @returns The result of the function
+ * @throws {DevelopmentFlowError} With code LOCK_TIMEOUT when the lock can't be acquired in time
+ * 
+ * @example
+ * ```typescript
+ * await withFileLock(`${indexPath}.lock`, async () => {
+ *   const index = await readJsonFile<Record<string, string>>(indexPath);
+ *   await writeJsonFile(indexPath, { ...index, [projectId]: filePath });
+ * });
+ * ```
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: { timeout?: number; staleAfter?: number } = {}
+): Promise<T> {
+  const timeout = options.timeout ?? 10000;
+  const staleAfter = options.staleAfter ?? 30000;
+  const deadline = Date.now() + timeout;
+  const token = `${process.pid}:${randomBytes(8).toString('hex')}`;
+  await ensureDir(path.dirname(lockPath));
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      try {
+        await handle.writeFile(`${token}\n`, 'utf-8');
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const owner = await readLockOwner(lockPath);
+    const stat = await fs.stat(lockPath).catch(() => null);
+    if (owner === null || !stat) {
+      // Released meanwhile
+      continue;
+    }
+    if (Date.now() - stat.mtimeMs > staleAfter) {
+      await breakStaleLock(lockPath, owner, token);
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new DevelopmentFlowError(`Timed out waiting for lock: ${lockPath}`, 'LOCK_TIMEOUT');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20 + Math.random() * 30));
+  }
+
+  // Keep the lock fresh so a long critical section is not mistaken for a crashed one
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => undefined);
+  }, staleAfter / 3);
+  refresh.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(refresh);
+    if (await readLockOwner(lockPath).catch(() => null) === token) {
+      await fs.rm(lockPath, { force: true });
+    }
   }
 }
 
@@ -139,8 +328,8 @@ export async function readJsonFile<T>(filePath: string): Promise<T | null> {
  * Safely writes data to a JSON file with proper formatting
  * 
  * Serializes the provided data to JSON with proper indentation and writes
- * it to the specified file. Automatically creates the directory structure
- * if it doesn't exist.
+ * it to the specified file atomically (see {@link writeFileAtomic}).
+ * Automatically creates the directory structure if it doesn't exist.
  * 
  * @param filePath - Path where the JSON file should be written
  * @param data - The data to serialize and write to the file
@@ -159,8 +348,7 @@ export async function readJsonFile<T>(filePath: string): Promise<T | null> {
  * ```
  */
 export async function writeJsonFile(filePath: string, data: any): Promise<void> {
-  await ensureDir(path.dirname(filePath));
-  await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
 }
 
 /**
@@ -256,6 +444,164 @@ export function sanitizeFileName(fileName: string): string {
     .toLowerCase();
 }
 
+/**
+ * Converts a name into a kebab-case identifier
+ * 
+ * Lowercases the name and collapses every run of characters other than
+ * letters and digits into a single hyphen, as used for Kiro feature folders.
+ * 
+ * @param name - The original name
+ * @returns Kebab-case identifier, or 'feature' if nothing usable remains
+ * 
+ * @example
+ * ```typescript
+ * console.log(toKebabCase('User Auth_v2')); // 'user-auth-v2'
+ * ```
+ */
+export function toKebabCase(name: string): string {
+  const kebab = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return kebab || 'feature';
+}
+
+/**
+ * Escapes text for HTML output
+ * 
+ * @param text - Raw text
+ * @returns Text with `& < > " '` replaced by HTML entities
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => {
+    const entities: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#x27;'
+    };
+    return entities[char] || char;
+  });
+}
+
+/**
+ * Escapes text for Markdown output
+ * 
+ * Backslash-escapes the characters Markdown renderers would otherwise
+ * interpret as inline HTML or entity references, so text such as `Map<K, V>`
+ * or `&amp;` is displayed as written while the file stays readable.
+ * Other Markdown syntax (emphasis, inline code) is left intact.
+ * 
+ * @param text - Raw text
+ * @returns Markdown-safe text
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[<>]/g, '\\$&')
+    .replace(/&(?=#?\w+;)/g, '\\&');
+}
+
+/**
+ * Reverts {@link escapeMarkdown}
+ * 
+ * Used to read text back from generated Markdown documents.
+ * 
+ * @param text - Markdown-escaped text
+ * @returns Raw text
+ */
+export function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([<>&])/g, '$1');
+}
+
+/**
+ * Escapes text for embedding in a JSON string literal
+ * 
+ * @param text - Raw text
+ * @returns Text without the surrounding quotes of `JSON.stringify`
+ */
+export function escapeJsonString(text: string): string {
+  return JSON.stringify(text).slice(1, -1);
+}
+
+/**
+ * Gets the escape function of an output format
+ * 
+ * @param format - Output format of the rendered document
+ * @returns Escape function applied to interpolated values
+ * 
+ * @example
+ * ```typescript
+ * const escape = escapeForFormat('html');
+ * console.log(escape('<b>')); // '&lt;b&gt;'
+ * ```
+ */
+export function escapeForFormat(format: OutputFormat): (text: string) => string {
+  switch (format) {
+    case 'html':
+      return escapeHtml;
+    case 'markdown':
+      return escapeMarkdown;
+    case 'json':
+      return escapeJsonString;
+    default:
+      return (text: string) => text;
+  }
+}
+
+/**
+ * Infers the output format of a document from its file name
+ * 
+ * @param fileName - Output file name
+ * @returns 'html', 'json' or 'text' for matching extensions, otherwise 'markdown'
+ */
+export function inferOutputFormat(fileName: string): OutputFormat {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === '.html' || extension === '.htm') return 'html';
+  if (extension === '.json') return 'json';
+  if (extension === '.txt') return 'text';
+  return 'markdown';
+}
+
+/**
+ * Reverts the HTML entities written by the former input sanitizer
+ * 
+ * Used to migrate state files created before text was stored raw. Decodes
+ * in a single pass so that escaped entities (`&amp;lt;`) decode only once.
+ * 
+ * @param text - Text containing `&lt; &gt; &quot; &#x27; &amp;` entities
+ * @returns Original text
+ */
+export function unescapeHtmlEntities(text: string): string {
+  const characters: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    '#x27': "'",
+    amp: '&'
+  };
+  return text.replace(/&(lt|gt|quot|#x27|amp);/g, (_match: string, entity: string) => characters[entity] || _match);
+}
+
+/**
+ * Computes a SHA-256 hash of text content
+ * 
+ * Used to fingerprint generated documents so that approvals can be tied to
+ * the exact content that was reviewed.
+ * 
+ * @param content - Text content to hash
+ * @returns Lowercase hexadecimal SHA-256 digest
+ * 
+ * @example
+ * ```typescript
+ * const hash = hashContent('# Requirements');
+ * console.log(hash.length); // 64
+ * ```
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
 /**
  * Creates a deep clone of an object using JSON serialization
  * 
@@ -474,24 +820,21 @@ export class InputValidator {
   }
   
   /**
-   * Validates and sanitizes text input
+   * Normalizes text input for storage
+   * 
+   * Trims the text, normalizes line endings, removes control characters
+   * (except tabs and newlines) and truncates it to the maximum length.
+   * The text is otherwise stored as given: escaping is the job of each
+   * output format at render time (see {@link escapeForFormat}).
    */
-  static sanitizeText(text: string, maxLength: number = 1000): string {
+  static normalizeText(text: string, maxLength: number = 1000): string {
     if (typeof text !== 'string') return '';
     
     return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
       .trim()
-      .slice(0, maxLength)
-      .replace(/[<>"'&]/g, (char) => {
-        const entities: Record<string, string> = {
-          '<': '&lt;',
-          '>': '&gt;',
-          '"': '&quot;',
-          "'": '&#x27;',
-          '&': '&amp;'
-        };
-        return entities[char] || char;
-      });
+      .slice(0, maxLength);
   }
   
   /**
@@ -520,6 +863,80 @@ export class InputValidator {
     return errors;
   }
   
+  /**
+   * Validates acceptance criteria given as text or in structured EARS form
+   */
+  static validateAcceptanceCriteria(arr: any, fieldName: string = 'acceptanceCriteria'): string[] {
+    if (!Array.isArray(arr)) {
+      return [`${fieldName} must be an array`];
+    }
+
+    const errors: string[] = [];
+    if (arr.length > 50) {
+      errors.push(`${fieldName} cannot exceed 50 items`);
+    }
+
+    arr.forEach((item, index) => {
+      if (typeof item === 'string') {
+        if (item.trim().length === 0) {
+          errors.push(`${fieldName}[${index}] cannot be empty`);
+        }
+        return;
+      }
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        errors.push(`${fieldName}[${index}] must be a string or an object with trigger, condition and response`);
+        return;
+      }
+
+      if (typeof item.response !== 'string' || item.response.trim().length === 0) {
+        errors.push(`${fieldName}[${index}].response must be a non-empty string`);
+      }
+      for (const key of ['trigger', 'condition']) {
+        if (item[key] !== undefined && typeof item[key] !== 'string') {
+          errors.push(`${fieldName}[${index}].${key} must be a string`);
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validates user stories and their acceptance criteria
+   */
+  static validateUserStories(arr: any): string[] {
+    if (!Array.isArray(arr)) {
+      return ['userStories must be an array'];
+    }
+
+    const errors: string[] = [];
+    if (arr.length > 50) {
+      errors.push('userStories cannot exceed 50 items');
+    }
+
+    arr.forEach((story, index) => {
+      const prefix = `userStories[${index}]`;
+      if (!story || typeof story !== 'object' || Array.isArray(story)) {
+        errors.push(`${prefix} must be an object with role, goal and benefit`);
+        return;
+      }
+
+      for (const key of ['role', 'goal']) {
+        if (typeof story[key] !== 'string' || story[key].trim().length === 0) {
+          errors.push(`${prefix}.${key} must be a non-empty string`);
+        }
+      }
+      if (story.benefit !== undefined && typeof story.benefit !== 'string') {
+        errors.push(`${prefix}.benefit must be a string`);
+      }
+      if (story.acceptanceCriteria !== undefined) {
+        errors.push(...this.validateAcceptanceCriteria(story.acceptanceCriteria, `${prefix}.acceptanceCriteria`));
+      }
+    });
+
+    return errors;
+  }
+
   /**
    * Validates task ID format
    */
@@ -538,7 +955,128 @@ export class InputValidator {
     if (taskId.length > 50) {
       errors.push('Task ID cannot exceed 50 characters');
     }
-    
+
+    return errors;
+  }
+
+  /**
+   * Validates the task fields of a task_add or task_update input
+   */
+  static validateTaskFields(input: DevelopmentFlowInput, isNew: boolean): string[] {
+    const { title, description, priority, estimatedHours, assignee, dependencies, parentId, requirementIds } = input;
+
+    if (!isNew && [title, description, priority, estimatedHours, assignee, dependencies, parentId, requirementIds].every(value => value === undefined)) {
+      return ['At least one of title, description, priority, estimatedHours, assignee, dependencies, parentId or requirementIds is required'];
+    }
+
+    return this.validateTaskInput({ title, description, priority, estimatedHours, assignee, dependencies, parentId, requirementIds }, '', isNew);
+  }
+
+  /**
+   * Validates the hours and note of a task_log input
+   */
+  static validateTimeLog(input: DevelopmentFlowInput): string[] {
+    const errors: string[] = [];
+    const { hours, note } = input;
+
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0 || hours > 1000) {
+      errors.push('hours must be a number greater than 0 and at most 1000');
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      errors.push('note must be a string');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates the task list of a todo input
+   *
+   * Entries whose ID is not in `existingIds` describe new tasks and need a title.
+   */
+  static validateTaskInputs(tasks: unknown, existingIds: string[]): string[] {
+    if (!Array.isArray(tasks)) {
+      return ['tasks must be an array'];
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    if (tasks.length > 200) {
+      errors.push('tasks cannot exceed 200 items');
+    }
+
+    tasks.forEach((task, index) => {
+      const id = task && typeof task === 'object' ? (task as TaskInput).id : undefined;
+      errors.push(...this.validateTaskInput(task, `tasks[${index}].`, typeof id !== 'string' || !existingIds.includes(id)));
+
+      if (typeof id === 'string') {
+        if (seen.has(id)) {
+          errors.push(`tasks[${index}].id '${id}' is used more than once`);
+        }
+        seen.add(id);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validates a single task input against the Task schema
+   */
+  static validateTaskInput(task: unknown, prefix: string, isNew: boolean): string[] {
+    if (!task || typeof task !== 'object' || Array.isArray(task)) {
+      return [`${prefix ? prefix.slice(0, -1) : 'task'} must be an object`];
+    }
+
+    const errors: string[] = [];
+    const { id, title, description, status, priority, estimatedHours, assignee, dependencies, parentId, requirementIds } = task as TaskInput;
+
+    if (id !== undefined) {
+      errors.push(...this.validateTaskId(id).map(error => `${prefix}id: ${error}`));
+    }
+
+    if (title === undefined ? isNew : typeof title !== 'string' || title.trim().length === 0) {
+      errors.push(`${prefix}title must be a non-empty string`);
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      errors.push(`${prefix}description must be a string`);
+    }
+
+    if (status !== undefined && !['pending', 'in_progress', 'blocked', 'completed'].includes(status)) {
+      errors.push(`${prefix}status must be one of: pending, in_progress, blocked, completed`);
+    }
+
+    if (priority !== undefined && !['low', 'medium', 'high'].includes(priority)) {
+      errors.push(`${prefix}priority must be one of: low, medium, high`);
+    }
+
+    if (estimatedHours !== undefined && (typeof estimatedHours !== 'number' || !Number.isFinite(estimatedHours) || estimatedHours < 0)) {
+      errors.push(`${prefix}estimatedHours must be a non-negative number`);
+    }
+
+    if (assignee !== undefined && typeof assignee !== 'string') {
+      errors.push(`${prefix}assignee must be a string`);
+    }
+
+    if (dependencies !== undefined) {
+      errors.push(...this.validateStringArray(dependencies, `${prefix}dependencies`));
+    }
+
+    if (parentId !== undefined) {
+      if (typeof parentId !== 'string') {
+        errors.push(`${prefix}parentId must be a string`);
+      } else if (parentId !== '') {
+        errors.push(...this.validateTaskId(parentId).map(error => `${prefix}parentId: ${error}`));
+      }
+    }
+
+    if (requirementIds !== undefined) {
+      errors.push(...this.validateStringArray(requirementIds, `${prefix}requirementIds`));
+    }
+
     return errors;
   }
 }
@@ -574,6 +1112,26 @@ export class ConfigValidator {
       }
     }
     
+    if (config.outputLayout !== undefined) {
+      const validLayouts = ['default', 'kiro'];
+      if (!validLayouts.includes(config.outputLayout)) {
+        errors.push(`outputLayout must be one of: ${validLayouts.join(', ')}`);
+      }
+    }
+    
+    if (config.transport !== undefined) {
+      const validTransports = ['stdio', 'http'];
+      if (!validTransports.includes(config.transport)) {
+        errors.push(`transport must be one of: ${validTransports.join(', ')}`);
+      }
+    }
+    
+    if (config.httpPort !== undefined) {
+      if (!Number.isInteger(config.httpPort) || config.httpPort < 0 || config.httpPort > 65535) {
+        errors.push('httpPort must be an integer between 0 and 65535');
+      }
+    }
+    
     return errors;
   }
 }
@@ -597,7 +1155,8 @@ export class ErrorFormatter {
         ...baseError,
         code: error.code,
         phase: error.phase,
-        projectId: error.projectId
+        projectId: error.projectId,
+        ...(error.details !== undefined && { details: error.details })
       };
     }
     
@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { createHarness, createApprovedProject, initProject, confirm, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('change requests', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('revokes the design and task list approvals depending on a removed requirement', async () => {
+    const projectId = await createApprovedProject(harness, {
+      requirements: ['Store orders', 'Ship orders'],
+      architecture: 'Orders are kept in PostgreSQL (REQ-1)',
+      tasks: [{ id: 'task_001', title: 'Create the order table', requirementIds: ['REQ-1'] }]
+    });
+
+    const result = await harness.run({ action: 'change_request', projectId, reason: 'Orders move to a partner', requirements: ['Ship orders'] });
+    assert.deepEqual(result.data.changeRequest.revokedApprovals, ['requirement', 'design', 'todo']);
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(status.data.approvals, {});
+
+    await confirm(harness, projectId);
+    const blocked = await harness.call({ action: 'task_complete', projectId, taskId: 'task_001' });
+    assert.equal(blocked.code, 'PHASE_TRANSITION_INVALID');
+  });
+
+  it('keeps the approvals a change does not affect', async () => {
+    const projectId = await createApprovedProject(harness, { requirements: ['Store orders', 'Ship orders'] });
+
+    const result = await harness.run({ action: 'change_request', projectId, reason: 'Shipping is out of scope', requirements: ['Store orders'] });
+    assert.deepEqual(result.data.changeRequest.revokedApprovals, ['requirement']);
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(Object.keys(status.data.approvals).sort(), ['design', 'todo']);
+
+    await confirm(harness, projectId);
+    const completed = await harness.run({ action: 'task_complete', projectId, taskId: 'task_001' });
+    assert.equal(completed.data.task.status, 'completed');
+  });
+
+  it('is only accepted for confirmed requirements with a reason and changed fields', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+
+    const unconfirmed = await harness.call({ action: 'change_request', projectId, reason: 'Scope change', requirements: ['Ship orders'] });
+    assert.equal(unconfirmed.code, 'REQUIREMENTS_NOT_CONFIRMED');
+
+    await confirm(harness, projectId);
+    const incomplete = await harness.call({ action: 'change_request', projectId });
+    assert.equal(incomplete.code, 'VALIDATION_ERROR');
+    assert.match(incomplete.message, /reason is required/);
+    assert.match(incomplete.message, /Provide the changed requirement fields/);
+  });
+
+  it('marks dependent design sections and tasks until they are confirmed again', async () => {
+    const projectId = await createApprovedProject(harness, {
+      requirements: ['Store orders'],
+      architecture: 'Orders are kept in PostgreSQL (REQ-1)',
+      tasks: [{ id: 'task_001', title: 'Create the order table', requirementIds: ['REQ-1'] }]
+    });
+
+    const result = await harness.run({ action: 'change_request', projectId, reason: 'Orders are archived', requirements: ['Store and archive orders'] });
+    const change = result.data.changeRequest;
+    assert.equal(change.status, 'pending');
+    assert.deepEqual(change.added.map((item: { id: string }) => item.id), ['REQ-2']);
+    assert.deepEqual(change.removed.map((item: { id: string }) => item.id), ['REQ-1']);
+    assert.deepEqual(change.staleDesignSections, ['architecture']);
+    assert.deepEqual(change.staleTasks, ['task_001']);
+
+    const design = await readFile(harness.server.getCurrentProject()!.documents!.design!, 'utf-8');
+    assert.match(design, new RegExp(change.id));
+
+    await confirm(harness, projectId);
+    let status = await harness.run({ action: 'status', projectId });
+    assert.equal(status.data.changeRequests[0].status, 'approved');
+    assert.deepEqual(status.data.staleDesignSections, ['architecture']);
+
+    await harness.run({ action: 'design', projectId, architecture: 'Orders are kept and archived in PostgreSQL (REQ-2)' });
+    await confirm(harness, projectId);
+    await harness.run({ action: 'todo', projectId, tasks: [{ id: 'task_001', requirementIds: ['REQ-2'] }] });
+    await confirm(harness, projectId);
+
+    status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(status.data.staleDesignSections, []);
+    assert.deepEqual(status.data.staleTasks, []);
+  });
+});
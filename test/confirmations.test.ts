@@ -0,0 +1,71 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { hashContent } from '../src/utils/index.js';
+import { createHarness, initProject, confirm, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('phase confirmations', () => {
+  let harness: Harness;
+  let projectId: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('records who approved which document version', async () => {
+    const result = await confirm(harness, projectId, { approvedBy: 'Alex', comment: 'Looks complete' });
+
+    const document = await readFile(harness.server.getCurrentProject()!.documents!.requirement!, 'utf-8');
+    assert.equal(result.data.phase, 'requirement');
+    assert.equal(result.data.approvedBy, 'Alex');
+    assert.equal(result.data.comment, 'Looks complete');
+    assert.equal(result.data.documentHash, hashContent(document));
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(status.data.approvals.requirement, result.data);
+  });
+
+  it('only confirms the phase awaiting review', async () => {
+    const mismatch = await harness.call({ action: 'confirmation', projectId, confirmed: true, phase: 'design' });
+    assert.equal(mismatch.code, 'CONFIRMATION_PHASE_MISMATCH');
+
+    const invalid = await harness.call({ action: 'confirmation', projectId, confirmed: true, phase: 'finish' });
+    assert.equal(invalid.code, 'VALIDATION_ERROR');
+
+    const missing = await harness.call({ action: 'confirmation', projectId });
+    assert.equal(missing.code, 'MISSING_CONFIRMATION');
+  });
+
+  it('revokes the approval when the phase is revised', async () => {
+    await confirm(harness, projectId);
+    await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+    await confirm(harness, projectId);
+
+    await harness.run({ action: 'design', projectId, architecture: 'Two services' });
+    const status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(Object.keys(status.data.approvals), ['requirement']);
+
+    const blocked = await harness.call({ action: 'todo', projectId, tasks: [{ title: 'Build it' }] });
+    assert.equal(blocked.code, 'PHASE_TRANSITION_INVALID');
+  });
+
+  it('revokes the task list approval when the design is revised', async () => {
+    await confirm(harness, projectId);
+    await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+    await confirm(harness, projectId);
+    await harness.run({ action: 'todo', projectId, tasks: [{ title: 'Build it' }] });
+    await confirm(harness, projectId);
+
+    await harness.run({ action: 'design', projectId, architecture: 'Two services', force: true });
+    const status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(Object.keys(status.data.approvals), ['requirement']);
+  });
+});
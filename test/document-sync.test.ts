@@ -0,0 +1,165 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { StateManager } from '../src/server/StateManager.js';
+import { DevelopmentFlowError } from '../src/types/index.js';
+import { hashContent } from '../src/utils/index.js';
+import { createHarness, createApprovedProject, initProject, confirm, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('sync after a failed action', () => {
+  let harness: Harness;
+  let projectId: string;
+  let requirementDoc: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await initProject(harness);
+    const result = await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    requirementDoc = result.generatedFiles[0];
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    quietLogs();
+    await harness.close();
+  });
+
+  it('leaves the documents unchanged and imports nothing when saving fails', async () => {
+    const before = await fs.readFile(requirementDoc, 'utf-8');
+    const save = mock.method(StateManager.prototype, 'saveProjectState');
+    save.mock.mockImplementationOnce(async () => {
+      throw new DevelopmentFlowError('Project state was saved by another process', 'STALE_STATE');
+    });
+
+    const failed = await harness.call({ action: 'requirement', projectId, requirements: ['Ship orders'] });
+    assert.equal(failed.code, 'STALE_STATE');
+    assert.equal(await fs.readFile(requirementDoc, 'utf-8'), before);
+
+    const sync = await harness.run({ action: 'sync', projectId });
+    assert.deepEqual(sync.data.imported, []);
+    assert.deepEqual(sync.data.conflicts, []);
+  });
+
+  it('leaves the documents unchanged and imports nothing when validation fails', async () => {
+    const before = await fs.readFile(requirementDoc, 'utf-8');
+
+    const failed = await harness.call({ action: 'requirement', projectId, requirements: ['Ship orders'], addressedFeedback: ['nope'] });
+    assert.equal(failed.code, 'VALIDATION_ERROR');
+    assert.equal(await fs.readFile(requirementDoc, 'utf-8'), before);
+
+    const sync = await harness.run({ action: 'sync', projectId });
+    assert.deepEqual(sync.data.imported, []);
+    const status = await harness.run({ action: 'status', projectId });
+    assert.ok(!JSON.stringify(status.data).includes('Ship orders'));
+  });
+});
+
+describe('sync of hand edits', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  /** Replaces text in a generated document */
+  async function edit(filePath: string, search: string | RegExp, replacement: string): Promise<void> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const edited = content.replace(search, replacement);
+    assert.notEqual(edited, content, `${String(search)} not found in ${filePath}`);
+    await fs.writeFile(filePath, edited);
+  }
+
+  it('imports an edited requirement', async () => {
+    const projectId = await initProject(harness);
+    const result = await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await edit(result.generatedFiles[0], 'Store orders', 'Store all orders');
+
+    const sync = await harness.run({ action: 'sync', projectId });
+    assert.equal(sync.data.imported.length, 1);
+    assert.equal(sync.data.imported[0].document, 'requirement');
+    assert.deepEqual(harness.server.getCurrentProject()!.requirements, ['Store all orders']);
+
+    const again = await harness.run({ action: 'sync', projectId });
+    assert.deepEqual(again.data.imported, []);
+  });
+
+  it('completes a task ticked in the task document', async () => {
+    const projectId = await createApprovedProject(harness, { tasks: [{ id: 'task_001', title: 'Build the service' }] });
+    await harness.run({ action: 'task_start', projectId, taskId: 'task_001' });
+    await edit(harness.server.getCurrentProject()!.documents!.todo!, /- \[ \](.*task_001)/, '- [x]$1');
+
+    const sync = await harness.run({ action: 'sync', projectId });
+    assert.deepEqual(sync.data.imported, [{ document: 'todo', field: 'task_001.checked', value: 'true' }]);
+    assert.equal(harness.server.getCurrentProject()!.tasks![0]!.status, 'completed');
+  });
+
+  it('rejects task lines added or re-IDed by hand', async () => {
+    const projectId = await createApprovedProject(harness, { tasks: [{ id: 'task_001', title: 'Build the service' }] });
+    await edit(harness.server.getCurrentProject()!.documents!.todo!, /(- \[ \] .*)\*\*task_001\*\*: Build the service/, '$1**task_009**: Build the service\n- [ ] **task_010**: Deploy the service');
+
+    const sync = await harness.run({ action: 'sync', projectId });
+    assert.deepEqual(sync.data.imported, []);
+    assert.deepEqual(sync.data.rejected.map((item: { field: string; value: string }) => [item.field, item.value]), [
+      ['task_009.title', 'Build the service'],
+      ['task_010.title', 'Deploy the service']
+    ]);
+    assert.match(sync.data.rejected[0].reason, /not in the task list/);
+    assert.deepEqual(harness.server.getCurrentProject()!.tasks!.map(task => task.id), ['task_001']);
+  });
+
+  it('reports a field changed in both the document and the state as a conflict', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await confirm(harness, projectId);
+    await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+    const designDoc = harness.server.getCurrentProject()!.documents!.design!;
+
+    await edit(designDoc, 'A single service', 'Two services behind a gateway');
+    await harness.run({ action: 'design', projectId, architecture: 'A service and a worker' });
+    assert.match(await fs.readFile(designDoc, 'utf-8'), /Two services behind a gateway/);
+
+    const sync = await harness.run({ action: 'sync', projectId });
+    assert.deepEqual(sync.data.imported, []);
+    assert.equal(sync.data.conflicts.length, 1);
+    assert.deepEqual(sync.data.conflicts[0], {
+      document: 'design',
+      field: 'architecture',
+      documentValue: 'Two services behind a gateway',
+      stateValue: 'A service and a worker',
+      baseValue: 'A single service'
+    });
+
+    assert.equal(harness.server.getCurrentProject()!.architecture, 'A service and a worker');
+    assert.match(await fs.readFile(designDoc, 'utf-8'), /Two services behind a gateway/);
+  });
+
+  it('reports a hand-edited document as skipped until it is synced', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await confirm(harness, projectId);
+    await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+    const designDoc = harness.server.getCurrentProject()!.documents!.design!;
+    await edit(designDoc, 'A single service', 'Two services behind a gateway');
+
+    const revised = await harness.run({ action: 'design', projectId, implementation: 'Node.js' });
+    assert.deepEqual(revised.skippedFiles, [designDoc]);
+    assert.ok(!revised.generatedFiles.includes(designDoc));
+    assert.match(revised.nextSteps[0], /action: sync/);
+    assert.notEqual(revised.data.revision.documentHash, hashContent(await fs.readFile(designDoc, 'utf-8')));
+
+    const blocked = await harness.call({ action: 'confirmation', projectId, confirmed: true });
+    assert.equal(blocked.code, 'DOCUMENT_NOT_SYNCED');
+
+    await harness.run({ action: 'sync', projectId });
+    const approved = await harness.run({ action: 'confirmation', projectId, confirmed: true });
+    assert.equal(approved.data.documentHash, hashContent(await fs.readFile(designDoc, 'utf-8')));
+    assert.equal(harness.server.getCurrentProject()!.architecture, 'Two services behind a gateway');
+  });
+});
+
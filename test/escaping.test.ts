@@ -0,0 +1,117 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { DocumentGenerator } from '../src/server/DocumentGenerator.js';
+import { StateManager } from '../src/server/StateManager.js';
+import { DevelopmentFlowConfig, DevelopmentPhase, ProjectState } from '../src/types/index.js';
+import { escapeForFormat, unescapeMarkdown } from '../src/utils/index.js';
+import { createHarness, createTempDir, initProject, quietLogs } from './helpers.js';
+
+quietLogs();
+
+const RAW = 'Accept Map<K, V> & "quoted" \'text\' &amp;';
+
+describe('escapeForFormat', () => {
+  it('escapes Markdown reversibly', () => {
+    const escaped = escapeForFormat('markdown')(RAW);
+    assert.equal(escaped, 'Accept Map\\<K, V\\> & "quoted" \'text\' \\&amp;');
+    assert.equal(unescapeMarkdown(escaped), RAW);
+  });
+
+  it('escapes HTML entities', () => {
+    assert.equal(escapeForFormat('html')(RAW), 'Accept Map&lt;K, V&gt; &amp; &quot;quoted&quot; &#x27;text&#x27; &amp;amp;');
+  });
+
+  it('escapes JSON string content', () => {
+    const escaped = escapeForFormat('json')(`${RAW}\nnext`);
+    assert.equal(JSON.parse(`"${escaped}"`), `${RAW}\nnext`);
+  });
+
+  it('leaves plain text unchanged', () => {
+    assert.equal(escapeForFormat('text')(RAW), RAW);
+  });
+});
+
+describe('render-time escaping of documents', () => {
+  let dir: string;
+  let remove: () => Promise<void>;
+  let generator: DocumentGenerator;
+  let project: ProjectState;
+
+  before(async () => {
+    ({ dir, remove } = await createTempDir());
+    generator = new DocumentGenerator({ baseDir: dir, projectsDir: dir, templatesDir: path.join(dir, 'templates') } as DevelopmentFlowConfig);
+    const timestamp = new Date().toISOString();
+    project = {
+      id: 'proj_escape',
+      name: 'Escape',
+      phase: DevelopmentPhase.REQUIREMENT,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      requirements: [RAW]
+    } as ProjectState;
+  });
+
+  after(async () => {
+    await remove();
+  });
+
+  /** Renders the first requirement with a template written to an output file */
+  async function render(fileName: string, content: string): Promise<string> {
+    generator.addTemplate({ name: 'report', path: fileName, variables: ['requirements'], content });
+    return generator.renderDocument(project, 'report');
+  }
+
+  it('escapes values per output format', async () => {
+    assert.equal(await render('report.md', '{{#each requirements}}{{this}}{{/each}}'), escapeForFormat('markdown')(RAW));
+    assert.equal(await render('report.html', '<p>{{#each requirements}}{{this}}{{/each}}</p>'), `<p>${escapeForFormat('html')(RAW)}</p>`);
+    assert.deepEqual(JSON.parse(await render('report.json', '{"requirement": "{{#each requirements}}{{this}}{{/each}}"}')), { requirement: RAW });
+    assert.equal(await render('report.txt', '{{#each requirements}}{{this}}{{/each}}'), RAW);
+  });
+
+  it('honours a declared format and unescaped values', async () => {
+    generator.addTemplate({ name: 'report', path: 'report.md', format: 'html', variables: [], content: '{{#each requirements}}{{this}}{{/each}}' });
+    assert.equal(await generator.renderDocument(project, 'report'), escapeForFormat('html')(RAW));
+    assert.equal(await render('report.md', '{{#each requirements}}{{{this}}}{{/each}}'), RAW);
+  });
+});
+
+describe('stored input', () => {
+  it('keeps the text as entered and escapes it in generated Markdown', async () => {
+    const harness = await createHarness();
+    try {
+      const projectId = await initProject(harness);
+      const result = await harness.run({ action: 'requirement', projectId, requirements: [RAW] });
+
+      assert.deepEqual(harness.server.getCurrentProject()!.requirements, [RAW]);
+      const document = await readFile(result.generatedFiles[0], 'utf-8');
+      assert.ok(document.includes(escapeForFormat('markdown')(RAW)));
+    } finally {
+      await harness.close();
+    }
+  });
+
+  it('unescapes the HTML entities of legacy state files once', async () => {
+    const { dir, remove } = await createTempDir();
+    try {
+      const timestamp = new Date().toISOString();
+      await mkdir(path.join(dir, 'states'), { recursive: true });
+      await writeFile(path.join(dir, 'states', 'proj_legacy.json'), JSON.stringify({
+        id: 'proj_legacy',
+        name: 'Legacy',
+        phase: DevelopmentPhase.REQUIREMENT,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        requirements: ['Accept Map&lt;K, V&gt; &amp;amp; more']
+      }));
+
+      const stateManager = new StateManager({ baseDir: dir, projectsDir: dir } as DevelopmentFlowConfig);
+      await stateManager.ensureInitialized();
+      const project = await stateManager.loadProjectState('proj_legacy');
+      assert.deepEqual(project?.requirements, ['Accept Map<K, V> &amp; more']);
+    } finally {
+      await remove();
+    }
+  });
+});
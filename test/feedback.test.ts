@@ -0,0 +1,75 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('rejection feedback and revisions', () => {
+  let harness: Harness;
+  let projectId: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  /** Rejects the requirements with two feedback items */
+  async function reject(): Promise<any> {
+    return harness.run({
+      action: 'confirmation',
+      projectId,
+      confirmed: false,
+      approvedBy: 'Alex',
+      feedback: [{ text: 'Mention refunds' }, { text: 'Name the storage', section: 'Technical Requirements' }]
+    });
+  }
+
+  it('records the feedback of a rejection', async () => {
+    const result = await reject();
+
+    assert.deepEqual(result.data.feedback.map((item: { id: string }) => item.id), ['requirement_fb_1', 'requirement_fb_2']);
+    assert.equal(result.data.feedback[1].section, 'Technical Requirements');
+    assert.equal(result.data.feedback[0].reviewer, 'Alex');
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.equal(status.data.openFeedback.length, 2);
+  });
+
+  it('rejects feedback without text', async () => {
+    const result = await harness.call({ action: 'confirmation', projectId, confirmed: false, feedback: [{ text: ' ' }] });
+    assert.equal(result.code, 'VALIDATION_ERROR');
+  });
+
+  it('marks the feedback addressed by a revision', async () => {
+    await reject();
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store and refund orders'], addressedFeedback: ['requirement_fb_1'] });
+
+    const project = harness.server.getCurrentProject()!;
+    const revisions = project.revisions!.requirement!;
+    assert.deepEqual(revisions.map(revision => revision.revision), [1, 2]);
+    assert.deepEqual(revisions[1]!.addressedFeedback, ['requirement_fb_1']);
+    assert.equal(project.feedback!.requirement![0]!.addressedInRevision, 2);
+    assert.equal(project.feedback!.requirement![1]!.status, 'open');
+
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store and refund orders in PostgreSQL'] });
+    const status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(status.data.openFeedback, []);
+  });
+
+  it('rejects unknown feedback without recording a revision', async () => {
+    await reject();
+
+    const result = await harness.call({ action: 'requirement', projectId, requirements: ['Other'], addressedFeedback: ['requirement_fb_9'] });
+    assert.equal(result.code, 'VALIDATION_ERROR');
+
+    await harness.run({ action: 'status', projectId });
+    const project = harness.server.getCurrentProject()!;
+    assert.equal(project.revisions!.requirement!.length, 1);
+    assert.deepEqual(project.requirements, ['Store orders']);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withFileLock } from '../src/utils/index.js';
+import { createTempDir, createStateManager, createProjectState, quietLogs } from './helpers.js';
+
+quietLogs();
+
+describe('shared state directory', () => {
+  let dir: string;
+  let remove: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ dir, remove } = await createTempDir());
+  });
+
+  afterEach(async () => {
+    await remove();
+  });
+
+  it('rejects a save based on an outdated revision', async () => {
+    const first = await createStateManager(dir);
+    const second = await createStateManager(dir);
+    await first.saveProjectState(createProjectState('proj_shared'));
+
+    const mine = (await first.loadProjectState('proj_shared'))!;
+    const theirs = (await second.loadProjectState('proj_shared'))!;
+    mine.description = 'Saved first';
+    await first.saveProjectState(mine);
+
+    theirs.description = 'Saved second';
+    await assert.rejects(second.saveProjectState(theirs), {
+      code: 'STALE_STATE',
+      details: { revision: 1, storedRevision: 2 }
+    });
+    assert.equal(theirs.revision, 1);
+    assert.equal((await first.loadProjectState('proj_shared'))?.description, 'Saved first');
+
+    const reloaded = (await second.loadProjectState('proj_shared'))!;
+    reloaded.description = 'Saved second';
+    await second.saveProjectState(reloaded);
+    assert.equal((await first.loadProjectState('proj_shared'))?.revision, 3);
+  });
+
+  it('keeps the projects created by concurrent writers in the index', async () => {
+    const first = await createStateManager(dir);
+    const second = await createStateManager(dir);
+
+    await Promise.all(Array.from({ length: 6 }, (_, index) =>
+      (index % 2 === 0 ? first : second).saveProjectState(createProjectState(`proj_${index}`))
+    ));
+
+    const third = await createStateManager(dir);
+    for (const stateManager of [first, second, third]) {
+      const ids = (await stateManager.getAllProjects()).map(project => project.id).sort();
+      assert.deepEqual(ids, ['proj_0', 'proj_1', 'proj_2', 'proj_3', 'proj_4', 'proj_5']);
+    }
+  });
+});
+
+describe('withFileLock', () => {
+  let dir: string;
+  let remove: () => Promise<void>;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    ({ dir, remove } = await createTempDir());
+    lockPath = path.join(dir, 'counter.lock');
+  });
+
+  afterEach(async () => {
+    await remove();
+  });
+
+  it('runs the critical sections one at a time', async () => {
+    const counterPath = path.join(dir, 'counter');
+    await fs.writeFile(counterPath, '0');
+
+    await Promise.all(Array.from({ length: 5 }, () => withFileLock(lockPath, async () => {
+      const value = Number(await fs.readFile(counterPath, 'utf-8'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await fs.writeFile(counterPath, String(value + 1));
+    })));
+
+    assert.equal(await fs.readFile(counterPath, 'utf-8'), '5');
+    await assert.rejects(fs.access(lockPath));
+  });
+
+  it('times out while another holder keeps the lock', async () => {
+    await fs.writeFile(lockPath, '1\n');
+    await assert.rejects(withFileLock(lockPath, async () => undefined, { timeout: 100 }), { code: 'LOCK_TIMEOUT' });
+  });
+
+  it('breaks a lock left behind by a crashed holder', async () => {
+    await fs.writeFile(lockPath, '1\n');
+    const old = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(lockPath, old, old);
+
+    assert.equal(await withFileLock(lockPath, async () => 'acquired', { timeout: 100 }), 'acquired');
+  });
+
+  it('lets one of several waiters break a stale lock', async () => {
+    await fs.writeFile(lockPath, '1\n');
+    const old = new Date(Date.now() - 60 * 1000);
+    await fs.utimes(lockPath, old, old);
+
+    let holders = 0;
+    let maxHolders = 0;
+    await Promise.all(Array.from({ length: 4 }, () => withFileLock(lockPath, async () => {
+      maxHolders = Math.max(maxHolders, ++holders);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      holders--;
+    }, { staleAfter: 1000 })));
+
+    assert.equal(maxHolders, 1);
+    assert.deepEqual(await fs.readdir(dir), []);
+  });
+
+  it('keeps the lock of a long critical section fresh', async () => {
+    const holder = withFileLock(lockPath, () => new Promise(resolve => setTimeout(resolve, 400)), { staleAfter: 150 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await assert.rejects(
+      withFileLock(lockPath, async () => undefined, { timeout: 250, staleAfter: 150 }),
+      { code: 'LOCK_TIMEOUT' }
+    );
+    await holder;
+  });
+
+  it('leaves a lock it no longer owns in place', async () => {
+    await withFileLock(lockPath, async () => {
+      await fs.writeFile(lockPath, 'other:owner\n');
+    });
+
+    assert.equal(await fs.readFile(lockPath, 'utf-8'), 'other:owner\n');
+  });
+});
@@ -0,0 +1,147 @@
+// Shared helpers of the unit tests: a development flow server connected to
+// an in-memory MCP client and working in a temporary projects directory
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import assert from 'node:assert/strict';
+import { mock } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { DevelopmentFlowServer } from '../src/server/DevelopmentFlowServer.js';
+import { StateManager } from '../src/server/StateManager.js';
+import { DevelopmentFlowConfig, DevelopmentPhase, ProjectState } from '../src/types/index.js';
+
+export interface Harness {
+  /** Temporary directory used as base, projects and templates directory */
+  dir: string;
+  server: DevelopmentFlowServer;
+  client: Client;
+  /** Calls the development_flow tool and returns the parsed result or error */
+  call(args: Record<string, unknown>): Promise<any>;
+  /** Calls the development_flow tool and fails the test unless it succeeds */
+  run(args: Record<string, unknown>): Promise<any>;
+  close(): Promise<void>;
+}
+
+/**
+ * Mutes the logger's console output for the rest of the test file
+ */
+export function quietLogs(): void {
+  mock.method(console, 'log', () => undefined);
+  mock.method(console, 'warn', () => undefined);
+  mock.method(console, 'error', () => undefined);
+}
+
+/**
+ * Creates a temporary directory removed by the returned function
+ */
+export async function createTempDir(): Promise<{ dir: string; remove: () => Promise<void> }> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'thinking-in-kiro-'));
+  return { dir, remove: () => rm(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Creates a state manager on a projects directory and waits for its
+ * initialization; several state managers on one directory act like
+ * separate processes sharing it
+ */
+export async function createStateManager(dir: string, config: Partial<DevelopmentFlowConfig> = {}): Promise<StateManager> {
+  const stateManager = new StateManager({
+    baseDir: dir,
+    templatesDir: path.join(dir, 'templates'),
+    projectsDir: dir,
+    enableLogging: true,
+    logLevel: 'info',
+    maxProjects: 100,
+    autoBackup: true,
+    documentSnapshots: false,
+    autoCompleteParentTasks: true,
+    strictRequirements: false,
+    outputLayout: 'default',
+    transport: 'stdio',
+    httpHost: '127.0.0.1',
+    httpPort: 3000,
+    ...config
+  });
+  await stateManager.ensureInitialized();
+  return stateManager;
+}
+
+/**
+ * Builds the state of a new project
+ */
+export function createProjectState(id: string, fields: Partial<ProjectState> = {}): ProjectState {
+  const timestamp = new Date().toISOString();
+  return { id, name: id, phase: DevelopmentPhase.INIT, createdAt: timestamp, updatedAt: timestamp, ...fields };
+}
+
+/**
+ * Starts a server on a temporary directory and connects a client to it
+ */
+export async function createHarness(config: Partial<DevelopmentFlowConfig> = {}): Promise<Harness> {
+  const { dir, remove } = await createTempDir();
+  const server = new DevelopmentFlowServer({
+    baseDir: dir,
+    projectsDir: dir,
+    templatesDir: path.join(dir, 'templates'),
+    ...config
+  });
+  const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.getServer().connect(serverTransport), client.connect(clientTransport)]);
+
+  const call = async (args: Record<string, unknown>): Promise<any> => {
+    const result = await client.callTool({ name: 'development_flow', arguments: args });
+    return JSON.parse((result.content as Array<{ text: string }>)[0]!.text);
+  };
+  // Waits for the state manager to finish setting up the directory
+  await call({ action: 'stats' });
+
+  return {
+    dir,
+    server,
+    client,
+    call,
+    async run(args) {
+      const result = await call(args);
+      assert.equal(result.error, undefined, `${String(args.action)} failed: ${result.message}`);
+      return result;
+    },
+    async close() {
+      await client.close();
+      await remove();
+    }
+  };
+}
+
+/**
+ * Creates a project and returns its ID
+ */
+export async function initProject(harness: Harness, name = 'Test Project'): Promise<string> {
+  const result = await harness.run({ action: 'init', projectName: name, description: 'Project under test' });
+  return result.projectId;
+}
+
+/**
+ * Confirms the phase a project is in
+ */
+export async function confirm(harness: Harness, projectId: string, extra: Record<string, unknown> = {}): Promise<any> {
+  return harness.run({ action: 'confirmation', projectId, confirmed: true, ...extra });
+}
+
+/**
+ * Creates a project whose requirements, design and task list are confirmed
+ */
+export async function createApprovedProject(
+  harness: Harness,
+  content: { requirements?: string[]; architecture?: string; tasks?: Array<Record<string, unknown>> } = {}
+): Promise<string> {
+  const projectId = await initProject(harness);
+  await harness.run({ action: 'requirement', projectId, requirements: content.requirements ?? ['Store orders'] });
+  await confirm(harness, projectId);
+  await harness.run({ action: 'design', projectId, architecture: content.architecture ?? 'A single service' });
+  await confirm(harness, projectId);
+  await harness.run({ action: 'todo', projectId, tasks: content.tasks ?? [{ id: 'task_001', title: 'Build the service' }] });
+  await confirm(harness, projectId);
+  return projectId;
+}
@@ -0,0 +1,155 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import net from 'net';
+import { DevelopmentFlowServer } from '../src/server/DevelopmentFlowServer.js';
+import { createTempDir, quietLogs } from './helpers.js';
+
+quietLogs();
+
+interface SseSession {
+  sessionId: string;
+  /** Sends a JSON-RPC request and resolves with its result */
+  request(method: string, params?: Record<string, unknown>): Promise<any>;
+  /** Calls the development_flow tool and returns the parsed tool result */
+  callFlow(args: Record<string, unknown>): Promise<any>;
+  close(): void;
+}
+
+async function findFreePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+function post(url: string, body: unknown): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: 'POST', headers: { 'content-type': 'application/json' } }, res => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode ?? 0));
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+/**
+ * Opens an SSE session and initializes the MCP connection over it
+ */
+async function openSession(baseUrl: string): Promise<SseSession> {
+  const pending = new Map<number, (message: any) => void>();
+  let nextId = 1;
+  let buffer = '';
+
+  const { res, endpoint } = await new Promise<{ res: http.IncomingMessage; endpoint: string }>((resolve, reject) => {
+    http.get(`${baseUrl}/sse`, res => {
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const event = /^event: (.*)$/m.exec(block)?.[1];
+          const data = /^data: (.*)$/m.exec(block)?.[1] ?? '';
+          if (event === 'endpoint') {
+            resolve({ res, endpoint: data });
+          } else if (event === 'message') {
+            const message = JSON.parse(data);
+            pending.get(message.id)?.(message);
+            pending.delete(message.id);
+          }
+        }
+      });
+    }).on('error', reject);
+  });
+
+  const messagesUrl = new URL(endpoint, baseUrl).href;
+  const request = async (method: string, params: Record<string, unknown> = {}): Promise<any> => {
+    const id = nextId++;
+    const response = new Promise<any>(resolve => pending.set(id, resolve));
+    assert.equal(await post(messagesUrl, { jsonrpc: '2.0', id, method, params }), 202);
+    const message = await response;
+    assert.equal(message.error, undefined, message.error?.message);
+    return message.result;
+  };
+
+  await request('initialize', {
+    protocolVersion: '2024-11-05',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' }
+  });
+  await post(messagesUrl, { jsonrpc: '2.0', method: 'notifications/initialized' });
+
+  return {
+    sessionId: new URL(messagesUrl).searchParams.get('sessionId')!,
+    request,
+    async callFlow(args) {
+      const result = await request('tools/call', { name: 'development_flow', arguments: args });
+      return JSON.parse(result.content[0].text);
+    },
+    close: () => res.destroy()
+  };
+}
+
+describe('HTTP transport', () => {
+  let server: DevelopmentFlowServer;
+  let baseUrl: string;
+  let removeDir: () => Promise<void>;
+
+  before(async () => {
+    const { dir, remove } = await createTempDir();
+    removeDir = remove;
+    const port = await findFreePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    server = new DevelopmentFlowServer({
+      baseDir: dir,
+      projectsDir: dir,
+      templatesDir: `${dir}/templates`,
+      transport: 'http',
+      httpHost: '127.0.0.1',
+      httpPort: port
+    });
+    await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+    await removeDir();
+  });
+
+  it('serves the development flow tool over SSE', async () => {
+    const session = await openSession(baseUrl);
+    try {
+      const { tools } = await session.request('tools/list');
+      assert.ok(tools.some((tool: { name: string }) => tool.name === 'development_flow'));
+
+      const result = await session.callFlow({ action: 'init', projectName: 'Over HTTP' });
+      assert.equal(result.success, true);
+    } finally {
+      session.close();
+    }
+  });
+
+  it('keeps the current project of each session separate', async () => {
+    const first = await openSession(baseUrl);
+    const second = await openSession(baseUrl);
+    try {
+      const created = await first.callFlow({ action: 'init', projectName: 'First Session' });
+      assert.equal(server.getCurrentProject(first.sessionId)?.id, created.projectId);
+      assert.equal(server.getCurrentProject(second.sessionId), null);
+
+      const status = await second.callFlow({ action: 'status' });
+      assert.equal(status.code, 'NO_CURRENT_PROJECT');
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+
+  it('rejects messages for unknown sessions', async () => {
+    assert.equal(await post(`${baseUrl}/messages?sessionId=unknown`, { jsonrpc: '2.0', id: 1, method: 'ping' }), 404);
+  });
+});
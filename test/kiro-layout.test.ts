@@ -0,0 +1,41 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { createHarness, createApprovedProject, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('kiro output layout', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness({ outputLayout: 'kiro' });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('writes the specs to .kiro/specs/<feature> with Kiro file names', async () => {
+    await createApprovedProject(harness, { tasks: [{ id: 'task_001', title: 'Build the service' }] });
+
+    const specDir = path.join(harness.dir, '.kiro', 'specs', 'test-project');
+    assert.equal(harness.server.getCurrentProject()!.specDir, specDir);
+
+    const files = await readdir(specDir);
+    for (const fileName of ['requirements.md', 'design.md', 'tasks.md']) {
+      assert.ok(files.includes(fileName), `${fileName} is missing`);
+    }
+    assert.match(await readFile(path.join(specDir, 'tasks.md'), 'utf-8'), /- \[ \] .*Build the service/);
+  });
+
+  it('suffixes the feature folder of projects with the same name', async () => {
+    const first = await initProject(harness, 'Order Service');
+    await harness.run({ action: 'requirement', projectId: first, requirements: ['Store orders'] });
+    const second = await initProject(harness, 'Order Service');
+    await harness.run({ action: 'requirement', projectId: second, requirements: ['Ship orders'] });
+
+    assert.deepEqual((await readdir(path.join(harness.dir, '.kiro', 'specs'))).sort(), ['order-service', 'order-service-2']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { createHarness, initProject, confirm, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('project output directory', () => {
+  let harness: Harness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('keeps every document of a project in one directory', async () => {
+    harness = await createHarness();
+    const projectId = await initProject(harness, 'Order Service');
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store and refund orders'] });
+    await confirm(harness, projectId);
+    await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+
+    const project = harness.server.getCurrentProject()!;
+    assert.equal(path.dirname(project.specDir!), harness.dir);
+    assert.match(path.basename(project.specDir!), /^order_service_\d{8}_001$/);
+    assert.deepEqual((await readdir(project.specDir!)).sort(), ['design.md', 'requirement.md', 'traceability.md']);
+    assert.match(await readFile(path.join(project.specDir!, 'requirement.md'), 'utf-8'), /Store and refund orders/);
+  });
+
+  it('gives projects with the same name separate directories', async () => {
+    harness = await createHarness();
+    const first = await initProject(harness, 'Order Service');
+    await harness.run({ action: 'requirement', projectId: first, requirements: ['Store orders'] });
+    const firstDir = harness.server.getCurrentProject()!.specDir;
+
+    const second = await initProject(harness, 'Order Service');
+    await harness.run({ action: 'requirement', projectId: second, requirements: ['Ship orders'] });
+    const secondDir = harness.server.getCurrentProject()!.specDir;
+
+    assert.notEqual(firstDir, secondDir);
+  });
+
+  it('keeps earlier versions when snapshots are enabled', async () => {
+    harness = await createHarness({ documentSnapshots: true });
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store and refund orders'] });
+
+    const historyDir = path.join(harness.server.getCurrentProject()!.specDir!, 'history');
+    const snapshot = (await readdir(historyDir)).find(fileName => fileName.startsWith('requirement_'));
+    assert.ok(snapshot);
+    const content = await readFile(path.join(historyDir, snapshot), 'utf-8');
+    assert.match(content, /Store orders/);
+    assert.doesNotMatch(content, /refund/);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhaseStateMachine } from '../src/server/PhaseStateMachine.js';
+import { DevelopmentPhase, PhaseApproval, ProjectState } from '../src/types/index.js';
+import { createHarness, initProject, quietLogs } from './helpers.js';
+
+quietLogs();
+
+/** Builds a minimal project state in a phase */
+function createProject(phase: DevelopmentPhase, extra: Partial<ProjectState> = {}): ProjectState {
+  const timestamp = new Date().toISOString();
+  return { id: 'proj_phase', name: 'Phase', phase, createdAt: timestamp, updatedAt: timestamp, ...extra } as ProjectState;
+}
+
+/** Builds approval records for phases */
+function approve(...phases: DevelopmentPhase[]): Partial<Record<DevelopmentPhase, PhaseApproval>> {
+  return Object.fromEntries(phases.map(phase => [phase, { phase, approvedBy: 'user', approvedAt: '', documentHash: '' }]));
+}
+
+describe('PhaseStateMachine', () => {
+  it('allows the actions of the current phase', () => {
+    assert.deepEqual(PhaseStateMachine.getAllowedActions(createProject(DevelopmentPhase.INIT)), [DevelopmentPhase.REQUIREMENT]);
+    assert.deepEqual(
+      PhaseStateMachine.getAllowedActions(createProject(DevelopmentPhase.CONFIRMATION, { confirmedPhase: DevelopmentPhase.REQUIREMENT })),
+      [DevelopmentPhase.DESIGN]
+    );
+    assert.deepEqual(PhaseStateMachine.getAllowedActions(createProject(DevelopmentPhase.CONFIRMATION)), []);
+  });
+
+  it('rejects illegal transitions', () => {
+    const project = createProject(DevelopmentPhase.INIT);
+    assert.throws(() => PhaseStateMachine.assertTransition(project, DevelopmentPhase.DESIGN), {
+      code: 'PHASE_TRANSITION_INVALID',
+      details: { allowedActions: [DevelopmentPhase.REQUIREMENT] }
+    });
+  });
+
+  it('requires the approvals of earlier phases', () => {
+    const project = createProject(DevelopmentPhase.CONFIRMATION, {
+      confirmedPhase: DevelopmentPhase.DESIGN,
+      approvals: approve(DevelopmentPhase.DESIGN)
+    });
+    assert.throws(() => PhaseStateMachine.assertTransition(project, DevelopmentPhase.TODO), {
+      code: 'APPROVAL_REQUIRED',
+      details: { missingApprovals: [DevelopmentPhase.REQUIREMENT] }
+    });
+
+    project.approvals = approve(DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.TODO);
+  });
+
+  it('records forced transitions', () => {
+    const project = createProject(DevelopmentPhase.INIT);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.TODO, true);
+
+    assert.equal(project.phaseOverrides?.length, 1);
+    assert.equal(project.phaseOverrides[0]!.from, DevelopmentPhase.INIT);
+    assert.equal(project.phaseOverrides[0]!.action, DevelopmentPhase.TODO);
+    assert.deepEqual(project.phaseOverrides[0]!.missingApprovals, [DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN]);
+  });
+
+  it('always allows status', () => {
+    const project = createProject(DevelopmentPhase.FINISH);
+    PhaseStateMachine.assertTransition(project, DevelopmentPhase.STATUS);
+    assert.equal(project.phaseOverrides, undefined);
+  });
+
+  it('reopens a phase and revokes the affected dependent approvals', () => {
+    const project = createProject(DevelopmentPhase.TASK_COMPLETE, {
+      approvals: approve(DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN, DevelopmentPhase.TODO)
+    });
+
+    const revoked = PhaseStateMachine.reopen(project, DevelopmentPhase.REQUIREMENT, [DevelopmentPhase.DESIGN]);
+    assert.deepEqual(revoked, [DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN, DevelopmentPhase.TODO]);
+    assert.deepEqual(project.approvals, {});
+    assert.equal(project.phase, DevelopmentPhase.REQUIREMENT);
+  });
+
+  it('resumes after the later phases that kept their approval', () => {
+    const project = createProject(DevelopmentPhase.REQUIREMENT, {
+      approvals: approve(DevelopmentPhase.REQUIREMENT, DevelopmentPhase.TODO)
+    });
+    assert.equal(PhaseStateMachine.getConfirmedPhase(project, DevelopmentPhase.REQUIREMENT), DevelopmentPhase.REQUIREMENT);
+
+    project.approvals = approve(DevelopmentPhase.REQUIREMENT, DevelopmentPhase.DESIGN, DevelopmentPhase.TODO);
+    assert.equal(PhaseStateMachine.getConfirmedPhase(project, DevelopmentPhase.REQUIREMENT), DevelopmentPhase.TODO);
+  });
+});
+
+describe('phase transitions of the development_flow tool', () => {
+  it('rejects skipping phases unless forced', async () => {
+    const harness = await createHarness();
+    try {
+      const projectId = await initProject(harness);
+
+      const rejected = await harness.call({ action: 'design', projectId, architecture: 'A single service' });
+      assert.equal(rejected.code, 'PHASE_TRANSITION_INVALID');
+
+      await harness.run({ action: 'design', projectId, architecture: 'A single service', force: true });
+      const status = await harness.run({ action: 'status', projectId });
+      assert.equal(status.data.currentPhase, DevelopmentPhase.DESIGN);
+      assert.equal(status.data.approvals.requirement, undefined);
+    } finally {
+      await harness.close();
+    }
+  });
+});
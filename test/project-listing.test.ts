@@ -0,0 +1,76 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('project listing and switching', () => {
+  let harness: Harness;
+  let orders: string;
+  let billing: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    orders = await initProject(harness, 'Order Service');
+    billing = await initProject(harness, 'Billing Service');
+    await harness.run({ action: 'requirement', projectId: billing, requirements: ['Send invoices by email'] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('lists projects filtered by phase, name and date', async () => {
+    const all = await harness.run({ action: 'list' });
+    assert.deepEqual(all.data.map((project: { id: string }) => project.id).sort(), [orders, billing].sort());
+
+    const inRequirement = await harness.run({ action: 'list', phase: 'requirement' });
+    assert.deepEqual(inRequirement.data.map((project: { id: string }) => project.id), [billing]);
+
+    const byName = await harness.run({ action: 'list', projectName: 'order' });
+    assert.deepEqual(byName.data.map((project: { id: string }) => project.id), [orders]);
+
+    const future = await harness.run({ action: 'list', updatedAfter: '2999-01-01' });
+    assert.deepEqual(future.data, []);
+
+    const invalid = await harness.call({ action: 'list', updatedBefore: 'yesterday' });
+    assert.equal(invalid.code, 'VALIDATION_ERROR');
+  });
+
+  it('searches the project content', async () => {
+    const result = await harness.run({ action: 'search', query: 'invoices' });
+    assert.deepEqual(result.data.map((project: { id: string }) => project.id), [billing]);
+
+    const missing = await harness.call({ action: 'search', query: ' ' });
+    assert.equal(missing.code, 'VALIDATION_ERROR');
+  });
+
+  it('counts projects by phase', async () => {
+    const result = await harness.run({ action: 'stats' });
+    assert.equal(result.data.total, 2);
+    assert.equal(result.data.byPhase.init, 1);
+    assert.equal(result.data.byPhase.requirement, 1);
+  });
+
+  it('resumes a project after a server restart', async () => {
+    const restarted = await createHarness({
+      baseDir: harness.dir,
+      projectsDir: harness.dir,
+      templatesDir: path.join(harness.dir, 'templates')
+    });
+    try {
+      assert.equal(restarted.server.getCurrentProject(), null);
+
+      const result = await restarted.run({ action: 'resume', projectId: billing });
+      assert.equal(result.phase, 'requirement');
+      assert.equal(restarted.server.getCurrentProject()?.id, billing);
+
+      await restarted.run({ action: 'switch', projectId: orders });
+      const status = await restarted.run({ action: 'status' });
+      assert.equal(status.projectId, orders);
+    } finally {
+      await restarted.close();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, createStateManager, initProject, confirm, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+function promptText(result: { messages: Array<{ content: { type: string; text?: string } }> }): string {
+  return result.messages.map(message => message.content.text ?? '').join('\n');
+}
+
+describe('phase prompts', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('lists one prompt per phase', async () => {
+    const { prompts } = await harness.client.listPrompts();
+    assert.deepEqual(prompts.map(prompt => prompt.name), [
+      'start-project',
+      'write-requirements',
+      'review-phase',
+      'draft-design',
+      'break-down-tasks',
+      'execute-tasks',
+      'report-status',
+      'finish-project'
+    ]);
+  });
+
+  it('fills the design prompt in from the confirmed requirements', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await confirm(harness, projectId);
+
+    const result = await harness.client.getPrompt({ name: 'draft-design', arguments: { projectId } });
+    const text = promptText(result);
+    assert.match(text, new RegExp(`ID: ${projectId}`));
+    assert.match(text, /## Confirmed Requirements/);
+    assert.match(text, /REQ-1: Store orders/);
+  });
+
+  it('does not label unconfirmed requirements as confirmed', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+
+    const text = promptText(await harness.client.getPrompt({ name: 'draft-design', arguments: { projectId } }));
+    assert.doesNotMatch(text, /Confirmed Requirements/);
+    assert.match(text, /## Requirements \(not confirmed yet\)/);
+  });
+
+  it('includes the open feedback of a rejected phase', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await harness.run({ action: 'confirmation', projectId, confirmed: false, feedback: [{ text: 'Mention refunds' }] });
+
+    const result = await harness.client.getPrompt({ name: 'write-requirements', arguments: { projectId } });
+    assert.match(promptText(result), /\[requirement_fb_1\] Mention refunds/);
+  });
+
+  it('uses the current project when no project ID is given', async () => {
+    const projectId = await initProject(harness);
+
+    const result = await harness.client.getPrompt({ name: 'report-status' });
+    assert.match(promptText(result), new RegExp(`ID: ${projectId}`));
+  });
+
+  it('shows the current project as saved by another process', async () => {
+    const projectId = await initProject(harness);
+    const stateManager = await createStateManager(harness.dir);
+    const project = (await stateManager.loadProjectState(projectId))!;
+    project.description = 'Changed elsewhere';
+    await stateManager.saveProjectState(project);
+
+    const result = await harness.client.getPrompt({ name: 'report-status' });
+    assert.match(promptText(result), /Description: Changed elsewhere/);
+  });
+
+  it('rejects unknown prompts and projects', async () => {
+    await assert.rejects(harness.client.getPrompt({ name: 'nothing' }), /Unknown prompt/);
+    await assert.rejects(
+      harness.client.getPrompt({ name: 'draft-design', arguments: { projectId: 'proj_missing' } }),
+      /Project does not exist/
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequirementManager } from '../src/server/RequirementManager.js';
+import { DevelopmentPhase, ProjectState } from '../src/types/index.js';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+/** Lints requirements after assigning their IDs */
+function lint(fields: Partial<ProjectState>) {
+  const timestamp = new Date().toISOString();
+  const project = { id: 'proj_lint', name: 'Lint', phase: DevelopmentPhase.REQUIREMENT, createdAt: timestamp, updatedAt: timestamp, ...fields } as ProjectState;
+  RequirementManager.assignIds(project);
+  return RequirementManager.lint(project);
+}
+
+describe('EARS acceptance criteria', () => {
+  it('formats structured criteria', () => {
+    assert.equal(
+      RequirementManager.formatCriterion({ trigger: 'an order is placed', condition: 'stock is available', response: 'shall reserve the items' }),
+      'WHEN an order is placed AND stock is available THEN the system SHALL reserve the items'
+    );
+    assert.equal(
+      RequirementManager.formatCriterion({ condition: 'the card is declined', response: 'reject the order' }),
+      'IF the card is declined THEN the system SHALL reject the order'
+    );
+    assert.equal(RequirementManager.formatCriterion({ response: 'log every order' }), 'The system SHALL log every order');
+  });
+});
+
+describe('requirement linter', () => {
+  it('reports ambiguous terms, missing SHALL clauses and duplicates', () => {
+    const findings = lint({
+      requirements: ['Orders load fast', 'Store orders', 'store orders.'],
+      acceptanceCriteria: ['Orders are stored']
+    });
+    assert.deepEqual(findings.map(finding => `${finding.requirementId} ${finding.rule}`), [
+      'REQ-1 ambiguous_term',
+      'REQ-3 duplicate',
+      'AC-1 missing_shall'
+    ]);
+  });
+
+  it('ignores ambiguous words inside other words', () => {
+    assert.deepEqual(lint({ requirements: ['Send breakfast menus', 'Keep handsome layouts'] }), []);
+  });
+});
+
+describe('requirement linting in the flow', () => {
+  let harness: Harness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('returns findings and stores structured criteria as EARS text', async () => {
+    harness = await createHarness();
+    const projectId = await initProject(harness);
+
+    const result = await harness.run({
+      action: 'requirement',
+      projectId,
+      requirements: ['Orders load fast'],
+      acceptanceCriteria: [{ trigger: 'an order is placed', response: 'store it' }]
+    });
+    assert.deepEqual(result.data.findings.map((finding: { rule: string }) => finding.rule), ['ambiguous_term']);
+    assert.deepEqual(harness.server.getCurrentProject()!.acceptanceCriteria, ['WHEN an order is placed THEN the system SHALL store it']);
+
+    const invalid = await harness.call({ action: 'requirement', projectId, acceptanceCriteria: [{ trigger: 'x' }] });
+    assert.equal(invalid.code, 'VALIDATION_ERROR');
+  });
+
+  it('blocks confirmation on findings in strict mode unless forced', async () => {
+    harness = await createHarness({ strictRequirements: true });
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Orders load fast'] });
+
+    const blocked = await harness.call({ action: 'confirmation', projectId, confirmed: true });
+    assert.equal(blocked.code, 'REQUIREMENT_LINT_FAILED');
+    assert.equal(blocked.details.findings.length, 1);
+
+    await harness.run({ action: 'confirmation', projectId, confirmed: true, force: true });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('project resources', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('lists the state and generated documents of every project', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+
+    const { resources } = await harness.client.listResources();
+    const uris = resources.map(resource => resource.uri);
+    assert.ok(uris.includes(`kiro://projects/${projectId}/state`));
+    assert.ok(uris.some(uri => uri.startsWith(`kiro://projects/${projectId}/docs/`) && uri.endsWith('/requirement.md')));
+  });
+
+  it('reads the project state and documents', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+
+    const state = await harness.client.readResource({ uri: `kiro://projects/${projectId}/state` });
+    assert.equal(JSON.parse(state.contents[0]!.text as string).id, projectId);
+
+    const { resources } = await harness.client.listResources();
+    const document = resources.find(resource => resource.uri.includes('/docs/'))!;
+    const contents = await harness.client.readResource({ uri: document.uri });
+    assert.equal(contents.contents[0]!.mimeType, 'text/markdown');
+    assert.match(contents.contents[0]!.text as string, /Store orders/);
+  });
+
+  it('rejects malformed URIs and unknown documents', async () => {
+    const projectId = await initProject(harness);
+
+    await assert.rejects(harness.client.readResource({ uri: 'kiro://nothing' }), /Invalid resource URI/);
+    await assert.rejects(
+      harness.client.readResource({ uri: `kiro://projects/${projectId}/docs/design.md` }),
+      /has not been generated/
+    );
+  });
+
+  it('advertises URI templates for state and documents', async () => {
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map(template => template.uriTemplate), [
+      'kiro://projects/{projectId}/state',
+      'kiro://projects/{projectId}/docs/{fileName}'
+    ]);
+  });
+});
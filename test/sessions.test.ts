@@ -0,0 +1,51 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('session project context', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('targets an explicit project without switching the current one', async () => {
+    const first = await initProject(harness, 'First Project');
+    const second = await initProject(harness, 'Second Project');
+    assert.equal(harness.server.getCurrentProject()?.id, second);
+
+    const result = await harness.run({ action: 'requirement', projectId: first, requirements: ['Store orders'] });
+    assert.equal(result.projectId, first);
+    assert.equal(harness.server.getCurrentProject()?.id, second);
+
+    const status = await harness.run({ action: 'status' });
+    assert.equal(status.projectId, second);
+  });
+
+  it('clears the current project only when finishing that project', async () => {
+    const first = await initProject(harness, 'First Project');
+    const second = await initProject(harness, 'Second Project');
+
+    await harness.run({ action: 'finish', projectId: first, force: true });
+    assert.equal(harness.server.getCurrentProject()?.id, second);
+
+    await harness.run({ action: 'finish', force: true });
+    assert.equal(harness.server.getCurrentProject(), null);
+  });
+
+  it('rejects unknown sessions and projects', async () => {
+    const projectId = await initProject(harness);
+
+    await assert.rejects(harness.server.setCurrentProject(projectId, 'missing'), { code: 'SESSION_NOT_FOUND' });
+    await assert.rejects(harness.server.setCurrentProject('proj_missing'), { code: 'PROJECT_NOT_FOUND' });
+
+    const result = await harness.call({ action: 'status', projectId: 'proj_missing' });
+    assert.equal(result.code, 'PROJECT_NOT_FOUND');
+  });
+});
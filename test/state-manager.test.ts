@@ -0,0 +1,162 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs, PathLike } from 'fs';
+import path from 'path';
+import { ProjectState } from '../src/types/index.js';
+import { readJsonFile, writeFileAtomic, withFileLock } from '../src/utils/index.js';
+import { createTempDir, createStateManager, createProjectState, quietLogs } from './helpers.js';
+
+quietLogs();
+
+describe('StateManager revisions', () => {
+  let dir: string;
+  let remove: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ dir, remove } = await createTempDir());
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    quietLogs();
+    await remove();
+  });
+
+  it('keeps the revision of the project when the write fails', async () => {
+    const stateManager = await createStateManager(dir);
+    const project = createProjectState('proj_write');
+    await stateManager.saveProjectState(project);
+    assert.equal(project.revision, 1);
+
+    const statePath = path.join(dir, 'states', 'proj_write.json');
+    const rename = fs.rename;
+    mock.method(fs, 'rename', async (from: PathLike, to: PathLike) => {
+      if (to === statePath) {
+        throw new Error('disk full');
+      }
+      return rename(from, to);
+    });
+    await assert.rejects(stateManager.saveProjectState(project), { code: 'SAVE_STATE_ERROR' });
+    assert.equal(project.revision, 1);
+
+    mock.restoreAll();
+    quietLogs();
+    await stateManager.saveProjectState(project);
+    assert.equal(project.revision, 2);
+    assert.equal((await stateManager.loadProjectState('proj_write'))?.revision, 2);
+  });
+});
+
+describe('StateManager crash safety', () => {
+  let dir: string;
+  let remove: () => Promise<void>;
+  let statePath: string;
+
+  beforeEach(async () => {
+    ({ dir, remove } = await createTempDir());
+    statePath = path.join(dir, 'states', 'proj_safe.json');
+  });
+
+  afterEach(async () => {
+    await remove();
+  });
+
+  /** Saves two versions of a project, so that a backup of the first exists */
+  async function saveTwice(): Promise<void> {
+    const stateManager = await createStateManager(dir);
+    const project = createProjectState('proj_safe');
+    project.description = 'First version';
+    await stateManager.saveProjectState(project);
+    project.description = 'Second version';
+    await stateManager.saveProjectState(project);
+  }
+
+  it('recovers a truncated state file from the last backup', async () => {
+    await saveTwice();
+    const content = await fs.readFile(statePath, 'utf-8');
+    await fs.writeFile(statePath, content.slice(0, content.length / 2));
+
+    const stateManager = await createStateManager(dir);
+    const project = await stateManager.loadProjectState('proj_safe');
+    assert.equal(project?.description, 'First version');
+    assert.equal(project?.revision, 1);
+    assert.equal(await fs.readFile(`${statePath}.corrupted`, 'utf-8'), content.slice(0, content.length / 2));
+    assert.equal((await readJsonFile<ProjectState>(statePath))?.description, 'First version');
+  });
+
+  it('detects edits that do not match the checksum', async () => {
+    await saveTwice();
+    const state = JSON.parse(await fs.readFile(statePath, 'utf-8'));
+    await fs.writeFile(statePath, JSON.stringify({ ...state, description: 'Tampered' }));
+
+    const stateManager = await createStateManager(dir);
+    assert.equal((await stateManager.loadProjectState('proj_safe'))?.description, 'First version');
+  });
+
+  it('keeps a state saved while the recovery waited for the lock', async () => {
+    await saveTwice();
+    const stateManager = await createStateManager(dir);
+    const saved = await fs.readFile(statePath, 'utf-8');
+    await fs.writeFile(statePath, saved.slice(0, saved.length / 2));
+
+    let loading!: Promise<ProjectState | null>;
+    await withFileLock(`${statePath}.lock`, async () => {
+      loading = stateManager.loadProjectState('proj_safe');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await fs.writeFile(statePath, saved);
+    });
+
+    assert.equal((await loading)?.description, 'Second version');
+    await assert.rejects(fs.access(`${statePath}.corrupted`));
+  });
+
+  it('reports a corrupted state without a valid backup', async () => {
+    const stateManager = await createStateManager(dir, { autoBackup: false });
+    await stateManager.saveProjectState(createProjectState('proj_safe'));
+    await fs.writeFile(statePath, '{"id": "proj_safe",');
+
+    await assert.rejects(stateManager.loadProjectState('proj_safe'), { code: 'STATE_CORRUPTED' });
+  });
+
+  it('removes temporary files left over by a crash', async () => {
+    await createStateManager(dir);
+    const leftover = path.join(dir, 'states', 'proj_safe.json.123.tmp');
+    await fs.writeFile(leftover, '{');
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(leftover, old, old);
+    const recent = path.join(dir, 'states', 'proj_other.json.456.tmp');
+    await fs.writeFile(recent, '{');
+
+    await createStateManager(dir);
+    await assert.rejects(fs.access(leftover));
+    await fs.access(recent);
+  });
+});
+
+describe('atomic file writes', () => {
+  it('replaces the file without leaving temporary files', async () => {
+    const { dir, remove } = await createTempDir();
+    try {
+      const filePath = path.join(dir, 'data.json');
+      await writeFileAtomic(filePath, '{"version": 1}');
+      await writeFileAtomic(filePath, '{"version": 2}');
+
+      assert.deepEqual(await readJsonFile(filePath), { version: 2 });
+      assert.deepEqual(await fs.readdir(dir), ['data.json']);
+    } finally {
+      await remove();
+    }
+  });
+
+  it('distinguishes missing from invalid JSON files', async () => {
+    const { dir, remove } = await createTempDir();
+    try {
+      assert.equal(await readJsonFile(path.join(dir, 'missing.json')), null);
+      await fs.writeFile(path.join(dir, 'invalid.json'), '{');
+      await assert.rejects(readJsonFile(path.join(dir, 'invalid.json')));
+    } finally {
+      await remove();
+    }
+  });
+});
+
@@ -0,0 +1,81 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskManager } from '../src/server/TaskManager.js';
+import { Task } from '../src/types/index.js';
+import { createHarness, createApprovedProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+const TASKS = [
+  { id: 'task_001', title: 'Backend' },
+  { id: 'task_002', title: 'Schema', parentId: 'task_001', estimatedHours: 2 },
+  { id: 'task_003', title: 'API', parentId: 'task_001', estimatedHours: 3 },
+  { id: 'task_004', title: 'Endpoints', parentId: 'task_003' },
+  { id: 'task_005', title: 'Docs', estimatedHours: 1 }
+];
+
+/** Builds a minimal task */
+function createTask(id: string, parentId?: string): Task {
+  return { id, title: id, description: '', priority: 'medium', status: 'pending', ...(parentId && { parentId }) } as Task;
+}
+
+describe('TaskManager hierarchy', () => {
+  it('reports nesting cycles and unknown parents', () => {
+    const errors = TaskManager.validateTaskGraph([createTask('a', 'b'), createTask('b', 'a'), createTask('c', 'missing'), createTask('d', 'd')]);
+    assert.ok(errors.some(error => error.startsWith('Task nesting cycle: ')), errors.join('\n'));
+    assert.ok(errors.includes("Task 'c' has unknown parent task 'missing'"));
+    assert.ok(errors.includes("Task 'd' is its own parent"));
+  });
+});
+
+describe('hierarchical subtasks', () => {
+  let harness: Harness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('numbers the task tree and rolls up estimates and progress', async () => {
+    harness = await createHarness();
+    const projectId = await createApprovedProject(harness, { tasks: TASKS });
+    await harness.run({ action: 'task_complete', projectId, taskId: 'task_002' });
+
+    const status = await harness.run({ action: 'status', projectId });
+    const [backend, docs] = status.data.taskTree;
+    assert.equal(backend.number, '1');
+    assert.equal(backend.estimatedHours, 5);
+    assert.equal(backend.completionRate, 50);
+    assert.deepEqual(backend.subtasks.map((node: { number: string }) => node.number), ['1.1', '1.2']);
+    assert.equal(backend.subtasks[1].subtasks[0].number, '1.2.1');
+    assert.equal(docs.number, '2');
+  });
+
+  it('keeps a parent open while its subtasks are open', async () => {
+    harness = await createHarness();
+    const projectId = await createApprovedProject(harness, { tasks: TASKS });
+
+    const result = await harness.call({ action: 'task_complete', projectId, taskId: 'task_003' });
+    assert.equal(result.code, 'TASK_SUBTASKS_OPEN');
+    assert.deepEqual(result.details.openSubtasks, ['task_004']);
+  });
+
+  it('completes parents whose subtasks are all completed', async () => {
+    harness = await createHarness();
+    const projectId = await createApprovedProject(harness, { tasks: TASKS });
+    await harness.run({ action: 'task_complete', projectId, taskId: 'task_002' });
+
+    const result = await harness.run({ action: 'task_complete', projectId, taskId: 'task_004' });
+    assert.deepEqual(result.data.autoCompleted, ['task_003', 'task_001']);
+  });
+
+  it('leaves parents open when automatic completion is disabled', async () => {
+    harness = await createHarness({ autoCompleteParentTasks: false });
+    const projectId = await createApprovedProject(harness, { tasks: TASKS });
+
+    const result = await harness.run({ action: 'task_complete', projectId, taskId: 'task_004' });
+    assert.equal(result.data.autoCompleted, undefined);
+    const status = await harness.run({ action: 'status', projectId });
+    assert.equal(status.data.taskTree[0].subtasks[1].completionRate, 100);
+    assert.equal(status.data.taskTree[0].subtasks[1].status, 'pending');
+  });
+});
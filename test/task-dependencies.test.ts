@@ -0,0 +1,110 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskManager } from '../src/server/TaskManager.js';
+import { Task } from '../src/types/index.js';
+import { createHarness, createApprovedProject, initProject, confirm, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+/** Builds a minimal task */
+function createTask(id: string, dependencies: string[] = []): Task {
+  return { id, title: id, description: '', priority: 'medium', dependencies, status: 'pending' } as unknown as Task;
+}
+
+describe('TaskManager dependency graph', () => {
+  it('orders tasks after their dependencies', () => {
+    const tasks = [createTask('c', ['b']), createTask('a'), createTask('b', ['a'])];
+    assert.deepEqual(TaskManager.getTopologicalOrder(tasks).map(task => task.id), ['a', 'b', 'c']);
+  });
+
+  it('reports cycles, self references and unknown dependencies', () => {
+    const errors = TaskManager.validateTaskGraph([
+      createTask('a', ['c']),
+      createTask('b', ['a']),
+      createTask('c', ['b']),
+      createTask('d', ['d']),
+      createTask('e', ['missing'])
+    ]);
+    assert.ok(errors.some(error => /^Dependency cycle: (a|b|c) -> .* -> \1$/.test(error)), errors.join('\n'));
+    assert.ok(errors.includes("Task 'd' depends on itself"));
+    assert.ok(errors.includes("Task 'e' depends on unknown task 'missing'"));
+  });
+});
+
+describe('dependency-aware scheduling', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('rejects a task list with a dependency cycle', async () => {
+    const projectId = await initProject(harness);
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    await confirm(harness, projectId);
+    await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+    await confirm(harness, projectId);
+
+    const result = await harness.call({
+      action: 'todo',
+      projectId,
+      tasks: [
+        { id: 'task_a', title: 'A', dependencies: ['task_b'] },
+        { id: 'task_b', title: 'B', dependencies: ['task_a'] }
+      ]
+    });
+    assert.equal(result.code, 'VALIDATION_ERROR');
+    assert.match(result.message, /Dependency cycle: task_(a|b) -> task_(a|b) -> task_\1/);
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.equal(status.data.totalTasks, 0);
+  });
+
+  it('rejects an update that closes a cycle', async () => {
+    const projectId = await createApprovedProject(harness, {
+      tasks: [{ id: 'task_a', title: 'A' }, { id: 'task_b', title: 'B', dependencies: ['task_a'] }]
+    });
+
+    const result = await harness.call({ action: 'task_update', projectId, taskId: 'task_a', dependencies: ['task_b'] });
+    assert.equal(result.code, 'VALIDATION_ERROR');
+    assert.match(result.message, /Dependency cycle/);
+
+    await harness.run({ action: 'status', projectId });
+    assert.equal(harness.server.getCurrentProject()!.tasks![0]!.dependencies?.length ?? 0, 0);
+  });
+
+  it('schedules ready tasks by priority and dependency order', async () => {
+    const projectId = await createApprovedProject(harness, {
+      tasks: [
+        { id: 'task_a', title: 'A', priority: 'low' },
+        { id: 'task_b', title: 'B', priority: 'high', dependencies: ['task_a'] },
+        { id: 'task_c', title: 'C', priority: 'high' }
+      ]
+    });
+
+    const next = await harness.run({ action: 'next', projectId });
+    assert.deepEqual(next.data.tasks.map((task: { id: string }) => task.id), ['task_c', 'task_a']);
+    assert.deepEqual(next.data.waiting, [{ id: 'task_b', title: 'B', openDependencies: ['task_a'] }]);
+
+    await harness.run({ action: 'task_complete', projectId, taskId: 'task_a' });
+    const after = await harness.run({ action: 'next', projectId });
+    assert.deepEqual(after.data.tasks.map((task: { id: string }) => task.id), ['task_b', 'task_c']);
+  });
+
+  it('completes a task only after its dependencies unless forced', async () => {
+    const projectId = await createApprovedProject(harness, {
+      tasks: [{ id: 'task_a', title: 'A' }, { id: 'task_b', title: 'B', dependencies: ['task_a'] }]
+    });
+
+    const blocked = await harness.call({ action: 'task_complete', projectId, taskId: 'task_b' });
+    assert.equal(blocked.code, 'TASK_DEPENDENCIES_OPEN');
+    assert.deepEqual(blocked.details.openDependencies, ['task_a']);
+
+    const forced = await harness.run({ action: 'task_complete', projectId, taskId: 'task_b', force: true });
+    assert.equal(forced.data.task.status, 'completed');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, createApprovedProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('incremental task edits', () => {
+  let harness: Harness;
+  let projectId: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await createApprovedProject(harness, {
+      tasks: [
+        { id: 'task_001', title: 'Create the schema', description: 'Orders table', priority: 'medium' },
+        { id: 'task_002', title: 'Write the API', dependencies: ['task_001'] }
+      ]
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  /** Lists the tasks of the project as stored */
+  async function storedTasks(): Promise<any[]> {
+    await harness.run({ action: 'status', projectId });
+    return harness.server.getCurrentProject()!.tasks!;
+  }
+
+  it('merges a revised task list by ID', async () => {
+    await harness.run({ action: 'task_start', projectId, taskId: 'task_001' });
+    await harness.run({ action: 'todo', projectId, force: true, tasks: [{ id: 'task_001', priority: 'high' }, { title: 'Deploy' }] });
+
+    const tasks = await storedTasks();
+    assert.deepEqual(tasks.map(task => task.id), ['task_001', 'task_002', 'task_003']);
+    assert.equal(tasks[0].title, 'Create the schema');
+    assert.equal(tasks[0].description, 'Orders table');
+    assert.equal(tasks[0].priority, 'high');
+    assert.equal(tasks[0].status, 'in_progress');
+    assert.equal(tasks[2].title, 'Deploy');
+  });
+
+  it('reports added and updated tasks', async () => {
+    const result = await harness.run({ action: 'todo', projectId, tasks: [{ id: 'task_002', title: 'Write the REST API' }, { id: 'task_010', title: 'Deploy' }] });
+    assert.deepEqual(result.data.added, ['task_010']);
+    assert.deepEqual(result.data.updated, ['task_002']);
+  });
+
+  it('requires a title for new tasks', async () => {
+    const result = await harness.call({ action: 'todo', projectId, tasks: [{ id: 'task_010', priority: 'high' }] });
+    assert.equal(result.code, 'VALIDATION_ERROR');
+  });
+
+  it('adds tasks with generated IDs during execution', async () => {
+    await harness.run({ action: 'task_start', projectId, taskId: 'task_001' });
+
+    const result = await harness.run({ action: 'task_add', projectId, title: 'Add monitoring', dependencies: ['task_002'] });
+    assert.equal(result.data.task.id, 'task_003');
+    assert.deepEqual(result.data.task.dependencies, ['task_002']);
+  });
+
+  it('removes tasks and detaches dependents only when forced', async () => {
+    const rejected = await harness.call({ action: 'task_remove', projectId, taskId: 'task_001' });
+    assert.equal(rejected.code, 'TASK_HAS_DEPENDENTS');
+    assert.deepEqual(rejected.details.dependents, ['task_002']);
+
+    const removed = await harness.run({ action: 'task_remove', projectId, taskId: 'task_001', force: true });
+    assert.deepEqual(removed.data.dependents, ['task_002']);
+
+    const tasks = await storedTasks();
+    assert.deepEqual(tasks.map(task => task.id), ['task_002']);
+    assert.deepEqual(tasks[0].dependencies, []);
+  });
+});
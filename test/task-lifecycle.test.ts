@@ -0,0 +1,81 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, createApprovedProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+describe('task lifecycle', () => {
+  let harness: Harness;
+  let projectId: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await createApprovedProject(harness, {
+      tasks: [{ id: 'task_001', title: 'Build the service', priority: 'medium', estimatedHours: 2 }]
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  /** Applies a lifecycle action to task_001 */
+  function act(action: string, extra: Record<string, unknown> = {}): Promise<any> {
+    return harness.call({ action, projectId, taskId: 'task_001', ...extra });
+  }
+
+  it('moves a task through start, block, reopen and complete', async () => {
+    const started = await act('task_start');
+    assert.equal(started.data.task.status, 'in_progress');
+    assert.equal(started.data.previousStatus, 'pending');
+    assert.ok(started.data.task.startedAt);
+
+    const blocked = await act('task_block', { reason: 'Waiting for credentials' });
+    assert.equal(blocked.data.task.status, 'blocked');
+    assert.equal(blocked.data.task.blockedReason, 'Waiting for credentials');
+
+    const reopened = await act('task_reopen');
+    assert.equal(reopened.data.task.status, 'pending');
+    assert.equal(reopened.data.task.blockedReason, undefined);
+
+    const completed = await act('task_complete');
+    assert.equal(completed.data.task.status, 'completed');
+    assert.ok(completed.data.task.completedAt);
+
+    const again = await act('task_reopen');
+    assert.equal(again.data.task.status, 'pending');
+    assert.equal(again.data.task.completedAt, undefined);
+  });
+
+  it('rejects illegal status changes', async () => {
+    await act('task_block', { reason: 'Waiting for credentials' });
+
+    const completed = await act('task_complete');
+    assert.equal(completed.code, 'TASK_TRANSITION_INVALID');
+    assert.match(completed.message, /Waiting for credentials/);
+
+    const noReason = await act('task_block');
+    assert.equal(noReason.code, 'VALIDATION_ERROR');
+
+    const unknown = await harness.call({ action: 'task_start', projectId, taskId: 'task_999' });
+    assert.equal(unknown.code, 'TASK_NOT_FOUND');
+  });
+
+  it('updates task fields', async () => {
+    const result = await act('task_update', { title: 'Build the order service', priority: 'high', assignee: 'Alex' });
+    assert.deepEqual(result.data.updatedFields.sort(), ['assignee', 'priority', 'title']);
+    assert.equal(result.data.task.title, 'Build the order service');
+    assert.equal(result.data.task.estimatedHours, 2);
+
+    const invalid = await act('task_update', { priority: 'urgent' });
+    assert.equal(invalid.code, 'VALIDATION_ERROR');
+  });
+
+  it('reports the task counts by status', async () => {
+    await act('task_start');
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.equal(status.data.inProgressTasksCount, 1);
+    assert.equal(status.data.inProgressTasks[0].id, 'task_001');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { TemplateEngine } from '../src/server/TemplateEngine.js';
+import { createHarness, createApprovedProject, quietLogs } from './helpers.js';
+
+quietLogs();
+
+describe('TemplateEngine cache', () => {
+  it('keeps a bounded number of parsed templates', () => {
+    const engine = new TemplateEngine();
+    for (let edit = 0; edit < 100; edit++) {
+      assert.equal(engine.render(`Edit ${edit}: {{name}}`, { name: 'x' }), `Edit ${edit}: x`);
+    }
+    assert.ok((engine as any).cache.size <= 32);
+  });
+
+  it('keeps recently used templates cached', () => {
+    const engine = new TemplateEngine();
+    const cache: Map<string, unknown> = (engine as any).cache;
+    engine.render('{{kept}}', {});
+    for (let edit = 0; edit < 40; edit++) {
+      engine.render(`{{value${edit}}}`, {});
+      engine.render('{{kept}}', {});
+    }
+    assert.ok(cache.has('{{kept}}'));
+    assert.ok(!cache.has('{{value0}}'));
+  });
+});
+
+describe('TemplateEngine rendering', () => {
+  const engine = new TemplateEngine();
+
+  it('resolves dotted paths and parent contexts', () => {
+    const data = { project: { name: 'Orders' }, tasks: [{ title: 'A' }, { title: 'B' }] };
+    assert.equal(engine.render('{{project.name}} has {{tasks.length}} tasks', data), 'Orders has 2 tasks');
+    assert.equal(engine.render('{{#each tasks}}{{title}} of {{../project.name}};{{/each}}', data), 'A of Orders;B of Orders;');
+  });
+
+  it('nests blocks with else branches', () => {
+    const template = '{{#each items}}{{#if done}}[x]{{else if started}}[~]{{else}}[ ]{{/if}}{{/each}}';
+    const items = [{ done: true }, { started: true }, {}];
+    assert.equal(engine.render(template, { items }), '[x][~][ ]');
+    assert.equal(engine.render('{{#each items}}x{{else}}none{{/each}}', { items: [] }), 'none');
+    assert.equal(engine.render('{{#unless ok}}missing{{/unless}}', {}), 'missing');
+  });
+
+  it('exposes iteration metadata', () => {
+    const template = '{{#each items}}{{@index}}:{{this}}{{#if @first}}(first){{/if}}{{#unless @last}}, {{/unless}}{{/each}}';
+    assert.equal(engine.render(template, { items: ['a', 'b', 'c'] }), '0:a(first), 1:b, 2:c');
+    assert.equal(engine.render('{{#each map}}{{@key}}={{this}} {{/each}}', { map: { x: 1, y: 2 } }), 'x=1 y=2 ');
+  });
+
+  it('calls built-in and registered helpers', () => {
+    const custom = new TemplateEngine();
+    custom.registerHelper('upper', value => String(value).toUpperCase());
+    assert.equal(custom.render('{{upper name}}', { name: 'kiro' }), 'KIRO');
+    assert.equal(custom.render('{{math done "/" total "*" 100}}%', { done: 1, total: 3 }), '33%');
+    assert.equal(custom.render('{{#if (gt count 1)}}many{{/if}}', { count: 2 }), 'many');
+    assert.equal(custom.render('{{join tags " | "}}', { tags: ['a', 'b'] }), 'a | b');
+  });
+
+  it('removes standalone block lines', () => {
+    const template = 'Tasks:\n{{#each items}}\n- {{this}}\n{{/each}}\nEnd';
+    assert.equal(engine.render(template, { items: ['a', 'b'] }), 'Tasks:\n- a\n- b\nEnd');
+  });
+
+  it('reports syntax errors with line numbers', () => {
+    assert.throws(() => engine.render('line\n{{#if x}}open', {}), { code: 'TEMPLATE_SYNTAX_ERROR', details: { line: 2 } });
+    assert.throws(() => engine.render('{{#if x}}{{/each}}', {}), { code: 'TEMPLATE_SYNTAX_ERROR' });
+    assert.throws(() => engine.compile('{{missing value}}'), { code: 'TEMPLATE_RENDER_ERROR' });
+  });
+});
+
+describe('built-in templates', () => {
+  it('render without leftover template tags', async () => {
+    const harness = await createHarness();
+    try {
+      const projectId = await createApprovedProject(harness, {
+        tasks: [{ id: 'task_001', title: 'Build the service' }, { id: 'task_002', title: 'Deploy it', dependencies: ['task_001'] }]
+      });
+      await harness.run({ action: 'task_complete', projectId, taskId: 'task_001' });
+      const dir = harness.server.getCurrentProject()!.specDir!;
+      await harness.run({ action: 'finish', projectId, force: true });
+
+      const files = (await readdir(dir)).filter(fileName => fileName.endsWith('.md'));
+      assert.deepEqual(files.sort(), ['design.md', 'done.md', 'requirement.md', 'todo.md', 'traceability.md']);
+      for (const fileName of files) {
+        assert.doesNotMatch(await readFile(path.join(dir, fileName), 'utf-8'), /\{\{|\}\}/, fileName);
+      }
+    } finally {
+      await harness.close();
+    }
+  });
+});
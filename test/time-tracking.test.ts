@@ -0,0 +1,94 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { TaskManager } from '../src/server/TaskManager.js';
+import { Task } from '../src/types/index.js';
+import { createHarness, createApprovedProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+/** Builds a minimal task */
+function createTask(id: string, fields: Partial<Task> = {}): Task {
+  return { id, title: id, description: '', priority: 'medium', status: 'pending', ...fields } as Task;
+}
+
+describe('TaskManager time tracking', () => {
+  it('books the time of a stopped timer', () => {
+    const task = createTask('task_001', {
+      status: 'in_progress',
+      timeEntries: [{ source: 'timer', startedAt: '2026-01-01T08:00:00.000Z', hours: 0 }]
+    });
+
+    TaskManager.stopTimer(task, '2026-01-01T10:30:00.000Z');
+    assert.equal(task.timeEntries![0]!.hours, 2.5);
+    assert.equal(task.timeEntries![0]!.endedAt, '2026-01-01T10:30:00.000Z');
+    assert.equal(task.actualHours, 2.5);
+  });
+
+  it('compares estimates with actual hours', () => {
+    const report = TaskManager.getTimeReport([
+      createTask('task_001', { status: 'completed', estimatedHours: 4, actualHours: 5, priority: 'high', assignee: 'Alex' }),
+      createTask('task_002', { status: 'completed', estimatedHours: 2, actualHours: 2 }),
+      createTask('task_003', { estimatedHours: 3 })
+    ]);
+
+    assert.deepEqual(report.total, { tasks: 3, estimatedHours: 9, actualHours: 7, variance: -2, variancePercent: -22 });
+    assert.deepEqual(report.completed, { tasks: 2, estimatedHours: 6, actualHours: 7, variance: 1, variancePercent: 17 });
+    assert.equal(report.estimateAccuracy, 88);
+    assert.equal(report.byPriority.high?.actualHours, 5);
+    assert.deepEqual(Object.keys(report.byAssignee).sort(), ['Alex', 'unassigned']);
+  });
+
+  it('counts parent estimates through their subtasks only', () => {
+    const report = TaskManager.getTimeReport([
+      createTask('task_001', { estimatedHours: 10 }),
+      createTask('task_002', { parentId: 'task_001', estimatedHours: 2 })
+    ]);
+    assert.equal(report.total.estimatedHours, 2);
+  });
+});
+
+describe('time logging', () => {
+  let harness: Harness;
+  let projectId: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await createApprovedProject(harness, { tasks: [{ id: 'task_001', title: 'Build the service', estimatedHours: 2 }] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('logs manual time on a task', async () => {
+    await harness.run({ action: 'task_log', projectId, taskId: 'task_001', hours: 1.5, note: 'Pairing' });
+    const result = await harness.run({ action: 'task_log', projectId, taskId: 'task_001', hours: 1 });
+
+    assert.equal(result.data.actualHours, 2.5);
+    assert.equal(result.data.task.timeEntries[0].note, 'Pairing');
+    assert.equal(result.data.task.timeEntries[0].source, 'manual');
+
+    const status = await harness.run({ action: 'status', projectId });
+    assert.equal(status.data.timeReport.total.variance, 0.5);
+  });
+
+  it('rejects invalid hours', async () => {
+    for (const hours of [0, -1, 'two']) {
+      const result = await harness.call({ action: 'task_log', projectId, taskId: 'task_001', hours });
+      assert.equal(result.code, 'VALIDATION_ERROR', `hours: ${String(hours)}`);
+    }
+  });
+
+  it('runs a timer while a task is in progress', async () => {
+    await harness.run({ action: 'task_start', projectId, taskId: 'task_001' });
+    let status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(status.data.timeReport.runningTimers, ['task_001']);
+
+    await harness.run({ action: 'task_complete', projectId, taskId: 'task_001' });
+    status = await harness.run({ action: 'status', projectId });
+    assert.deepEqual(status.data.timeReport.runningTimers, []);
+    const [entry] = harness.server.getCurrentProject()!.tasks![0]!.timeEntries!;
+    assert.equal(entry!.source, 'timer');
+    assert.ok(entry!.endedAt);
+  });
+});
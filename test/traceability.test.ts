@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { RequirementManager } from '../src/server/RequirementManager.js';
+import { DevelopmentPhase, ProjectState } from '../src/types/index.js';
+import { createHarness, createApprovedProject, initProject, confirm, quietLogs } from './helpers.js';
+
+quietLogs();
+
+/** Builds a minimal project state with requirements */
+function createProject(fields: Partial<ProjectState>): ProjectState {
+  const timestamp = new Date().toISOString();
+  return { id: 'proj_trace', name: 'Trace', phase: DevelopmentPhase.REQUIREMENT, createdAt: timestamp, updatedAt: timestamp, ...fields } as ProjectState;
+}
+
+describe('RequirementManager IDs', () => {
+  it('assigns an ID prefix per requirement kind', () => {
+    const project = createProject({
+      requirements: ['Store orders'],
+      functionalRequirements: ['List orders'],
+      technicalRequirements: ['Use PostgreSQL'],
+      acceptanceCriteria: ['WHEN an order is placed THEN the system SHALL store it']
+    });
+    assert.deepEqual(RequirementManager.assignIds(project).map(item => item.id), ['REQ-1', 'FR-1', 'TR-1', 'AC-1']);
+  });
+
+  it('keeps IDs stable and never reuses removed ones', () => {
+    const project = createProject({ requirements: ['Store orders', 'Ship orders', 'Bill orders'] });
+    RequirementManager.assignIds(project);
+
+    project.requirements = ['Bill orders', 'Store orders', 'Refund orders'];
+    assert.deepEqual(
+      RequirementManager.assignIds(project).map(item => `${item.id}: ${item.text}`),
+      ['REQ-3: Bill orders', 'REQ-1: Store orders', 'REQ-4: Refund orders']
+    );
+  });
+});
+
+describe('traceability matrix', () => {
+  it('traces requirements to design sections and tasks', async () => {
+    const harness = await createHarness();
+    try {
+      const projectId = await createApprovedProject(harness, {
+        requirements: ['Store orders', 'Ship orders', 'Bill orders'],
+        architecture: 'Orders live in PostgreSQL (REQ-1, REQ-2)',
+        tasks: [
+          { id: 'task_001', title: 'Create the order table', requirementIds: ['REQ-1'] },
+          { id: 'task_002', title: 'Call the carrier', requirementIds: ['REQ-2'] }
+        ]
+      });
+      await harness.run({ action: 'task_complete', projectId, taskId: 'task_001' });
+
+      const status = await harness.run({ action: 'status', projectId });
+      const trace = Object.fromEntries(status.data.traceability.map((entry: { id: string }) => [entry.id, entry]));
+      assert.deepEqual(trace['REQ-1'].designSections, ['architecture']);
+      assert.equal(trace['REQ-1'].status, 'completed');
+      assert.equal(trace['REQ-2'].status, 'open');
+      assert.deepEqual(trace['REQ-2'].tasks, [{ id: 'task_002', title: 'Call the carrier', status: 'pending' }]);
+      assert.equal(trace['REQ-3'].status, 'unplanned');
+
+      const project = harness.server.getCurrentProject()!;
+      const matrix = await readFile(project.documents!.traceability!, 'utf-8');
+      assert.match(matrix, /REQ-1/);
+      assert.match(matrix, /task_002/);
+
+      const finished = await harness.run({ action: 'finish', projectId, force: true });
+      assert.deepEqual(finished.data.unplannedRequirements, ['REQ-3']);
+    } finally {
+      await harness.close();
+    }
+  });
+
+  it('rejects tasks referencing unknown requirements', async () => {
+    const harness = await createHarness();
+    try {
+      const projectId = await initProject(harness);
+      await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+      await confirm(harness, projectId);
+      await harness.run({ action: 'design', projectId, architecture: 'A single service' });
+      await confirm(harness, projectId);
+
+      const result = await harness.call({ action: 'todo', projectId, tasks: [{ id: 'task_001', title: 'Build', requirementIds: ['REQ-9'] }] });
+      assert.equal(result.code, 'VALIDATION_ERROR');
+      assert.match(result.message, /task_001 references unknown requirement\(s\): REQ-9/);
+    } finally {
+      await harness.close();
+    }
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { RequirementManager } from '../src/server/RequirementManager.js';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+const STORY = {
+  role: 'shop owner',
+  goal: 'to see unpaid orders',
+  benefit: 'I can follow up on them',
+  acceptanceCriteria: [{ trigger: 'an order is unpaid for a week', response: 'flag the order' }]
+};
+
+describe('RequirementManager.formatStory', () => {
+  it('formats stories with the matching article', () => {
+    assert.equal(
+      RequirementManager.formatStory({ role: 'admin', goal: 'to export orders' }),
+      'As an admin, I want to export orders'
+    );
+    assert.equal(
+      RequirementManager.formatStory(STORY),
+      'As a shop owner, I want to see unpaid orders, so that I can follow up on them'
+    );
+  });
+});
+
+describe('user stories', () => {
+  let harness: Harness;
+  let projectId: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    projectId = await initProject(harness);
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('gives stories and their criteria requirement IDs', async () => {
+    const result = await harness.run({ action: 'requirement', projectId, userStories: [STORY], requirements: ['Store orders'] });
+
+    assert.deepEqual(
+      result.data.requirements.map((item: { id: string; storyId?: string }) => [item.id, item.storyId]),
+      [['US-1', undefined], ['AC-1', 'US-1'], ['REQ-1', undefined]]
+    );
+    assert.equal(result.data.requirements[1].text, 'WHEN an order is unpaid for a week THEN the system SHALL flag the order');
+
+    const document = await readFile(harness.server.getCurrentProject()!.documents!.requirement!, 'utf-8');
+    assert.match(document, /US-1/);
+    assert.match(document, /As a shop owner, I want to see unpaid orders/);
+  });
+
+  it('keeps the story ID when a criterion is added', async () => {
+    await harness.run({ action: 'requirement', projectId, userStories: [STORY] });
+    const revised = { ...STORY, acceptanceCriteria: [...STORY.acceptanceCriteria, 'WHEN an order is paid THEN the system SHALL clear the flag'] };
+
+    const result = await harness.run({ action: 'requirement', projectId, userStories: [revised] });
+    assert.deepEqual(result.data.requirements.map((item: { id: string }) => item.id), ['US-1', 'AC-1', 'AC-2']);
+  });
+
+  it('rejects incomplete stories', async () => {
+    const result = await harness.call({ action: 'requirement', projectId, userStories: [{ role: 'shop owner', goal: ' ' }] });
+    assert.equal(result.code, 'VALIDATION_ERROR');
+    assert.match(result.message, /userStories\[0\]\.goal must be a non-empty string/);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createHarness, initProject, quietLogs, Harness } from './helpers.js';
+
+quietLogs();
+
+const REQUIREMENT_TEMPLATE = [
+  '---',
+  'name: requirement',
+  'path: spec.md',
+  'description: Company requirement format',
+  'variables: [projectName, requirements]',
+  '---',
+  '# Spec: {{projectName}}',
+  '{{#each requirements}}',
+  '* {{this}}',
+  '{{/each}}',
+  ''
+].join('\n');
+
+describe('user templates', () => {
+  let harness: Harness;
+  let templatesDir: string;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+    templatesDir = path.join(harness.dir, 'templates');
+    await mkdir(templatesDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('renders documents from templates in templatesDir', async () => {
+    await writeFile(path.join(templatesDir, 'requirement.md'), REQUIREMENT_TEMPLATE);
+    const projectId = await initProject(harness, 'Orders');
+
+    const result = await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    const document = result.generatedFiles.find((filePath: string) => filePath.endsWith('spec.md'));
+    assert.equal(await readFile(document, 'utf-8'), '# Spec: Orders\n* Store orders\n');
+  });
+
+  it('prefers the per-project override directory', async () => {
+    await writeFile(path.join(templatesDir, 'requirement.md'), REQUIREMENT_TEMPLATE);
+    const projectId = await initProject(harness, 'Orders');
+    await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+
+    const projectTemplatesDir = path.join(harness.server.getCurrentProject()!.specDir!, 'templates');
+    await mkdir(projectTemplatesDir);
+    await writeFile(path.join(projectTemplatesDir, 'requirement.md'), REQUIREMENT_TEMPLATE.replace('# Spec:', '# Project spec:'));
+
+    const result = await harness.run({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    const document = result.generatedFiles.find((filePath: string) => filePath.endsWith('spec.md'));
+    assert.match(await readFile(document, 'utf-8'), /^# Project spec: Orders/);
+  });
+
+  it('lists templates with their errors and warnings', async () => {
+    await writeFile(path.join(templatesDir, 'requirement.md'), REQUIREMENT_TEMPLATE);
+    await writeFile(path.join(templatesDir, 'broken.md'), '---\nname: broken\nowner: me\n---\n{{#if x}}open\n');
+
+    const result = await harness.run({ action: 'templates' });
+    const byName = (name: string, source: string) =>
+      result.data.templates.find((template: { name: string; source: string }) => template.name === name && template.source === source);
+
+    assert.equal(byName('requirement', 'builtin').overridden, true);
+    assert.equal(byName('requirement', 'global').path, 'spec.md');
+    assert.deepEqual(byName('requirement', 'global').errors, []);
+
+    const broken = byName('broken', 'global');
+    assert.equal(broken.errors.length, 2);
+    assert.match(broken.errors[0], /Unknown front-matter key 'owner'/);
+    assert.match(broken.errors[1], /Unclosed block/);
+    assert.match(broken.warnings[0], /No document is generated/);
+    assert.equal(result.nextSteps.length, 1);
+  });
+
+  it('refuses to generate a document from an invalid template', async () => {
+    await writeFile(path.join(templatesDir, 'requirement.md'), '---\nname: requirement\n---\n{{#each requirements}}\n');
+    const projectId = await initProject(harness);
+
+    const result = await harness.call({ action: 'requirement', projectId, requirements: ['Store orders'] });
+    assert.equal(result.code, 'TEMPLATE_INVALID');
+  });
+});